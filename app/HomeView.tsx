@@ -0,0 +1,1109 @@
+'use client';
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { AnalysisResult, AnalysisStage } from '@/lib/analysis';
+import type { JobEvent } from '@/lib/jobs';
+import type { FitMode } from '@/lib/target-size';
+import type { PrintPreset } from '@/lib/presets';
+import type { FixFormat } from '@/lib/image/fix';
+import type { CmykProfile } from '@/lib/image/profiles';
+import type { Theme } from '@/lib/themes';
+import type { BatchAnalysis, BatchItem } from '@/lib/batch';
+import { TIERS } from '@/lib/scoring';
+import { uploadFormat, UPLOAD_EXTENSIONS, UPLOAD_FORMATS, UPLOAD_LABELS } from '@/lib/formats';
+import BrandLogo from './components/BrandLogo';
+import ExportButtons from './components/ExportButtons';
+import ResultsView from './components/ResultsView';
+import { themeStyle, tierCssColor } from './components/theme';
+import { addToHistory, deleteFromHistory, loadHistory, HistoryEntry } from './components/report-history';
+
+// Common print sizes offered as quick picks (inches)
+const COMMON_SIZES: [number, number][] = [[4, 6], [5, 7], [8, 10], [11, 14], [18, 24], [24, 36]];
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const isZipFile = (f: File) => /\.zip$/i.test(f.name) || f.type === 'application/zip' || f.type === 'application/x-zip-compressed';
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  decoding: 'Decoding file',
+  metadata: 'Reading print size',
+  metrics: 'Measuring pixels and ink',
+  ai: 'AI review',
+  scoring: 'Scoring',
+};
+
+const STAGES = Object.keys(STAGE_LABELS) as AnalysisStage[];
+
+// Stage states and result fields streamed from a running analysis job
+interface LiveJob {
+  id: string;
+  stages: Partial<Record<AnalysisStage, 'running' | 'done'>>;
+  partial: Partial<AnalysisResult>;
+}
+
+type BatchSortKey = 'name' | 'score' | 'tier' | 'ppi' | 'issue';
+
+// Sort value for a batch row; files that failed always sort last
+function batchSortValue(item: BatchItem, key: BatchSortKey): string | number | null {
+  if (key === 'name') return item.name.toLowerCase();
+  if (!item.result) return null;
+  if (key === 'score') return item.result.total_score;
+  if (key === 'tier') return TIERS.indexOf(item.result.tier);
+  if (key === 'ppi') return item.effective_ppi;
+  return item.worst_issue;
+}
+
+// `themeQuery` is appended to report links when the theme was picked by
+// query parameter rather than by host
+export default function HomeView({ theme, themeQuery }: { theme: Theme; themeQuery: string }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [targetWidth, setTargetWidth] = useState('');
+  const [targetHeight, setTargetHeight] = useState('');
+  const [fitMode, setFitMode] = useState<FitMode>('crop');
+  const [presets, setPresets] = useState<PrintPreset[]>([]);
+  const [presetId, setPresetId] = useState('');
+  const [profiles, setProfiles] = useState<Pick<CmykProfile, 'id' | 'name'>[]>([]);
+  const [fixFormat, setFixFormat] = useState<FixFormat>('tiff');
+  const [fixBackground, setFixBackground] = useState('#FFFFFF');
+  const [fixProfile, setFixProfile] = useState('default');
+  const [isFixing, setIsFixing] = useState(false);
+  const [fixResult, setFixResult] = useState<{ before: number; after: number; fixes: string[]; warnings: string[] } | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batch, setBatch] = useState<BatchAnalysis | null>(null);
+  const [job, setJob] = useState<LiveJob | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [batchSort, setBatchSort] = useState<{ key: BatchSortKey; desc: boolean }>({ key: 'score', desc: false });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const batchRef = useRef<HTMLDivElement>(null);
+  const liveRef = useRef<HTMLDivElement>(null);
+  const eventsRef = useRef<EventSource | null>(null);
+
+  // Stop listening to a job stream when leaving the page
+  useEffect(() => () => eventsRef.current?.close(), []);
+
+  // Load the product preset catalog
+  useEffect(() => {
+    fetch('/api/presets')
+      .then((res) => (res.ok ? res.json() : { presets: [] }))
+      .then((data) => setPresets(data.presets || []))
+      .catch((error) => console.error('Preset load error:', error));
+
+    fetch('/api/profiles')
+      .then((res) => (res.ok ? res.json() : { profiles: [] }))
+      .then((data) => setProfiles(data.profiles || []))
+      .catch((error) => console.error('Profile load error:', error));
+
+    setHistory(loadHistory());
+  }, []);
+
+  const selectedPreset = presets.find((p) => p.id === presetId);
+  const presetCategories = Array.from(new Set(presets.map((p) => p.category)));
+
+  // Handle file selection
+  const handleFileSelect = useCallback((selectedFile: File) => {
+    const format = uploadFormat(selectedFile.name, selectedFile.type);
+    if (!format) {
+      alert(`Please upload a ${UPLOAD_LABELS} file.`);
+      return;
+    }
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      alert('File size must be under 10MB.');
+      return;
+    }
+
+    setFile(selectedFile);
+    setResult(null);
+    setFixResult(null);
+    setBatchFiles([]);
+    setBatch(null);
+
+    // Create preview for images the browser can display
+    if (format.previewable) {
+      const reader = new FileReader();
+      reader.onload = (e) => setPreview(e.target?.result as string);
+      reader.readAsDataURL(selectedFile);
+    } else {
+      setPreview(null);
+    }
+  }, []);
+
+  // Several files or a ZIP archive are analyzed as a batch
+  const handleFilesSelect = useCallback((list: FileList) => {
+    const selected = Array.from(list);
+    if (selected.length === 1 && !isZipFile(selected[0])) {
+      handleFileSelect(selected[0]);
+      return;
+    }
+
+    const valid = selected.filter((f) => isZipFile(f) || (uploadFormat(f.name, f.type) && f.size <= MAX_FILE_SIZE));
+    if (valid.length < selected.length) {
+      alert(`${selected.length - valid.length} file(s) skipped. Upload ${UPLOAD_LABELS} or ZIP files; images and PDFs must be under 10MB.`);
+    }
+    if (valid.length === 0) return;
+
+    setBatchFiles(valid);
+    setBatch(null);
+    setFile(null);
+    setPreview(null);
+    setResult(null);
+    setFixResult(null);
+  }, [handleFileSelect]);
+
+  // Drag and drop handlers
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) handleFilesSelect(e.dataTransfer.files);
+  }, [handleFilesSelect]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback(() => {
+    setIsDragging(false);
+  }, []);
+
+  // Product preset or target print size the files are checked against
+  const appendPrintSize = (formData: FormData) => {
+    if (presetId) {
+      formData.append('preset', presetId);
+    } else if (targetWidth && targetHeight) {
+      formData.append('target_width_in', targetWidth);
+      formData.append('target_height_in', targetHeight);
+      formData.append('fit', fitMode);
+    }
+  };
+
+  // Analyze file as a job and follow its progress stream
+  const analyzeFile = async () => {
+    if (!file) return;
+
+    setIsAnalyzing(true);
+    setResult(null);
+    setFixResult(null);
+
+    const formData = new FormData();
+    formData.append('file', file);
+    appendPrintSize(formData);
+
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error('Analysis failed');
+      }
+
+      const { id } = await response.json();
+      setJob({ id, stages: {}, partial: {} });
+      setTimeout(() => {
+        liveRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }, 100);
+
+      const events = new EventSource(`/api/jobs/${id}/events`);
+      eventsRef.current = events;
+      const stop = () => {
+        events.close();
+        eventsRef.current = null;
+        setJob(null);
+        setIsAnalyzing(false);
+      };
+
+      events.addEventListener('progress', (e) => {
+        const event = JSON.parse((e as MessageEvent).data) as Extract<JobEvent, { type: 'progress' }>;
+        setJob((current) => current && {
+          ...current,
+          stages: { ...current.stages, [event.stage]: event.status },
+          partial: { ...current.partial, ...event.partial },
+        });
+      });
+      events.addEventListener('result', (e) => {
+        const event = JSON.parse((e as MessageEvent).data) as Extract<JobEvent, { type: 'result' }>;
+        stop();
+        setResult(event.result);
+        setHistory(addToHistory(event.result, file.name));
+        setLinkCopied(false);
+
+        // Scroll to results
+        setTimeout(() => {
+          resultsRef.current?.scrollIntoView({ behavior: 'smooth' });
+        }, 100);
+      });
+      events.addEventListener('error', (e) => {
+        // Also fired by EventSource itself when the connection drops. It
+        // reconnects and resumes on its own unless the server refused the
+        // stream, e.g. with a 404 once the job is gone.
+        if (!(e instanceof MessageEvent)) {
+          if (events.readyState !== EventSource.CLOSED) return;
+          stop();
+          alert('Lost track of the analysis. Please try again.');
+          return;
+        }
+        const event = JSON.parse(e.data) as Extract<JobEvent, { type: 'error' }>;
+        stop();
+        console.error('Analysis error:', event.error, event.details);
+        alert(`Failed to analyze file: ${event.error}`);
+      });
+      events.addEventListener('cancelled', stop);
+    } catch (error) {
+      console.error('Analysis error:', error);
+      alert('Failed to analyze file. Please try again.');
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Cancel the running analysis job
+  const cancelAnalysis = async () => {
+    if (!job) return;
+    eventsRef.current?.close();
+    eventsRef.current = null;
+    setJob(null);
+    setIsAnalyzing(false);
+    try {
+      await fetch(`/api/jobs/${job.id}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Cancel error:', error);
+    }
+  };
+
+  // Analyze every file in the batch
+  const analyzeBatch = async () => {
+    if (batchFiles.length === 0) return;
+
+    setIsAnalyzing(true);
+
+    const formData = new FormData();
+    batchFiles.forEach((f) => formData.append('files', f));
+    appendPrintSize(formData);
+
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Batch analysis failed');
+      }
+
+      setBatch(data);
+
+      // Scroll to results
+      setTimeout(() => {
+        batchRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }, 100);
+    } catch (error) {
+      console.error('Batch analysis error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to analyze files. Please try again.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Fields identifying the batch for the PDF and export endpoints
+  const batchFields = () => {
+    const formData = new FormData();
+    formData.append('batch', JSON.stringify(batch));
+    formData.append('theme', theme.id);
+    return formData;
+  };
+
+  // Download the combined batch report
+  const downloadBatchPDF = async () => {
+    if (!batch) return;
+
+    const formData = batchFields();
+
+    try {
+      const response = await fetch('/api/batch/pdf', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) throw new Error('PDF generation failed');
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'printscore-batch-report.pdf';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('PDF error:', error);
+      alert('Failed to generate PDF. Please try again.');
+    }
+  };
+
+  const sortBatch = (key: BatchSortKey) => {
+    setBatchSort((current) => ({ key, desc: current.key === key ? !current.desc : key === 'score' || key === 'ppi' }));
+  };
+
+  const sortedBatchItems = batch
+    ? [...batch.items].sort((a, b) => {
+        const va = batchSortValue(a, batchSort.key);
+        const vb = batchSortValue(b, batchSort.key);
+        if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+        const order = va < vb ? -1 : va > vb ? 1 : 0;
+        return batchSort.desc ? -order : order;
+      })
+    : [];
+
+  // Fields identifying the result for the PDF and export endpoints. A
+  // stored report is referenced by id.
+  const reportFields = () => {
+    const formData = new FormData();
+    formData.append('theme', theme.id);
+    if (file) formData.append('file', file);
+    if (result?.report) {
+      formData.append('report_id', result.report.id);
+    } else {
+      formData.append('result', JSON.stringify(result));
+      if (file) formData.append('file_name', file.name);
+    }
+    return formData;
+  };
+
+  // Download PDF
+  const downloadPDF = async () => {
+    if (!result) return;
+
+    const formData = reportFields();
+
+    try {
+      const response = await fetch('/api/pdf', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) throw new Error('PDF generation failed');
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'printscore-report.pdf';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('PDF error:', error);
+      alert('Failed to generate PDF. Please try again.');
+    }
+  };
+
+  // Copy the permalink of the stored report
+  const copyReportLink = async () => {
+    if (!result?.report) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/report/${result.report.id}${themeQuery}`);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Clipboard error:', error);
+      alert('Could not copy the link.');
+    }
+  };
+
+  // Delete a stored report from this browser's history
+  const deleteReport = async (entry: HistoryEntry) => {
+    if (!confirm(`Delete the report for ${entry.file_name}? Its link will stop working.`)) return;
+    try {
+      setHistory(await deleteFromHistory(entry));
+    } catch (error) {
+      console.error('Delete error:', error);
+      alert('Failed to delete report. Please try again.');
+    }
+  };
+
+  // Build a print-ready file for the selected preset
+  const fixFile = async () => {
+    if (!file || !result?.preset) return;
+
+    setIsFixing(true);
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('preset', result.preset.id);
+    formData.append('format', fixFormat);
+    formData.append('background', fixBackground);
+    formData.append('profile', fixProfile);
+
+    try {
+      const response = await fetch('/api/fix', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) throw new Error('Fix failed');
+
+      setFixResult({
+        before: Number(response.headers.get('X-PrintScore-Before')),
+        after: Number(response.headers.get('X-PrintScore-After')),
+        fixes: JSON.parse(decodeURIComponent(response.headers.get('X-PrintScore-Fixes') || '%5B%5D')),
+        warnings: JSON.parse(decodeURIComponent(response.headers.get('X-PrintScore-Warnings') || '%5B%5D')),
+      });
+
+      const blob = await response.blob();
+      const name = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1];
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name || `print-ready.${fixFormat === 'tiff' ? 'tif' : 'jpg'}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Fix error:', error);
+      alert('Failed to fix file. Please try again.');
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
+  // Format file size
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  };
+
+  return (
+    <div className="min-h-screen bg-brand-background" style={themeStyle(theme.palette)}>
+      {/* Navigation */}
+      <nav className="py-5 bg-white shadow-[0_2px_20px_rgba(0,0,0,0.06)] sticky top-0 z-50">
+        <div className="max-w-6xl mx-auto px-6 flex justify-between items-center">
+          <BrandLogo theme={theme} className="text-2xl font-extrabold text-brand-primary tracking-tight" />
+          <a href="#upload" className="px-7 py-3 bg-brand-primary text-brand-text font-bold rounded-xl shadow-[0_4px_15px_rgb(var(--brand-primary)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.4)] hover:-translate-y-0.5 transition-all">
+            Check Your Score
+          </a>
+        </div>
+      </nav>
+
+      {/* Hero */}
+      <section className="py-24 px-6 text-center bg-white">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-5xl md:text-7xl font-extrabold text-brand-text leading-tight mb-6" style={{ letterSpacing: '-2px' }}>
+            Made it with AI?<br />
+            <span className="text-brand-primary">Let&apos;s make sure it prints right.</span>
+          </h1>
+          <p className="text-xl text-[#666666] max-w-xl mx-auto mb-10">
+            AI-powered print analysis. Upload your design, get an accurate score, and specific recommendations.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <a
+              href="#upload"
+              className="px-8 py-4 border-[3px] border-brand-primary text-brand-primary font-bold rounded-xl bg-white hover:bg-brand-primary hover:text-brand-text hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.3)] hover:-translate-y-0.5 transition-all"
+            >
+              Check My {theme.product_name}
+            </a>
+            <a
+              href="#how"
+              className="px-8 py-4 border-2 border-[#E0E0E0] text-[#666666] font-bold rounded-xl bg-white hover:border-brand-primary hover:text-brand-primary transition-all"
+            >
+              How It Works
+            </a>
+          </div>
+        </div>
+      </section>
+
+      {/* 3-Step Graphic */}
+      <section className="py-20 px-6 bg-brand-background">
+        <div className="max-w-5xl mx-auto">
+          <div className="grid md:grid-cols-3 gap-6">
+            <div className="bg-white p-9 rounded-2xl shadow-[0_4px_25px_rgba(0,0,0,0.06)] hover:shadow-[0_8px_35px_rgba(0,0,0,0.1)] hover:-translate-y-1 transition-all">
+              <div className="w-16 h-16 bg-brand-primary rounded-[14px] flex items-center justify-center text-2xl text-brand-text font-extrabold mb-5">
+                1
+              </div>
+              <h3 className="text-xl font-bold text-brand-text mb-2">Upload</h3>
+              <p className="text-[#666666]">Drop your design file. {UPLOAD_LABELS}.</p>
+            </div>
+
+            <div className="bg-white p-9 rounded-2xl shadow-[0_4px_25px_rgba(0,0,0,0.06)] hover:shadow-[0_8px_35px_rgba(0,0,0,0.1)] hover:-translate-y-1 transition-all">
+              <div className="w-16 h-16 bg-brand-accent rounded-[14px] flex items-center justify-center text-2xl text-white font-extrabold mb-5">
+                2
+              </div>
+              <h3 className="text-xl font-bold text-brand-text mb-2">AI Analysis</h3>
+              <p className="text-[#666666]">GPT-4o Vision examines your image for print issues.</p>
+            </div>
+
+            <div className="bg-white p-9 rounded-2xl shadow-[0_4px_25px_rgba(0,0,0,0.06)] hover:shadow-[0_8px_35px_rgba(0,0,0,0.1)] hover:-translate-y-1 transition-all">
+              <div className="w-16 h-16 bg-brand-highlight rounded-[14px] flex items-center justify-center text-2xl text-brand-text font-extrabold mb-5">
+                3
+              </div>
+              <h3 className="text-xl font-bold text-brand-text mb-2">Print Confidently</h3>
+              <p className="text-[#666666]">Get your score, report, and fix recommendations.</p>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Upload Tool */}
+      <section id="upload" className="py-20 px-6 bg-white">
+        <div className="max-w-xl mx-auto">
+          <div
+            className={`
+              relative p-12 rounded-2xl border-[3px] border-dashed transition-all cursor-pointer bg-white shadow-[0_4px_25px_rgba(0,0,0,0.04)]
+              ${isDragging ? 'border-brand-accent bg-[#FFF8FC]' : 'border-brand-primary'}
+              ${isAnalyzing ? 'opacity-50 cursor-not-allowed' : 'hover:border-brand-accent'}
+            `}
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onClick={() => !isAnalyzing && !file && batchFiles.length === 0 && fileInputRef.current?.click()}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={[...UPLOAD_EXTENSIONS, '.zip'].join(',')}
+              multiple
+              className="hidden"
+              onChange={(e) => e.target.files?.length && handleFilesSelect(e.target.files)}
+              disabled={isAnalyzing}
+            />
+
+            {!file && batchFiles.length === 0 ? (
+              <div className="text-center">
+                <div className="w-20 h-20 bg-brand-primary rounded-2xl flex items-center justify-center mx-auto mb-6 text-4xl">
+                  📤
+                </div>
+                <h3 className="text-2xl font-bold text-brand-text mb-2">
+                  Drop your design here
+                </h3>
+                <p className="text-[#666666] mb-5">or click to browse</p>
+                <div className="flex flex-wrap justify-center gap-3 text-sm font-semibold mb-4">
+                  {[...UPLOAD_FORMATS.map((f) => f.label), 'ZIP'].map((label) => (
+                    <span key={label} className="bg-brand-background px-5 py-2 rounded-lg text-brand-text">{label}</span>
+                  ))}
+                </div>
+                <p className="text-[#666666] text-sm">Max file size: 10MB · Drop several files or a ZIP to check a whole campaign</p>
+              </div>
+            ) : (
+              <div className="text-center">
+                {file ? (
+                  <>
+                    {preview && (
+                      <img src={preview} alt="Preview" className="w-32 h-32 object-cover rounded-xl shadow-lg mx-auto mb-4" />
+                    )}
+                    {!preview && (
+                      <div className="w-32 h-32 rounded-xl flex items-center justify-center mx-auto mb-4 bg-brand-background">
+                        <span className="text-4xl">📄</span>
+                      </div>
+                    )}
+                    <p className="font-bold text-brand-text mb-1">{file.name}</p>
+                    <p className="text-[#666666] text-sm mb-6">{formatSize(file.size)}</p>
+                  </>
+                ) : (
+                  <>
+                    <div className="w-32 h-32 rounded-xl flex items-center justify-center mx-auto mb-4 bg-brand-background">
+                      <span className="text-4xl">🗂️</span>
+                    </div>
+                    <p className="font-bold text-brand-text mb-1">
+                      {batchFiles.length} file{batchFiles.length === 1 ? '' : 's'} selected
+                    </p>
+                    <p className="text-[#666666] text-sm mb-6">
+                      {formatSize(batchFiles.reduce((sum, f) => sum + f.size, 0))}
+                      {batchFiles.some(isZipFile) && ' · ZIP archives are unpacked on the server'}
+                    </p>
+                  </>
+                )}
+                <div className="mb-6 text-left" onClick={(e) => e.stopPropagation()}>
+                  <p className="font-semibold text-brand-text text-sm mb-2">Print product <span className="font-normal text-[#666666]">(optional)</span></p>
+                  <select
+                    value={presetId}
+                    onChange={(e) => setPresetId(e.target.value)}
+                    className="w-full px-3 py-2 mb-4 rounded-lg border-2 border-[#E8E8E8] text-sm bg-white focus:border-brand-primary outline-none"
+                  >
+                    <option value="">Custom size</option>
+                    {presetCategories.map((category) => (
+                      <optgroup key={category} label={category}>
+                        {presets.filter((p) => p.category === category).map((p) => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                  {selectedPreset ? (
+                    <p className="text-[#666666] text-sm">
+                      Trim {selectedPreset.trim_width_in} × {selectedPreset.trim_height_in} in · {selectedPreset.bleed_in}&quot; bleed · {selectedPreset.safe_margin_in}&quot; safe margin · {selectedPreset.min_ppi} PPI min · {selectedPreset.color_mode}
+                    </p>
+                  ) : (
+                    <>
+                      <p className="font-semibold text-brand-text text-sm mb-2">Target print size <span className="font-normal text-[#666666]">(optional)</span></p>
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {COMMON_SIZES.map(([w, h]) => (
+                          <button
+                            key={`${w}x${h}`}
+                            onClick={() => { setTargetWidth(String(w)); setTargetHeight(String(h)); }}
+                            className={`px-3 py-1 rounded-lg text-sm font-semibold transition-all ${targetWidth === String(w) && targetHeight === String(h) ? 'bg-brand-primary text-brand-text' : 'bg-brand-background text-[#666666] hover:bg-[#E8E8E8]'}`}
+                          >
+                            {w}×{h}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number" min="0" step="0.125" placeholder="Width"
+                          value={targetWidth}
+                          onChange={(e) => setTargetWidth(e.target.value)}
+                          className="w-24 px-3 py-2 rounded-lg border-2 border-[#E8E8E8] text-sm focus:border-brand-primary outline-none"
+                        />
+                        <span className="text-[#666666]">×</span>
+                        <input
+                          type="number" min="0" step="0.125" placeholder="Height"
+                          value={targetHeight}
+                          onChange={(e) => setTargetHeight(e.target.value)}
+                          className="w-24 px-3 py-2 rounded-lg border-2 border-[#E8E8E8] text-sm focus:border-brand-primary outline-none"
+                        />
+                        <span className="text-[#666666] text-sm">in</span>
+                        <select
+                          value={fitMode}
+                          onChange={(e) => setFitMode(e.target.value as FitMode)}
+                          className="ml-auto px-3 py-2 rounded-lg border-2 border-[#E8E8E8] text-sm bg-white focus:border-brand-primary outline-none"
+                        >
+                          <option value="crop">Fill (crop)</option>
+                          <option value="fit">Fit (no crop)</option>
+                        </select>
+                      </div>
+                    </>
+                  )}
+                </div>
+                <div className="flex justify-center gap-3">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setFile(null); setPreview(null); setBatchFiles([]); }}
+                    className="px-6 py-3 bg-brand-background text-[#666666] font-semibold rounded-xl hover:bg-[#E8E8E8] transition-all"
+                  >
+                    Remove
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); if (file) analyzeFile(); else analyzeBatch(); }}
+                    disabled={isAnalyzing}
+                    className="px-6 py-3 bg-brand-primary text-brand-text font-bold rounded-xl shadow-[0_4px_15px_rgb(var(--brand-primary)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.4)] hover:-translate-y-0.5 transition-all disabled:opacity-50"
+                  >
+                    {isAnalyzing ? 'AI Analyzing...' : file ? 'Analyze with AI' : 'Analyze All'}
+                  </button>
+                  {job && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); cancelAnalysis(); }}
+                      className="px-6 py-3 bg-brand-background text-brand-accent font-semibold rounded-xl hover:bg-[#E8E8E8] transition-all"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="text-center mt-6 text-[#666666] text-sm">
+            <p>Powered by GPT-4o Vision for accurate print analysis.</p>
+            <p className="mt-1 text-[#666666]/70">Files analyzed and immediately deleted.</p>
+          </div>
+        </div>
+      </section>
+
+      {/* Report History */}
+      {history.length > 0 && (
+        <section className="pb-20 px-6 bg-white">
+          <div className="max-w-2xl mx-auto">
+            <h3 className="font-bold text-brand-text text-lg mb-4">Your recent reports</h3>
+            <ul className="space-y-2">
+              {history.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-3 bg-brand-background rounded-xl px-4 py-3 text-sm">
+                  <span className="w-10 font-extrabold" style={{ color: tierCssColor(entry.tier) }}>{entry.total_score}</span>
+                  <a href={`/report/${entry.id}${themeQuery}`} className="font-semibold text-brand-text hover:text-brand-primary truncate transition-all">
+                    {entry.file_name}
+                  </a>
+                  <span className="text-[#666666] whitespace-nowrap">{new Date(entry.created_at).toLocaleDateString()}</span>
+                  <span className="ml-auto text-xs text-[#666666] whitespace-nowrap hidden sm:inline">
+                    expires {new Date(entry.expires_at).toLocaleDateString()}
+                  </span>
+                  <button
+                    onClick={() => deleteReport(entry)}
+                    className="text-brand-accent font-semibold hover:underline"
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+
+      {/* Live Progress */}
+      {job && (
+        <section ref={liveRef} className="py-20 px-6 bg-brand-background">
+          <div className="max-w-4xl mx-auto">
+            <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+              <div className="flex justify-between items-center mb-4">
+                <h4 className="font-bold text-brand-text text-lg flex items-center gap-2">
+                  <span>⏳</span> Analyzing {file?.name}
+                </h4>
+                <button
+                  onClick={cancelAnalysis}
+                  className="px-4 py-2 bg-brand-background text-brand-accent text-sm font-semibold rounded-lg hover:bg-[#E8E8E8] transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {STAGES.map((stage) => {
+                  const status = job.stages[stage];
+                  return (
+                    <li key={stage} className={`flex items-center gap-3 text-sm ${status ? 'text-brand-text' : 'text-[#666666]/60'}`}>
+                      <span className={`w-5 text-center font-bold ${status === 'done' ? 'text-brand-primary' : status === 'running' ? 'text-brand-accent animate-pulse' : ''}`}>
+                        {status === 'done' ? '✓' : status === 'running' ? '●' : '○'}
+                      </span>
+                      {STAGE_LABELS[stage]}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+
+            {/* Sections fill in as their stage finishes */}
+            <div className="grid md:grid-cols-2 gap-4">
+              {job.partial.width_px !== undefined && (
+                <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] border-l-[5px] border-brand-primary">
+                  <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+                    <span>📏</span> File
+                  </h4>
+                  <p className="text-[#666666] text-sm leading-relaxed">
+                    {job.partial.width_px} × {job.partial.height_px}px {job.partial.format_type?.toUpperCase()}
+                    {job.partial.image && ` · ${job.partial.image.color_space}`}
+                    {job.partial.max_print_width_in !== undefined && ` · up to ${job.partial.max_print_width_in.toFixed(1)} × ${job.partial.max_print_height_in?.toFixed(1)} in at 300 DPI`}
+                    {job.partial.target && ` · ${job.partial.target.effective_ppi ?? 'vector'} PPI at ${job.partial.target.width_in} × ${job.partial.target.height_in} in`}
+                  </p>
+                </div>
+              )}
+              {job.partial.metrics && (
+                <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] border-l-[5px] border-brand-accent">
+                  <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+                    <span>🔬</span> Pixel Quality
+                  </h4>
+                  <p className="text-[#666666] text-sm leading-relaxed">
+                    Quality score {job.partial.metrics.quality_score} / 100
+                    {job.partial.soft_proof && ` · ${job.partial.soft_proof.out_of_gamut_pct.toFixed(1)}% out of CMYK gamut`}
+                    {job.partial.ink && ` · max ink ${job.partial.ink.max_pct}%`}
+                  </p>
+                </div>
+              )}
+              {job.partial.summary && (
+                <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] border-l-[5px] border-brand-highlight md:col-span-2">
+                  <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+                    <span>🤖</span> AI Review{job.partial.ai_provider && <span className="font-normal text-[#666666] text-sm">({job.partial.ai_provider}{job.partial.cache_hit && ', cached'})</span>}
+                  </h4>
+                  <p className="text-[#666666] text-sm leading-relaxed">{job.partial.summary}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Batch Results */}
+      {batch && (
+        <section ref={batchRef} className="py-20 px-6 bg-brand-background">
+          <div className="max-w-5xl mx-auto">
+            <div className="text-center mb-8">
+              <h2 className="text-4xl font-extrabold text-brand-text mb-2">
+                {batch.summary.count} file{batch.summary.count === 1 ? '' : 's'} analyzed
+              </h2>
+              <p className="text-[#666666] text-lg">
+                {batch.summary.average_score === null ? 'No scores' : `Average score ${batch.summary.average_score} / 100`}
+                {batch.summary.failed > 0 && ` · ${batch.summary.failed} could not be analyzed`}
+              </p>
+            </div>
+
+            {/* Tier counts */}
+            <div className="flex flex-wrap justify-center gap-3 mb-8">
+              {TIERS.map((tier) => (
+                <span key={tier} className="px-4 py-2 bg-white rounded-lg text-sm font-semibold text-brand-text shadow-[0_4px_20px_rgba(0,0,0,0.06)]">
+                  {tier}: {batch.summary.tiers[tier]}
+                </span>
+              ))}
+            </div>
+
+            {/* Results table */}
+            <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[#666666] border-b-2 border-[#E8E8E8]">
+                    {([
+                      ['name', 'File'],
+                      ['score', 'Score'],
+                      ['tier', 'Tier'],
+                      ['ppi', 'Effective PPI'],
+                      ['issue', 'Worst issue'],
+                    ] as [BatchSortKey, string][]).map(([key, label]) => (
+                      <th key={key} className="py-2 pr-4 font-semibold">
+                        <button onClick={() => sortBatch(key)} className="hover:text-brand-primary transition-all">
+                          {label}{batchSort.key === key && (batchSort.desc ? ' ↓' : ' ↑')}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedBatchItems.map((item, i) => (
+                    <tr key={`${item.name}-${i}`} className="border-b border-[#E8E8E8] last:border-0 align-top">
+                      <td className="py-3 pr-4 font-semibold text-brand-text break-all">{item.name}</td>
+                      <td className="py-3 pr-4 font-extrabold" style={{ color: item.result && tierCssColor(item.result.tier) }}>
+                        {item.result ? item.result.total_score : '—'}
+                      </td>
+                      <td className="py-3 pr-4 text-brand-text whitespace-nowrap">{item.result ? item.result.tier : 'Error'}</td>
+                      <td className="py-3 pr-4 text-brand-text">{item.effective_ppi ?? '—'}</td>
+                      <td className={`py-3 ${item.ok ? 'text-[#666666]' : 'text-brand-accent'}`}>
+                        {item.ok ? item.worst_issue ?? 'None' : item.error}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {batch.skipped.length > 0 && (
+                <p className="text-[#666666] text-xs mt-4">Skipped: {batch.skipped.join('; ')}</p>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="flex justify-center">
+              <button
+                onClick={downloadBatchPDF}
+                className="px-8 py-4 bg-brand-primary text-brand-text font-bold rounded-xl shadow-[0_4px_20px_rgb(var(--brand-primary)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.4)] hover:-translate-y-0.5 transition-all"
+              >
+                Download Batch PDF Report
+              </button>
+            </div>
+            <ExportButtons fields={batchFields} />
+          </div>
+        </section>
+      )}
+
+      {/* Results */}
+      {result && (
+        <section ref={resultsRef} className="py-20 px-6 bg-brand-background">
+          <div className="max-w-4xl mx-auto">
+            <ResultsView result={result} preview={preview} />
+
+            {/* Auto-Fix */}
+            {result.preset && result.image && (
+              <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+                <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+                  <span>🛠️</span> Make It Print-Ready
+                  {fixResult && (
+                    <span className="ml-auto text-sm font-semibold text-[#666666]">
+                      Score {fixResult.before} → <span className="text-brand-primary">{fixResult.after}</span>
+                    </span>
+                  )}
+                </h4>
+                <p className="text-[#666666] text-sm mb-4">
+                  Resamples to {Math.max(result.preset.min_ppi, 150)} PPI, crops to {result.preset.name}, mirrors the edges into the bleed and converts to {result.preset.color_mode}.
+                </p>
+                <div className="grid sm:grid-cols-3 gap-4 text-sm mb-4">
+                  <label className="flex flex-col gap-1 font-semibold text-brand-text">
+                    Format
+                    <select
+                      value={fixFormat}
+                      onChange={(e) => setFixFormat(e.target.value as FixFormat)}
+                      className="px-3 py-2 rounded-lg border-2 border-[#E8E8E8] text-sm font-normal bg-white focus:border-brand-primary outline-none"
+                    >
+                      <option value="tiff">TIFF (lossless)</option>
+                      <option value="jpeg">JPEG (high quality)</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 font-semibold text-brand-text">
+                    CMYK Profile
+                    <select
+                      value={fixProfile}
+                      onChange={(e) => setFixProfile(e.target.value)}
+                      disabled={result.preset.color_mode !== 'CMYK'}
+                      className="px-3 py-2 rounded-lg border-2 border-[#E8E8E8] text-sm font-normal bg-white focus:border-brand-primary outline-none disabled:opacity-50"
+                    >
+                      {profiles.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 font-semibold text-brand-text">
+                    Transparent Areas
+                    <input
+                      type="color"
+                      value={fixBackground}
+                      onChange={(e) => setFixBackground(e.target.value.toUpperCase())}
+                      className="h-10 w-full rounded-lg border-2 border-[#E8E8E8] cursor-pointer"
+                    />
+                  </label>
+                </div>
+                <button
+                  onClick={fixFile}
+                  disabled={isFixing}
+                  className="px-6 py-3 bg-brand-text text-white font-bold rounded-xl hover:-translate-y-0.5 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isFixing ? 'Fixing…' : 'Fix & Download'}
+                </button>
+                {fixResult && fixResult.fixes.length > 0 && (
+                  <ul className="mt-4 space-y-1">
+                    {fixResult.fixes.map((fix, i) => (
+                      <li key={i} className="flex items-start gap-2 text-[#666666] text-sm">
+                        {fixResult.warnings.includes(fix) ? <span>⚠️</span> : <span className="text-brand-primary">✓</span>}
+                        <span>{fix}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <button
+                onClick={downloadPDF}
+                className="px-8 py-4 bg-brand-primary text-brand-text font-bold rounded-xl shadow-[0_4px_20px_rgb(var(--brand-primary)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.4)] hover:-translate-y-0.5 transition-all"
+              >
+                Download PDF Report
+              </button>
+              {result.report && (
+                <button
+                  onClick={copyReportLink}
+                  className="px-8 py-4 border-[3px] border-brand-primary text-brand-primary font-bold rounded-xl bg-white hover:bg-brand-primary hover:text-brand-text transition-all"
+                >
+                  {linkCopied ? 'Link Copied' : 'Copy Share Link'}
+                </button>
+              )}
+              {theme.cta && (
+                <a
+                  href={theme.cta.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-8 py-4 bg-brand-accent text-white font-bold rounded-xl shadow-[0_4px_20px_rgb(var(--brand-accent)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-accent)/0.4)] hover:-translate-y-0.5 transition-all text-center"
+                >
+                  {theme.cta.label}
+                </a>
+              )}
+            </div>
+            <ExportButtons fields={reportFields} />
+          </div>
+        </section>
+      )}
+
+      {/* How It Works */}
+      <section id="how" className="py-20 px-6 bg-white">
+        <div className="max-w-3xl mx-auto">
+          <h2 className="text-4xl font-extrabold text-brand-text text-center mb-12">How It Works</h2>
+          <div className="flex flex-col gap-8">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-brand-primary rounded-[14px] flex items-center justify-center mx-auto mb-4 text-2xl font-extrabold text-brand-text">1</div>
+              <h4 className="text-xl font-bold text-brand-text mb-2">Upload</h4>
+              <p className="text-[#666666]">Drag and drop your design file.</p>
+            </div>
+            <div className="text-center">
+              <div className="w-16 h-16 bg-brand-accent rounded-[14px] flex items-center justify-center mx-auto mb-4 text-2xl font-extrabold text-white">2</div>
+              <h4 className="text-xl font-bold text-brand-text mb-2">AI Analysis</h4>
+              <p className="text-[#666666]">GPT-4o Vision examines sharpness, artifacts, color, and print issues.</p>
+            </div>
+            <div className="text-center">
+              <div className="w-16 h-16 bg-brand-highlight rounded-[14px] flex items-center justify-center mx-auto mb-4 text-2xl font-extrabold text-brand-text">3</div>
+              <h4 className="text-xl font-bold text-brand-text mb-2">Get Results</h4>
+              <p className="text-[#666666]">Accurate score, detailed report, and actionable recommendations.</p>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* FAQ */}
+      <section className="py-20 px-6 bg-brand-background">
+        <div className="max-w-3xl mx-auto">
+          <h2 className="text-4xl font-extrabold text-brand-text text-center mb-12">FAQ</h2>
+          <div className="flex flex-col gap-4">
+            <details className="bg-white rounded-[14px] p-5 shadow-[0_4px_20px_rgba(0,0,0,0.04)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.08)] transition-all group">
+              <summary className="font-bold text-brand-text cursor-pointer list-none flex justify-between items-center">
+                Why do printers reject AI-generated files?
+                <span className="text-brand-primary text-xl group-open:rotate-45 transition-transform">+</span>
+              </summary>
+              <p className="mt-4 text-[#666666] leading-relaxed">
+                AI-generated images often have low resolution, RGB color mode (printers need CMYK), compression artifacts, or missing bleed areas. {theme.product_name} catches these issues before you print.
+              </p>
+            </details>
+
+            <details className="bg-white rounded-[14px] p-5 shadow-[0_4px_20px_rgba(0,0,0,0.04)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.08)] transition-all group">
+              <summary className="font-bold text-brand-text cursor-pointer list-none flex justify-between items-center">
+                How accurate is the AI analysis?
+                <span className="text-brand-primary text-xl group-open:rotate-45 transition-transform">+</span>
+              </summary>
+              <p className="mt-4 text-[#666666] leading-relaxed">
+                GPT-4o Vision examines actual image quality — not just metadata. It detects blur, compression artifacts, color issues, and other print-specific problems that basic checks miss.
+              </p>
+            </details>
+
+            <details className="bg-white rounded-[14px] p-5 shadow-[0_4px_20px_rgba(0,0,0,0.04)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.08)] transition-all group">
+              <summary className="font-bold text-brand-text cursor-pointer list-none flex justify-between items-center">
+                What is DPI and why does it matter?
+                <span className="text-brand-primary text-xl group-open:rotate-45 transition-transform">+</span>
+              </summary>
+              <p className="mt-4 text-[#666666] leading-relaxed">
+                DPI (dots per inch) measures print resolution. 300 DPI is standard for high-quality prints. Lower DPI results in pixelation and blur.
+              </p>
+            </details>
+
+            <details className="bg-white rounded-[14px] p-5 shadow-[0_4px_20px_rgba(0,0,0,0.04)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.08)] transition-all group">
+              <summary className="font-bold text-brand-text cursor-pointer list-none flex justify-between items-center">
+                Do you store my files?
+                <span className="text-brand-primary text-xl group-open:rotate-45 transition-transform">+</span>
+              </summary>
+              <p className="mt-4 text-[#666666] leading-relaxed">
+                No. Files are analyzed and immediately deleted. We never store or log your uploads.
+              </p>
+            </details>
+          </div>
+        </div>
+      </section>
+
+      {/* CTA */}
+      <section className="py-24 px-6 text-center bg-white">
+        <div className="max-w-3xl mx-auto">
+          <h2 className="text-4xl font-extrabold text-brand-text mb-4">
+            Print With Confidence.
+          </h2>
+          <p className="text-xl text-[#666666] mb-10">
+            AI-powered analysis. Accurate scores. Specific recommendations.
+          </p>
+          <a
+            href="#upload"
+            className="inline-block px-8 py-4 border-[3px] border-brand-primary text-brand-primary font-bold rounded-xl bg-white hover:bg-brand-primary hover:text-brand-text hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.3)] hover:-translate-y-0.5 transition-all"
+          >
+            Check My {theme.product_name}
+          </a>
+        </div>
+      </section>
+
+      {/* Footer */}
+      <footer className="py-12 px-6 border-t border-[#E8E8E8] bg-white">
+        <div className="max-w-4xl mx-auto text-center">
+          <div className="flex justify-center mb-4">
+            <BrandLogo theme={theme} className="text-xl font-extrabold text-brand-primary" />
+          </div>
+          <p className="text-[#666666] text-sm mb-4">
+            {theme.footer_text}
+          </p>
+          {theme.contact && (
+            <p className="text-[#666666] text-sm mb-4 flex justify-center gap-4 flex-wrap">
+              {theme.contact.email && <a href={`mailto:${theme.contact.email}`} className="hover:text-brand-primary transition-colors">{theme.contact.email}</a>}
+              {theme.contact.phone && <a href={`tel:${theme.contact.phone}`} className="hover:text-brand-primary transition-colors">{theme.contact.phone}</a>}
+              {theme.contact.website && <a href={theme.contact.website} target="_blank" rel="noopener noreferrer" className="hover:text-brand-primary transition-colors">{theme.contact.website}</a>}
+            </p>
+          )}
+          <p className="text-xs text-[#666666]/60">
+            Powered by <a href="https://innergclaw.github.io/innerg-intelligence-landing/" target="_blank" rel="noopener noreferrer" className="hover:text-brand-primary transition-colors">InnerG Intelligence</a>
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
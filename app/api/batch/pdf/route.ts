@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildBatchReport } from '@/lib/report';
+import { resolveTheme } from '@/lib/themes';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const batchJson = formData.get('batch') as string;
+
+    if (!batchJson) {
+      return NextResponse.json({ error: 'No batch data provided' }, { status: 400 });
+    }
+
+    const theme = await resolveTheme({ host: request.headers.get('host'), theme: formData.get('theme') as string | null });
+    const pdfBuffer = await buildBatchReport(JSON.parse(batchJson), theme);
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="printscore-batch-report.pdf"',
+      },
+    });
+
+  } catch (error) {
+    console.error('Batch PDF generation error:', error);
+    return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 });
+  }
+}
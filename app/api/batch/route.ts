@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisError } from '@/lib/analysis';
+import { analyzeBatch, MAX_BATCH_FILES } from '@/lib/batch';
+import { findPreset } from '@/lib/presets';
+import { parseTargetSize } from '@/lib/target-size';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((f): f is File => f instanceof File);
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    }
+    if (files.length > MAX_BATCH_FILES) {
+      return NextResponse.json({ error: `Too many files: ${files.length} (max ${MAX_BATCH_FILES})` }, { status: 400 });
+    }
+
+    const presetId = formData.get('preset') as string | null;
+    const preset = presetId ? await findPreset(presetId) : null;
+    if (presetId && !preset) {
+      return NextResponse.json({ error: `Unknown preset: ${presetId}` }, { status: 400 });
+    }
+
+    const batch = await analyzeBatch(
+      await Promise.all(files.map(async (file) => ({
+        name: file.name,
+        buffer: Buffer.from(await file.arrayBuffer()),
+        mimeType: file.type,
+      }))),
+      { preset, targetSize: parseTargetSize(formData) },
+    );
+
+    return NextResponse.json(batch);
+
+  } catch (error) {
+    if (error instanceof AnalysisError) {
+      return NextResponse.json({
+        error: error.message,
+        details: error.details,
+      }, { status: error.status });
+    }
+    console.error('Batch analysis error:', error);
+    return NextResponse.json({ error: 'Failed to analyze files' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { CompactResult } from '@/lib/analysis';
+import {
+  batchExportItems,
+  exportItem,
+  isExportFormat,
+  renderExport,
+  ExportFile,
+  ExportItem,
+  EXPORT_FORMATS,
+} from '@/lib/export/formats';
+import { prepareArtwork, ReportArtwork } from '@/lib/report';
+import { getReport } from '@/lib/reports';
+import { resolveTheme } from '@/lib/themes';
+
+export const runtime = 'nodejs';
+
+function invalidFormat() {
+  return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+}
+
+function download(file: ExportFile, name: string) {
+  return new NextResponse(file.body, {
+    headers: {
+      'Content-Type': file.content_type,
+      'Content-Disposition': `attachment; filename="${name}.${file.extension}"`,
+    },
+  });
+}
+
+// Stored reports can be fetched by link, e.g. from prepress scripts:
+// /api/export?report_id=...&format=json
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const format = searchParams.get('format');
+  if (!isExportFormat(format)) return invalidFormat();
+
+  const report = await getReport(searchParams.get('report_id') ?? '');
+  if (!report) {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+  }
+
+  const theme = await resolveTheme({ host: request.headers.get('host'), theme: searchParams.get('theme') });
+  const items = [{ ...exportItem(report.result, report.file_name), report_id: report.id }];
+  return download(renderExport(format, items, { schema_url: `${request.nextUrl.origin}/api/export/schema`, theme }), 'printscore-report');
+}
+
+// Same inputs as /api/pdf, plus `batch` for a whole batch analysis
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const format = formData.get('format');
+    if (!isExportFormat(format)) return invalidFormat();
+
+    const reportId = formData.get('report_id') as string | null;
+    const resultJson = formData.get('result') as string | null;
+    const batchJson = formData.get('batch') as string | null;
+    const file = formData.get('file') as File | null;
+
+    let items: ExportItem[];
+    let name = 'printscore-report';
+    if (reportId) {
+      const report = await getReport(reportId);
+      if (!report) {
+        return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+      }
+      items = [{ ...exportItem(report.result, report.file_name), report_id: report.id }];
+    } else if (resultJson) {
+      const result: CompactResult = JSON.parse(resultJson);
+      items = [exportItem(result, (formData.get('file_name') as string | null) || file?.name || 'artwork')];
+    } else if (batchJson) {
+      items = batchExportItems(JSON.parse(batchJson));
+      name = 'printscore-batch-report';
+    } else {
+      return NextResponse.json({ error: 'No result data provided' }, { status: 400 });
+    }
+
+    // Only the HTML report embeds the artwork, as in /api/pdf
+    let artwork: ReportArtwork | null = null;
+    const single = items.length === 1 ? items[0].result : null;
+    if (format === 'html' && single && file && file.size === single.file_size) {
+      try {
+        artwork = await prepareArtwork(Buffer.from(await file.arrayBuffer()), single);
+      } catch (e) {
+        console.error('Export artwork error:', e);
+      }
+    }
+
+    const theme = await resolveTheme({ host: request.headers.get('host'), theme: formData.get('theme') as string | null });
+    const exported = renderExport(format, items, { schema_url: `${request.nextUrl.origin}/api/export/schema`, theme, artwork });
+    return download(exported, name);
+
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json({ error: 'Failed to export results' }, { status: 500 });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { EXPORT_SCHEMA } from '@/lib/export/schema';
+
+export const runtime = 'nodejs';
+
+// JSON Schema of the JSON export, referenced by each document's $schema
+export async function GET() {
+  return NextResponse.json(EXPORT_SCHEMA, {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
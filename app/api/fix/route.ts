@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeUpload, AnalysisError } from '@/lib/analysis';
+import { findPreset } from '@/lib/presets';
+import { fixImage, FixFormat } from '@/lib/image/fix';
+import { DEFAULT_PROFILE_ID, findCmykProfile } from '@/lib/image/profiles';
+import { uploadFormat } from '@/lib/formats';
+
+export const runtime = 'nodejs';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    const upload = uploadFormat(file.name, file.type);
+    if (!upload || upload.id === 'pdf') {
+      return NextResponse.json({ error: 'Only image files can be fixed' }, { status: 400 });
+    }
+
+    const presetId = formData.get('preset') as string | null;
+    const preset = presetId ? await findPreset(presetId) : null;
+    if (!preset) {
+      return NextResponse.json({ error: presetId ? `Unknown preset: ${presetId}` : 'No preset provided' }, { status: 400 });
+    }
+
+    const format = ((formData.get('format') as string | null) || 'tiff') as FixFormat;
+    if (format !== 'tiff' && format !== 'jpeg') {
+      return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+    }
+
+    const background = (formData.get('background') as string | null) || '#FFFFFF';
+    if (!HEX_COLOR.test(background)) {
+      return NextResponse.json({ error: 'Background must be a hex color like #FFFFFF' }, { status: 400 });
+    }
+
+    const profileId = (formData.get('profile') as string | null) || DEFAULT_PROFILE_ID;
+    const profile = await findCmykProfile(profileId);
+    if (!profile) {
+      return NextResponse.json({ error: `Unknown profile: ${profileId}` }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const before = await analyzeUpload({ buffer, fileName: file.name, mimeType: file.type, preset, targetSize: null });
+
+    const fixed = await fixImage(buffer, preset, { format, background, profile });
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'artwork';
+    const fileName = `${baseName}-${preset.id}.${fixed.extension}`;
+    const after = await analyzeUpload({
+      buffer: fixed.buffer,
+      fileName,
+      mimeType: fixed.mime_type,
+      preset,
+      targetSize: null,
+      upscale: fixed.upscale,
+    });
+
+    return new NextResponse(new Uint8Array(fixed.buffer), {
+      headers: {
+        'Content-Type': fixed.mime_type,
+        'Content-Disposition': `attachment; filename="${fileName.replace(/[^\w.-]/g, '_')}"`,
+        'X-PrintScore-Before': String(before.total_score),
+        'X-PrintScore-After': String(after.total_score),
+        // Header values must be ASCII
+        'X-PrintScore-Fixes': encodeURIComponent(JSON.stringify(fixed.fixes)),
+        'X-PrintScore-Warnings': encodeURIComponent(JSON.stringify(fixed.warnings)),
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof AnalysisError) {
+      return NextResponse.json({
+        error: error.message,
+        details: error.details,
+      }, { status: error.status });
+    }
+    console.error('Fix error:', error);
+    return NextResponse.json({ error: 'Failed to fix file' }, { status: 500 });
+  }
+}
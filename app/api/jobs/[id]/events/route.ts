@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, isTerminal, subscribeJob } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+
+// Server-Sent Events stream of a job's progress. Each event's id is its
+// index, so a reconnecting EventSource resumes after Last-Event-ID.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!getJob(id)) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const lastEventId = Number(request.headers.get('Last-Event-ID') ?? -1);
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        controller.close();
+      };
+
+      unsubscribe = subscribeJob(id, Number.isFinite(lastEventId) ? lastEventId : -1, (event, index) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`id: ${index}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (isTerminal(event)) close();
+      });
+      // A finished job has nothing more to send
+      if (getJob(id)?.status !== 'running') close();
+
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      closed = true;
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJob } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  const job = getJob((await params).id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+// Cancel a running job
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  if (!cancelJob(id)) {
+    return NextResponse.json({ error: `Job already ${job.status}` }, { status: 409 });
+  }
+  return NextResponse.json(getJob(id));
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startJob } from '@/lib/jobs';
+import { findPreset } from '@/lib/presets';
+import { parseTargetSize } from '@/lib/target-size';
+
+export const runtime = 'nodejs';
+
+// Start an analysis job. Progress is read from /api/jobs/{id}/events.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const presetId = formData.get('preset') as string | null;
+    const preset = presetId ? await findPreset(presetId) : null;
+    if (presetId && !preset) {
+      return NextResponse.json({ error: `Unknown preset: ${presetId}` }, { status: 400 });
+    }
+
+    const job = startJob({
+      buffer: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      mimeType: file.type,
+      preset,
+      targetSize: parseTargetSize(formData),
+    });
+
+    return NextResponse.json(job, { status: 202 });
+
+  } catch (error) {
+    console.error('Job start error:', error);
+    return NextResponse.json({ error: 'Failed to start analysis' }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { loadPresets } from '@/lib/presets';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const presets = await loadPresets();
+    return NextResponse.json({ presets });
+  } catch (error) {
+    console.error('Preset load error:', error);
+    return NextResponse.json({ error: 'Failed to load presets' }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { listCmykProfiles } from '@/lib/image/profiles';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const profiles = await listCmykProfiles();
+    return NextResponse.json({ profiles: profiles.map(({ id, name }) => ({ id, name })) });
+  } catch (error) {
+    console.error('Profile load error:', error);
+    return NextResponse.json({ error: 'Failed to load profiles' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteReport, getReport } from '@/lib/reports';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  const report = await getReport((await params).id);
+  if (!report) {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+  }
+  return NextResponse.json(report);
+}
+
+// Delete a stored report. Requires the token returned when it was saved.
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const token = request.headers.get('X-PrintScore-Delete-Token');
+  if (!token) {
+    return NextResponse.json({ error: 'Missing delete token' }, { status: 401 });
+  }
+
+  const outcome = await deleteReport((await params).id, token);
+  if (outcome === 'not_found') {
+    return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+  }
+  if (outcome === 'forbidden') {
+    return NextResponse.json({ error: 'Invalid delete token' }, { status: 403 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
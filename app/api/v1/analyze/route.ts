@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { analyzeUpload, compactResult } from '@/lib/analysis';
+import { parseAnalyzeRequest } from '@/lib/api/analyze-request';
+import { ApiError } from '@/lib/api/errors';
+import { consumeAnalysis } from '@/lib/api/limits';
+import { withReport } from '@/lib/reports';
+import { apiHandler, setLimitHeaders } from '../handler';
+
+export const runtime = 'nodejs';
+
+// Analyze one file sent as multipart/form-data or as base64 in JSON. The
+// result is stored; its report link holds the permalink id and the token
+// that deletes it.
+export const POST = apiHandler(async (request, { key, headers }) => {
+  const input = await parseAnalyzeRequest(request);
+
+  // Only requests that reach the analysis count against the quota
+  const quota = consumeAnalysis(key);
+  setLimitHeaders(headers, 'Quota', quota);
+  if (!quota.allowed) {
+    throw new ApiError('quota_exceeded', `Daily quota of ${quota.limit} analyses exceeded`, 429);
+  }
+
+  const result = await analyzeUpload({ ...input, signal: request.signal });
+  return NextResponse.json(compactResult(await withReport(result, input.fileName)));
+});
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, toApiError } from '@/lib/api/errors';
+import { ApiKey, findApiKey } from '@/lib/api/keys';
+import { consumeRequest, LimitState } from '@/lib/api/limits';
+
+// Types
+export interface ApiContext {
+  key: ApiKey;
+  // Added to the response, whether it succeeds or fails
+  headers: Headers;
+}
+
+type Handler<C> = (request: NextRequest, api: ApiContext, context: C) => Promise<Response>;
+
+// Keys are sent as a bearer token, or in X-API-Key for clients that can't
+// set Authorization
+function presentedKey(request: NextRequest): string | null {
+  const auth = request.headers.get('authorization');
+  const bearer = auth?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? request.headers.get('x-api-key');
+}
+
+// Set the X-{prefix}-Limit/Remaining/Reset headers for a limit, and
+// Retry-After when it refused the request
+export function setLimitHeaders(headers: Headers, prefix: string, state: LimitState) {
+  headers.set(`X-${prefix}-Limit`, String(state.limit));
+  headers.set(`X-${prefix}-Remaining`, String(Math.max(0, state.remaining)));
+  headers.set(`X-${prefix}-Reset`, String(state.reset));
+  if (!state.allowed) {
+    headers.set('Retry-After', String(Math.max(1, state.reset - Math.floor(Date.now() / 1000))));
+  }
+}
+
+// Wrap a v1 route handler: authenticate the API key, count the request
+// against its rate limit and turn anything thrown into an error envelope
+export function apiHandler<C>(handler: Handler<C>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const headers = new Headers();
+    try {
+      const presented = presentedKey(request);
+      const key = presented ? await findApiKey(presented) : null;
+      if (!key) {
+        headers.set('WWW-Authenticate', 'Bearer');
+        throw new ApiError('unauthorized', presented ? 'Invalid API key' : 'Missing API key', 401);
+      }
+
+      const limit = consumeRequest(key);
+      setLimitHeaders(headers, 'RateLimit', limit);
+      if (!limit.allowed) {
+        throw new ApiError('rate_limited', `Rate limit of ${limit.limit} requests per minute exceeded`, 429);
+      }
+
+      const response = await handler(request, { key, headers }, context);
+      headers.forEach((value, name) => response.headers.set(name, value));
+      return response;
+    } catch (error) {
+      const apiError = toApiError(error);
+      return NextResponse.json(apiError.body, { status: apiError.status, headers });
+    }
+  };
+}
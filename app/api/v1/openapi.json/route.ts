@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+export const runtime = 'nodejs';
+
+// Public, so clients can be generated without a key
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(await buildOpenApiDocument(request.nextUrl.origin));
+  } catch (error) {
+    console.error('OpenAPI document error:', error);
+    return NextResponse.json({ error: { code: 'internal_error', message: 'Failed to build the API description' } }, { status: 500 });
+  }
+}
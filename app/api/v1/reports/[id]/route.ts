@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/errors';
+import { deleteReport, getReport } from '@/lib/reports';
+import { apiHandler } from '../../handler';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => new ApiError('not_found', 'Report not found', 404);
+
+export const GET = apiHandler<Params>(async (_request, _api, { params }) => {
+  const report = await getReport((await params).id);
+  if (!report) throw notFound();
+  return NextResponse.json(report);
+});
+
+// Delete a stored report. Requires the token returned when it was saved.
+export const DELETE = apiHandler<Params>(async (request, _api, { params }) => {
+  const token = request.headers.get('X-PrintScore-Delete-Token');
+  if (!token) {
+    throw new ApiError('unauthorized', 'Missing delete token', 401);
+  }
+
+  const outcome = await deleteReport((await params).id, token);
+  if (outcome === 'not_found') throw notFound();
+  if (outcome === 'forbidden') {
+    throw new ApiError('forbidden', 'Invalid delete token', 403);
+  }
+  return new NextResponse(null, { status: 204 });
+});
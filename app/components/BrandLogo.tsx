@@ -0,0 +1,9 @@
+import type { Theme } from '@/lib/themes';
+
+// The tenant's logo image, or its product name when it has none
+export default function BrandLogo({ theme, className }: { theme: Theme; className: string }) {
+  if (theme.logo) {
+    return <img src={theme.logo} alt={theme.product_name} className="h-9 w-auto" />;
+  }
+  return <div className={className}>{theme.product_name}</div>;
+}
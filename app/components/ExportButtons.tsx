@@ -0,0 +1,55 @@
+'use client';
+
+import type { ExportFormat } from '@/lib/export/formats';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  html: 'HTML',
+  markdown: 'Markdown',
+};
+
+// Download the result in another format. `fields` builds the same form
+// the PDF download posts.
+export default function ExportButtons({ fields }: { fields: () => FormData }) {
+  const exportAs = async (format: ExportFormat) => {
+    const formData = fields();
+    formData.append('format', format);
+
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) throw new Error('Export failed');
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = disposition.match(/filename="([^"]+)"/)?.[1] ?? `printscore-report.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export error:', error);
+      alert('Failed to export. Please try again.');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 justify-center items-center mt-6">
+      <span className="text-sm text-[#666666] mr-1">Export as</span>
+      {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => exportAs(format)}
+          className="px-4 py-2 text-sm font-semibold rounded-lg border-2 border-[#E8E8E8] bg-white text-brand-text hover:border-brand-primary transition-all"
+        >
+          {FORMAT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,623 @@
+'use client';
+
+import { useState } from 'react';
+import type { CompactResult } from '@/lib/analysis';
+import type { BlackBuild } from '@/lib/image/ink';
+import { tierForScore, totalShares, ScoreCategory, SubScores } from '@/lib/scoring';
+import { tierCssColor, tierTextColor } from './theme';
+
+const BLACK_BUILD_LABELS: Record<BlackBuild, string> = {
+  none: 'None found',
+  plain: '100K',
+  rich: 'Rich black',
+  mixed: 'Mixed 100K and rich',
+};
+
+// A category's score, its share of the total and what it lost points for.
+// Categories that do not apply to the file type are not assessed.
+function SubScoreBar({ subScores, category }: { subScores: SubScores; category: ScoreCategory }) {
+  const { score, deductions } = subScores[category];
+  const share = totalShares(subScores).categories[category] ?? 0;
+  if (score === null) return <p className="text-xs text-[#666666] mt-3">Not assessed for this file type.</p>;
+
+  return (
+    <div className="mt-3 text-xs">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 h-2 rounded-full bg-[#E8E8E8] overflow-hidden">
+          <div className="h-full rounded-full" style={{ width: `${score}%`, backgroundColor: tierCssColor(tierForScore(score)) }} />
+        </div>
+        <span className="font-bold text-brand-text">{score}</span>
+        <span className="text-[#666666]">{Math.round(share * 100)}% of total</span>
+      </div>
+      {deductions.length > 0 && (
+        <ul className="mt-2 space-y-1 text-[#666666]">
+          {deductions.map((deduction, i) => (
+            <li key={i}>
+              <span className="font-semibold text-brand-text">−{deduction.points}</span> {deduction.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// What the total is made of besides the categories: the AI verdict's
+// share, and the cap critical failures put on it
+function TotalBreakdown({ result }: { result: CompactResult }) {
+  const { ai } = totalShares(result.sub_scores);
+  const cap = result.score_cap;
+
+  return (
+    <div className="max-w-2xl mx-auto mb-12 text-sm text-[#666666] text-center space-y-1">
+      <p>
+        {ai < 1 && <>Categories below: {Math.round((1 - ai) * 100)}% of total · </>}
+        AI verdict: <span className="font-bold text-brand-text">{result.ai_score}</span>, {Math.round(ai * 100)}% of total
+      </p>
+      {cap && (
+        <p>
+          <span className="font-bold text-brand-text">Capped at {result.total_score}</span> (from {cap.uncapped_score}) for
+          critical failures: {cap.reasons.join(' ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ResultsViewProps {
+  result: CompactResult;
+  // Local preview of the upload. Stored reports have none, so overlays
+  // and images rendered from the artwork are left out.
+  preview: string | null;
+}
+
+// Score, issues and measurements for one analysis, shared by the upload
+// page and stored report permalinks
+export default function ResultsView({ result, preview }: ResultsViewProps) {
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [selectedPage, setSelectedPage] = useState(0);
+  const pageScores = result.page_scores;
+  const currentPage = pageScores?.pages[Math.min(selectedPage, pageScores.pages.length - 1)];
+
+  return (
+    <>
+      {/* Score Gauge */}
+      <div className="flex justify-center mb-8">
+        <div className="relative w-60 h-60">
+          <svg className="w-full h-full transform -rotate-90" viewBox="0 0 200 200">
+            <circle cx="100" cy="100" r="80" stroke="#E8E8E8" strokeWidth="16" fill="none" />
+            <circle
+              cx="100" cy="100" r="80"
+              strokeWidth="16" fill="none"
+              strokeDasharray={503}
+              strokeDashoffset={503 - (result.total_score / 100) * 503}
+              strokeLinecap="round"
+              style={{ stroke: tierCssColor(result.tier), transition: 'stroke-dashoffset 1s ease-out' }}
+            />
+          </svg>
+          <div className="absolute inset-0 flex items-center justify-center flex-col">
+            <span className="text-7xl font-extrabold text-brand-text">
+              {result.total_score}
+            </span>
+            <span className="text-lg text-[#666666]">/ 100</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Tier Badge */}
+      <div className="text-center mb-8">
+        <span
+          className="inline-block px-9 py-4 rounded-[14px] font-bold text-xl shadow-[0_4px_20px_rgba(0,0,0,0.1)]"
+          style={{ 
+            backgroundColor: tierCssColor(result.tier),
+            color: tierTextColor(result.tier)
+          }}
+        >
+          {result.tier}
+        </span>
+      </div>
+
+      {/* Summary */}
+      <p className={`text-center text-[#666666] text-xl max-w-2xl mx-auto ${result.sub_scores ? 'mb-4' : 'mb-12'}`}>
+        {result.summary}
+      </p>
+      {result.sub_scores && <TotalBreakdown result={result} />}
+
+      {/* Issue Cards, with sub-scores (reports stored before the scoring rubric have none) */}
+      <div className="grid md:grid-cols-2 gap-4 mb-10">
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.1)] hover:-translate-y-0.5 transition-all border-l-[5px] border-brand-primary">
+          <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+            <span>📏</span> Resolution
+          </h4>
+          <p className="text-[#666666] text-sm leading-relaxed">{result.issues.resolution}</p>
+          {result.sub_scores && <SubScoreBar subScores={result.sub_scores} category="resolution" />}
+        </div>
+
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.1)] hover:-translate-y-0.5 transition-all border-l-[5px] border-brand-accent">
+          <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+            <span>🎨</span> Color
+          </h4>
+          <p className="text-[#666666] text-sm leading-relaxed">{result.issues.color}</p>
+          {result.sub_scores && <SubScoreBar subScores={result.sub_scores} category="color" />}
+        </div>
+
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.1)] hover:-translate-y-0.5 transition-all border-l-[5px] border-brand-highlight">
+          <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+            <span>✂️</span> Layout
+          </h4>
+          <p className="text-[#666666] text-sm leading-relaxed">{result.issues.layout}</p>
+          {result.sub_scores && <SubScoreBar subScores={result.sub_scores} category="layout" />}
+        </div>
+
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.1)] hover:-translate-y-0.5 transition-all border-l-[5px] border-brand-text">
+          <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+            <span>📦</span> Format
+          </h4>
+          <p className="text-[#666666] text-sm leading-relaxed">{result.issues.format}</p>
+          {result.sub_scores && <SubScoreBar subScores={result.sub_scores} category="format" />}
+        </div>
+
+        <div className="md:col-span-2 bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] hover:shadow-[0_6px_25px_rgba(0,0,0,0.1)] hover:-translate-y-0.5 transition-all border-l-[5px] border-brand-primary">
+          <h4 className="font-bold text-brand-text text-lg mb-2 flex items-center gap-2">
+            <span>🖨️</span> Ink Coverage
+          </h4>
+          <p className="text-[#666666] text-sm leading-relaxed">{result.issues.ink}</p>
+        </div>
+      </div>
+
+      {/* Page Strip (PDF uploads). Stored reports have no thumbnails, so
+          pages are shown by number. */}
+      {pageScores && currentPage && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>📄</span> Pages
+            <span className="ml-auto text-sm font-semibold text-[#666666]">
+              {pageScores.aggregate === 'minimum' ? 'Scored by the weakest page' : 'Scored by the area-weighted average'}
+              {pageScores.score !== result.total_score && ` (${pageScores.score}, before document checks)`}
+              {result.pdf && pageScores.pages_rendered < result.pdf.page_count &&
+                ` · first ${pageScores.pages_rendered} of ${result.pdf.page_count} pages`}
+            </span>
+          </h4>
+          <div className="flex gap-3 overflow-x-auto pb-2 mb-6">
+            {pageScores.pages.map((page) => (
+              <button
+                key={page.page}
+                type="button"
+                onClick={() => setSelectedPage(pageScores.pages.indexOf(page))}
+                aria-pressed={page === currentPage}
+                className={`shrink-0 w-24 rounded-lg border-2 p-1 text-center transition-colors ${
+                  page === currentPage ? 'border-brand-primary' : 'border-transparent hover:border-[#E8E8E8]'
+                }`}
+              >
+                {page.thumbnail ? (
+                  <img src={page.thumbnail} alt={`Page ${page.page}`} className="w-full h-28 object-contain bg-brand-background rounded" />
+                ) : (
+                  <span className="flex w-full h-28 items-center justify-center bg-brand-background rounded text-2xl font-bold text-[#666666]">
+                    {page.page}
+                  </span>
+                )}
+                <span
+                  className="inline-block mt-1 px-2 rounded text-xs font-bold"
+                  style={{ backgroundColor: tierCssColor(page.tier), color: tierTextColor(page.tier) }}
+                >
+                  {page.score}
+                </span>
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col md:flex-row gap-6">
+            {currentPage.thumbnail && (
+              <img src={currentPage.thumbnail} alt={`Page ${currentPage.page}`} className="md:w-48 self-start rounded-lg shadow-[0_4px_20px_rgba(0,0,0,0.1)]" />
+            )}
+            <div className="text-sm">
+              <p className="font-semibold text-brand-text text-base mb-1">
+                Page {currentPage.page}: {currentPage.score} / 100 · {currentPage.tier}
+              </p>
+              <p className="text-[#666666] mb-3">{currentPage.summary}</p>
+              {currentPage.issues.length > 0 ? (
+                <ul className="list-disc pl-5 space-y-1 text-[#666666]">
+                  {currentPage.issues.map((issue, i) => (
+                    <li key={i}>{issue}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-[#666666]">No issues found on this page.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Preset Checks */}
+      {result.preset && result.checks && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>📋</span> {result.preset.name} Checks
+          </h4>
+          {result.edges && preview && (
+            <div className="relative max-w-md mx-auto mb-6">
+              <img src={preview} alt="Artwork with trim and safe zone" className="w-full rounded-lg" />
+              <svg
+                className="absolute inset-0 w-full h-full"
+                viewBox={`0 0 ${result.edges.image_width} ${result.edges.image_height}`}
+                preserveAspectRatio="none"
+              >
+                <rect {...result.edges.trim_rect} fill="none" className="stroke-brand-primary" strokeWidth={result.edges.image_width / 300} />
+                <rect {...result.edges.safe_rect} fill="none" className="stroke-brand-primary" strokeWidth={result.edges.image_width / 400} strokeDasharray={`${result.edges.image_width / 80}`} />
+                {result.edges.bleed_gaps.map((gap, i) => (
+                  <rect key={`gap-${i}`} {...gap.region} className="fill-brand-accent" fillOpacity={0.5} />
+                ))}
+                {result.edges.unsafe_content.map((area, i) => (
+                  <rect key={`unsafe-${i}`} {...area.region} className="fill-brand-highlight stroke-brand-text" fillOpacity={0.5} strokeWidth={result.edges!.image_width / 500} />
+                ))}
+              </svg>
+              <div className="flex justify-center gap-4 mt-2 text-xs text-[#666666]">
+                <span><span className="inline-block w-3 h-3 border-2 border-brand-primary mr-1 align-middle" />Trim / safe</span>
+                <span><span className="inline-block w-3 h-3 bg-brand-accent/50 mr-1 align-middle" />Bleed gap</span>
+                <span><span className="inline-block w-3 h-3 bg-brand-highlight/50 mr-1 align-middle" />Unsafe detail</span>
+              </div>
+            </div>
+          )}
+          <ul className="space-y-3">
+            {result.checks.map((check) => (
+              <li key={check.rule} className="flex items-start gap-3 text-sm">
+                <span className="mt-0.5">{check.status === 'pass' ? '✅' : check.status === 'warn' ? '⚠️' : '❌'}</span>
+                <div>
+                  <span className="font-semibold text-brand-text">{check.label}</span>
+                  <p className="text-[#666666]">{check.detail}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Typography (reports stored before the font inventory have none) */}
+      {result.pdf?.fonts && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🔤</span> Typography
+            {result.pdf.pages.some((p) => p.min_text_pt !== null) && (
+              <span className="ml-auto text-sm font-semibold text-[#666666]">
+                smallest text {Math.min(...result.pdf.pages.flatMap((p) => (p.min_text_pt === null ? [] : [p.min_text_pt])))} pt
+              </span>
+            )}
+          </h4>
+          {result.pdf.fonts.length === 0 ? (
+            <p className="text-sm text-[#666666]">No live text; any lettering is outlined or part of images.</p>
+          ) : (
+            <ul className="space-y-3">
+              {result.pdf.fonts.map((font, i) => (
+                <li key={`${font.name}-${i}`} className="flex items-start gap-3 text-sm">
+                  <span className="mt-0.5">{font.verdict === 'pass' ? '✅' : '❌'}</span>
+                  <div>
+                    <span className="font-semibold text-brand-text">{font.name}</span>
+                    <p className="text-[#666666]">
+                      {font.type} · {font.embedded ? (font.subset ? 'Embedded subset' : 'Embedded') : 'Not embedded'} ·{' '}
+                      {font.pages.length === 1 ? `page ${font.pages[0]}` : `${font.pages.length} pages`}
+                    </p>
+                    {font.problem && <p className="text-[#666666]">{font.problem}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.pdf.pages.some((p) => p.small_text > 0) && (
+            <p className="text-sm text-[#666666] mt-4">
+              ⚠️ Text too small to print legibly on {result.pdf.pages.filter((p) => p.small_text > 0).map((p) => `page ${p.page} (${p.min_text_pt} pt)`).join(', ')}.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* AI Insights */}
+      {(result.sharpness || result.compressionArtifacts || result.colorProfile) && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🤖</span> AI Quality Analysis
+            {result.ai_provider && (
+              <span className="ml-auto text-sm font-semibold text-[#666666]">
+                {result.ai_provider}{result.cache_hit && ' · cached'}
+              </span>
+            )}
+          </h4>
+          {result.ai_fallback && (
+            <p className="text-xs text-[#666666] mb-4">
+              Measured by the local analyzer ({result.ai_fallback}).
+            </p>
+          )}
+          <div className="grid md:grid-cols-3 gap-4 text-sm">
+            {result.sharpness && (
+              <div>
+                <span className="font-semibold text-brand-text">Sharpness:</span>
+                <p className="text-[#666666]">{result.sharpness}</p>
+                {result.sub_scores && <SubScoreBar subScores={result.sub_scores} category="sharpness" />}
+              </div>
+            )}
+            {result.compressionArtifacts && (
+              <div>
+                <span className="font-semibold text-brand-text">Artifacts:</span>
+                <p className="text-[#666666]">{result.compressionArtifacts}</p>
+                {result.sub_scores && <SubScoreBar subScores={result.sub_scores} category="artifacts" />}
+              </div>
+            )}
+            {result.colorProfile && (
+              <div>
+                <span className="font-semibold text-brand-text">Color:</span>
+                <p className="text-[#666666]">{result.colorProfile}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Image Details */}
+      {result.image && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🗂️</span> File Details
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <span className="font-semibold text-brand-text">Color Space:</span>
+              <p className="text-[#666666]">{result.image.color_space}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">ICC Profile:</span>
+              <p className="text-[#666666]">{result.image.icc_profile ?? 'None embedded'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Bit Depth:</span>
+              <p className="text-[#666666]">{result.image.bit_depth}-bit, {result.image.channels} channels</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Transparency:</span>
+              <p className="text-[#666666]">{result.image.has_alpha ? 'Alpha channel' : 'None'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Embedded DPI:</span>
+              <p className="text-[#666666]">{result.image.density_dpi ?? 'Not set'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Orientation:</span>
+              <p className="text-[#666666]">{result.image.orientation === 1 ? 'Normal' : `EXIF ${result.image.orientation} (auto-rotated)`}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* SVG Details */}
+      {result.svg && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>✒️</span> Vector Details
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <span className="font-semibold text-brand-text">Artwork Size:</span>
+              <p className="text-[#666666]">
+                {result.svg.width_in} × {result.svg.height_in} in{!result.svg.physical_size && ' (at 96 px/in)'}
+              </p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Embedded Images:</span>
+              <p className="text-[#666666]">
+                {result.svg.images.length ? `${result.svg.images.length}, lowest ${result.svg.min_image_ppi} PPI` : 'None'}
+              </p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Linked Images:</span>
+              <p className="text-[#666666]">{result.svg.linked_images.length || 'None'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Live Text:</span>
+              <p className="text-[#666666]">
+                {result.svg.text_elements
+                  ? `${result.svg.text_elements} (${result.svg.fonts.join(', ') || 'default font'})`
+                  : 'None'}
+              </p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Thinnest Stroke:</span>
+              <p className="text-[#666666]">{result.svg.strokes.length ? `${result.svg.strokes[0].width_pt} pt` : 'No strokes'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Colors:</span>
+              <p className="text-[#666666]">
+                {result.svg.colors.rgb} RGB, {result.svg.colors.cmyk} CMYK
+                {result.svg.colors.spot.length > 0 && `, spot ${result.svg.colors.spot.join(', ')}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* CMYK Soft Proof */}
+      {result.soft_proof && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🎨</span> CMYK Soft Proof
+            <span className="ml-auto text-sm font-semibold text-[#666666]">
+              {result.soft_proof.out_of_gamut_pct.toFixed(1)}% out of gamut
+            </span>
+          </h4>
+          {preview && result.soft_proof.proof_image && (
+            <div className="grid md:grid-cols-2 gap-4 mb-4">
+              <figure>
+                <img src={preview} alt="Original artwork" className="w-full rounded-lg" />
+                <figcaption className="text-xs text-[#666666] text-center mt-2">Original (screen)</figcaption>
+              </figure>
+              <figure>
+                <div className="relative">
+                  <img src={result.soft_proof.proof_image} alt="CMYK soft proof" className="w-full rounded-lg" />
+                  {showHeatmap && (
+                    <img src={result.soft_proof.heatmap_image} alt="Out-of-gamut heatmap" className="absolute inset-0 w-full h-full rounded-lg" />
+                  )}
+                </div>
+                <figcaption className="text-xs text-[#666666] text-center mt-2">Soft proof ({result.soft_proof.profile})</figcaption>
+              </figure>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {preview && result.soft_proof.heatmap_image && (
+              <label className="flex items-center gap-2 font-semibold text-brand-text cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showHeatmap}
+                  onChange={(e) => setShowHeatmap(e.target.checked)}
+                  className="accent-brand-accent"
+                />
+                Show out-of-gamut heatmap
+              </label>
+            )}
+            <span className="text-[#666666]">
+              ΔE mean {result.soft_proof.mean_delta_e.toFixed(1)} · 99th pct {result.soft_proof.p99_delta_e.toFixed(1)} · max {result.soft_proof.max_delta_e.toFixed(1)}
+            </span>
+            {showHeatmap && (
+              <span className="text-xs text-[#666666]">
+                <span className="inline-block w-3 h-3 bg-brand-highlight mr-1 align-middle" />Slight shift
+                <span className="inline-block w-3 h-3 bg-brand-accent ml-3 mr-1 align-middle" />Strong shift
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Ink Coverage */}
+      {result.ink && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🖨️</span> Ink Coverage
+            <span className="ml-auto text-sm font-semibold text-[#666666]">
+              max {result.ink.max_pct}% · limit {result.ink.limit_pct}%
+            </span>
+          </h4>
+          {preview && result.ink.heatmap_image && (
+            <>
+              <div className="relative max-w-md mx-auto mb-2">
+                <img src={preview} alt="Artwork with ink coverage heatmap" className="w-full rounded-lg" />
+                <img src={result.ink.heatmap_image} alt="Ink coverage heatmap" className="absolute inset-0 w-full h-full rounded-lg" />
+              </div>
+              <div className="flex justify-center gap-4 mb-6 text-xs text-[#666666]">
+                <span><span className="inline-block w-3 h-3 bg-brand-highlight mr-1 align-middle" />Near limit</span>
+                <span><span className="inline-block w-3 h-3 bg-brand-accent mr-1 align-middle" />Over limit</span>
+              </div>
+            </>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <span className="font-semibold text-brand-text">99th Percentile:</span>
+              <p className="text-[#666666]">{result.ink.p99_pct}%</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Over Limit:</span>
+              <p className="text-[#666666]">{result.ink.over_limit_pct}% of artwork</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Source:</span>
+              <p className="text-[#666666]">{result.ink.converted ? 'Converted from RGB' : 'CMYK file'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Black Text:</span>
+              <p className="text-[#666666]">{BLACK_BUILD_LABELS[result.ink.black_text]}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Black Areas:</span>
+              <p className="text-[#666666]">{BLACK_BUILD_LABELS[result.ink.black_area]}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Measured Metrics */}
+      {result.metrics && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🔬</span> Measured Quality
+            <span className="ml-auto text-sm font-semibold text-[#666666]">
+              {result.metrics.quality_score} / 100 · AI {result.ai_score} / 100
+            </span>
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <span className="font-semibold text-brand-text">Sharpness:</span>
+              <p className="text-[#666666]">{result.metrics.sharpness === null ? 'Not assessed (flat artwork)' : `${result.metrics.sharpness.toFixed(0)} (Laplacian variance)`}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">JPEG Blockiness:</span>
+              <p className="text-[#666666]">{result.metrics.blockiness.toFixed(2)}× (1.00 = none)</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Banding:</span>
+              <p className="text-[#666666]">{(result.metrics.posterization * 100).toFixed(0)}% missing levels</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Noise:</span>
+              <p className="text-[#666666]">σ {result.metrics.noise_sigma.toFixed(1)}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Clipped Shadows:</span>
+              <p className="text-[#666666]">{result.metrics.clipped_shadows_pct.toFixed(1)}%</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Recommendations */}
+      {result.recommendations && result.recommendations.length > 0 && (
+        <div className="bg-white rounded-[14px] p-6 shadow-[0_4px_20px_rgba(0,0,0,0.06)] mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>💡</span> Recommendations
+          </h4>
+          <ul className="space-y-2">
+            {result.recommendations.map((rec, i) => (
+              <li key={i} className="flex items-start gap-2 text-[#666666] text-sm">
+                <span className="text-brand-primary mt-1">→</span>
+                {rec}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Print Size */}
+      <div className="text-center p-6 bg-white rounded-[14px] shadow-[0_4px_20px_rgba(0,0,0,0.06)] max-w-md mx-auto mb-10">
+        <span className="font-bold text-brand-text">Print Size Safe Range:</span>{' '}
+        <span className="font-bold text-brand-primary">
+          {result.max_print_width_in?.toFixed(1)} × {result.max_print_height_in?.toFixed(1)} inches
+        </span>{' '}
+        <span className="text-[#666666]">at 300 DPI</span>
+      </div>
+
+      {/* Target Print Size */}
+      {result.target && (
+        <div className="p-6 bg-white rounded-[14px] shadow-[0_4px_20px_rgba(0,0,0,0.06)] max-w-2xl mx-auto mb-10">
+          <h4 className="font-bold text-brand-text text-lg mb-4 flex items-center gap-2">
+            <span>🖼️</span> At {result.target.width_in} × {result.target.height_in} in
+            <span className="text-sm font-normal text-[#666666]">({result.target.fit === 'crop' ? 'fill' : 'fit'})</span>
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="font-semibold text-brand-text">Effective PPI:</span>
+              <p className={result.target.effective_ppi !== null && result.target.effective_ppi < 300 ? 'text-brand-accent font-bold' : 'text-[#666666]'}>
+                {result.target.effective_ppi ?? 'Vector'}
+              </p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Upscale Needed:</span>
+              <p className="text-[#666666]">{result.target.required_upscale > 1 ? `${result.target.required_upscale.toFixed(1)}×` : 'None'}</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">Aspect Mismatch:</span>
+              <p className="text-[#666666]">{result.target.aspect_mismatch_pct}%</p>
+            </div>
+            <div>
+              <span className="font-semibold text-brand-text">{result.target.fit === 'crop' ? 'Cropped:' : 'Blank Area:'}</span>
+              <p className="text-[#666666]">{result.target.fit === 'crop' ? result.target.cropped_pct : result.target.blank_pct}%</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
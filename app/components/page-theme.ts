@@ -0,0 +1,13 @@
+import { headers } from 'next/headers';
+import { resolveTheme } from '@/lib/themes';
+
+export type ThemeSearchParams = Promise<{ theme?: string | string[] }>;
+
+// Theme for a server-rendered page: picked by ?theme= or by the host the
+// page is served on. `themeQuery` carries a ?theme= choice over to links.
+export async function pageTheme(searchParams: ThemeSearchParams) {
+  const { theme } = await searchParams;
+  const requested = typeof theme === 'string' ? theme : null;
+  const resolved = await resolveTheme({ host: (await headers()).get('host'), theme: requested });
+  return { theme: resolved, themeQuery: resolved.id === requested ? `?theme=${encodeURIComponent(requested)}` : '' };
+}
@@ -0,0 +1,65 @@
+import type { CompactResult } from '@/lib/analysis';
+import type { Tier } from '@/lib/scoring';
+
+// Reports saved from this browser, newest first. Kept in localStorage with
+// the delete token, so only the browser that ran an analysis can delete it.
+export interface HistoryEntry {
+  id: string;
+  file_name: string;
+  total_score: number;
+  tier: Tier;
+  tier_color: string;
+  created_at: string;
+  expires_at: string;
+  delete_token: string;
+}
+
+const STORAGE_KEY = 'printscore-history';
+const MAX_ENTRIES = 50;
+
+function save(entries: HistoryEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function loadHistory(): HistoryEntry[] {
+  let entries: HistoryEntry[] = [];
+  try {
+    entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    // Corrupt or unavailable storage starts a new history
+  }
+  // Expired reports are gone from the server too
+  return entries.filter((e) => Date.parse(e.expires_at) > Date.now());
+}
+
+export function addToHistory(result: CompactResult, fileName: string): HistoryEntry[] {
+  if (!result.report) return loadHistory();
+  const entry: HistoryEntry = {
+    id: result.report.id,
+    file_name: fileName,
+    total_score: result.total_score,
+    tier: result.tier,
+    tier_color: result.tier_color,
+    created_at: new Date().toISOString(),
+    expires_at: result.report.expires_at,
+    delete_token: result.report.delete_token,
+  };
+  const entries = [entry, ...loadHistory().filter((e) => e.id !== entry.id)].slice(0, MAX_ENTRIES);
+  save(entries);
+  return entries;
+}
+
+// Delete the stored report and forget it. A report that is already gone
+// is removed from the history too.
+export async function deleteFromHistory(entry: HistoryEntry): Promise<HistoryEntry[]> {
+  const response = await fetch(`/api/reports/${entry.id}`, {
+    method: 'DELETE',
+    headers: { 'X-PrintScore-Delete-Token': entry.delete_token },
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new Error('Delete failed');
+  }
+  const entries = loadHistory().filter((e) => e.id !== entry.id);
+  save(entries);
+  return entries;
+}
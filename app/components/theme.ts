@@ -0,0 +1,32 @@
+import type { CSSProperties } from 'react';
+import type { ThemePalette } from '@/lib/themes';
+import { TIER_COLOR_SLOTS, TIER_TINTS, Tier } from '@/lib/scoring';
+
+// CSS variables behind the brand-* Tailwind colors, as space-separated
+// RGB channels so opacity modifiers work
+export function themeStyle(palette: ThemePalette): CSSProperties {
+  const channels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)).join(' ');
+  return {
+    '--brand-primary': channels(palette.primary),
+    '--brand-accent': channels(palette.accent),
+    '--brand-highlight': channels(palette.highlight),
+    '--brand-text': channels(palette.text),
+    '--brand-background': channels(palette.background),
+  } as CSSProperties;
+}
+
+// Color a tier is shown in on the current theme
+export function tierCssColor(tier: Tier): string {
+  const slot = TIER_COLOR_SLOTS[tier];
+  if (!slot) return '#6B7280';
+  // A tint is the color mixed with white, as in tierColor
+  const tint = TIER_TINTS[tier];
+  return tint === undefined
+    ? `rgb(var(--brand-${slot}))`
+    : `color-mix(in srgb, rgb(var(--brand-${slot})) ${tint * 100}%, white)`;
+}
+
+// Tier badges keep the text color the default theme used for them
+export function tierTextColor(tier: Tier): string {
+  return TIER_COLOR_SLOTS[tier] === 'highlight' ? '#FFFFFF' : 'rgb(var(--brand-text))';
+}
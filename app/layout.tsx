@@ -24,7 +24,7 @@ export default function RootLayout({
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
         <link href="https://fonts.googleapis.com/css2?family=Space+Grotesk:wght@400;500;600;700;800&display=swap" rel="stylesheet" />
       </head>
-      <body className="bg-[#F7F7F7] min-h-screen text-[#1F1F1F] antialiased">
+      <body className="bg-brand-background min-h-screen text-brand-text antialiased">
         {children}
       </body>
     </html>
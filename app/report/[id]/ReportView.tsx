@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { StoredReport } from '@/lib/reports';
+import type { Theme } from '@/lib/themes';
+import BrandLogo from '../../components/BrandLogo';
+import ExportButtons from '../../components/ExportButtons';
+import ResultsView from '../../components/ResultsView';
+import { deleteFromHistory, loadHistory, HistoryEntry } from '../../components/report-history';
+import { themeStyle } from '../../components/theme';
+
+// Read-only view of a stored report
+export default function ReportView({ report, theme, themeQuery }: { report: StoredReport; theme: Theme; themeQuery: string }) {
+  const [entry, setEntry] = useState<HistoryEntry | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [deleted, setDeleted] = useState(false);
+  const { result } = report;
+
+  // Only the browser that ran the analysis holds the delete token
+  useEffect(() => {
+    setEntry(loadHistory().find((e) => e.id === report.id) ?? null);
+  }, [report.id]);
+
+  const reportFields = () => {
+    const formData = new FormData();
+    formData.append('report_id', report.id);
+    formData.append('theme', theme.id);
+    return formData;
+  };
+
+  const downloadPDF = async () => {
+    const formData = reportFields();
+
+    try {
+      const response = await fetch('/api/pdf', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) throw new Error('PDF generation failed');
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'printscore-report.pdf';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('PDF error:', error);
+      alert('Failed to generate PDF. Please try again.');
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error('Clipboard error:', error);
+      alert('Could not copy the link.');
+    }
+  };
+
+  const deleteReport = async () => {
+    if (!entry || !confirm(`Delete the report for ${report.file_name}? Its link will stop working.`)) return;
+    try {
+      await deleteFromHistory(entry);
+      setDeleted(true);
+    } catch (error) {
+      console.error('Delete error:', error);
+      alert('Failed to delete report. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-brand-background" style={themeStyle(theme.palette)}>
+      {/* Navigation */}
+      <nav className="py-5 bg-white shadow-[0_2px_20px_rgba(0,0,0,0.06)] sticky top-0 z-50">
+        <div className="max-w-6xl mx-auto px-6 flex justify-between items-center">
+          <a href={`/${themeQuery}`}>
+            <BrandLogo theme={theme} className="text-2xl font-extrabold text-brand-primary tracking-tight" />
+          </a>
+          <a href={`/${themeQuery}#upload`} className="px-7 py-3 bg-brand-primary text-brand-text font-bold rounded-xl shadow-[0_4px_15px_rgb(var(--brand-primary)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.4)] hover:-translate-y-0.5 transition-all">
+            Check Your Score
+          </a>
+        </div>
+      </nav>
+
+      <section className="py-20 px-6 bg-brand-background">
+        <div className="max-w-4xl mx-auto">
+          {deleted ? (
+            <div className="text-center p-6 bg-white rounded-[14px] shadow-[0_4px_20px_rgba(0,0,0,0.06)] max-w-md mx-auto">
+              <p className="font-bold text-brand-text mb-2">Report deleted</p>
+              <a href={`/${themeQuery}`} className="text-brand-primary font-semibold hover:underline">Analyze another file</a>
+            </div>
+          ) : (
+            <>
+              <div className="text-center mb-10">
+                <h1 className="text-3xl font-extrabold text-brand-text mb-2 break-all">{report.file_name}</h1>
+                <p className="text-[#666666] text-sm">
+                  Analyzed {new Date(report.created_at).toLocaleString()} · link expires {new Date(report.expires_at).toLocaleDateString()}
+                </p>
+              </div>
+
+              <ResultsView result={result} preview={null} />
+
+              {/* Actions */}
+              <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                <button
+                  onClick={downloadPDF}
+                  className="px-8 py-4 bg-brand-primary text-brand-text font-bold rounded-xl shadow-[0_4px_20px_rgb(var(--brand-primary)/0.3)] hover:shadow-[0_6px_25px_rgb(var(--brand-primary)/0.4)] hover:-translate-y-0.5 transition-all"
+                >
+                  Download PDF Report
+                </button>
+                <button
+                  onClick={copyLink}
+                  className="px-8 py-4 border-[3px] border-brand-primary text-brand-primary font-bold rounded-xl bg-white hover:bg-brand-primary hover:text-brand-text transition-all"
+                >
+                  {linkCopied ? 'Link Copied' : 'Copy Share Link'}
+                </button>
+                {entry && (
+                  <button
+                    onClick={deleteReport}
+                    className="px-8 py-4 bg-brand-background text-brand-accent font-bold rounded-xl border-2 border-[#E8E8E8] hover:bg-[#E8E8E8] transition-all"
+                  >
+                    Delete Report
+                  </button>
+                )}
+              </div>
+              <ExportButtons fields={reportFields} />
+            </>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
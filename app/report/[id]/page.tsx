@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getReport } from '@/lib/reports';
+import { pageTheme, ThemeSearchParams } from '../../components/page-theme';
+import ReportView from './ReportView';
+
+// Shared links are unguessable but not secret; keep them out of search
+export async function generateMetadata({ searchParams }: { searchParams: ThemeSearchParams }): Promise<Metadata> {
+  const { theme } = await pageTheme(searchParams);
+  return {
+    title: `${theme.product_name} Report`,
+    robots: { index: false, follow: false },
+  };
+}
+
+export const dynamic = 'force-dynamic';
+
+export default async function ReportPage({ params, searchParams }: { params: Promise<{ id: string }>; searchParams: ThemeSearchParams }) {
+  const report = await getReport((await params).id);
+  if (!report) notFound();
+
+  const { theme, themeQuery } = await pageTheme(searchParams);
+  return <ReportView report={report} theme={theme} themeQuery={themeQuery} />;
+}
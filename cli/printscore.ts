@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+// Preflight local files with the same analysis as /api/analyze, without
+// starting the web app. Build with `npm run build:cli`, then run
+// `npx printscore --help`.
+//
+// Exit codes: 0 when every file passes, 1 when any file scores below
+// --min-score, fails a --fail-on rule or cannot be analyzed, or when no
+// file is analyzed at all, 2 on a usage error.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { analyzeUpload, AnalysisError } from '../lib/analysis';
+import { CONCURRENCY, effectivePpi, expandUploads, isZip, mapWithConcurrency, mimeTypeFor, worstIssue } from '../lib/batch';
+import { EXPORT_SCHEMA } from '../lib/export/schema';
+import { exportItem, ExportItem, renderExport } from '../lib/export/formats';
+import { isRule, preflightReasons, PreflightOptions, Rule, RULES, runPreflight } from '../lib/preflight';
+import { UPLOAD_LABELS } from '../lib/formats';
+import { findPreset, loadPresets, PrintPreset } from '../lib/presets';
+import type { TargetSize } from '../lib/target-size';
+import { localProvider } from '../lib/vision/local';
+
+// Types
+interface CliOptions extends PreflightOptions {
+  patterns: string[];
+  preset: PrintPreset | null;
+  targetSize: TargetSize | null;
+  format: 'table' | 'json';
+  offline: boolean;
+}
+
+const USAGE = `Usage: printscore [options] <file|directory|glob>...
+
+Analyzes ${UPLOAD_LABELS} files, and the ones inside ZIP archives.
+Quote globs ("art/**/*.png") to have printscore expand them.
+
+Options:
+  --preset <id>        Check against a product preset (see --list-presets)
+  --target <W>x<H>     Intended print size in inches, e.g. 18x24
+  --fit crop|fit       How artwork meets the target size (default crop)
+  --min-score <n>      Fail files scoring below n
+  --fail-on <rules>    Fail files failing any of these rules, comma-separated:
+                       ${RULES.join(', ')}
+  --format table|json  Output format (default table)
+  --json               Same as --format json
+  --offline            Use the local analyzer only; makes no network calls
+  --list-presets       Print the available presets and exit
+  -h, --help           Show this help
+`;
+
+// A file waiting to be analyzed. Files on disk are read when their turn
+// comes, so only the ones in flight are held in memory.
+interface PendingFile {
+  name: string;
+  mimeType: string;
+  read: () => Promise<Buffer>;
+}
+
+class UsageError extends Error {}
+
+const GLOB_CHARS = /[*?[{]/;
+// Never descended into when expanding directories and globs
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // ** matches any number of directories, including none
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) throw new UsageError(`Unclosed { in ${glob}`);
+      source += `(?:${glob.slice(i + 1, end).split(',').map((s) => s.replace(/[.+^$()|\\]/g, '\\$&').replace(/\*/g, '[^/]*')).join('|')})`;
+      i = end;
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i);
+      if (end === -1) throw new UsageError(`Unclosed [ in ${glob}`);
+      source += glob.slice(i, end + 1).replace('[!', '[^');
+      i = end;
+    } else {
+      source += c.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || IGNORED_DIRS.has(entry.name)) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(full)));
+    else if (entry.isFile()) files.push(full);
+  }
+  return files;
+}
+
+const supported = (file: string) => !!mimeTypeFor(file) || isZip(file, '');
+
+// Files named by the arguments. Directories and globs only yield the
+// supported types; files named outright are always included, so an
+// unsupported one is reported rather than silently dropped.
+async function expandPatterns(patterns: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const stat = await fs.stat(pattern).catch(() => null);
+    if (stat?.isFile()) {
+      files.add(pattern);
+    } else if (stat?.isDirectory()) {
+      for (const file of await walk(pattern)) if (supported(file)) files.add(file);
+    } else if (GLOB_CHARS.test(pattern)) {
+      const posix = pattern.split(path.sep).join('/');
+      const segments = posix.split('/');
+      const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+      const base = segments.slice(0, firstGlob).join('/') || '.';
+      const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+      const found = await walk(base).catch(() => []);
+      for (const file of found) {
+        const relative = path.relative(base, file).split(path.sep).join('/');
+        if (matcher.test(relative) && supported(file)) files.add(file);
+      }
+    } else {
+      throw new UsageError(`No such file or directory: ${pattern}`);
+    }
+  }
+  return Array.from(files).sort();
+}
+
+function parseTarget(value: string, fit: string): TargetSize {
+  const match = value.match(/^(\d*\.?\d+)\s*[xX×]\s*(\d*\.?\d+)$/);
+  const width = match ? parseFloat(match[1]) : NaN;
+  const height = match ? parseFloat(match[2]) : NaN;
+  if (!(width > 0) || !(height > 0)) throw new UsageError(`Invalid --target ${value}; expected e.g. 18x24`);
+  if (fit !== 'crop' && fit !== 'fit') throw new UsageError(`Invalid --fit ${fit}; expected crop or fit`);
+  return { width_in: width, height_in: height, fit };
+}
+
+async function parseOptions(argv: string[]): Promise<CliOptions | null> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        preset: { type: 'string' },
+        target: { type: 'string' },
+        fit: { type: 'string', default: 'crop' },
+        'min-score': { type: 'string' },
+        'fail-on': { type: 'string', multiple: true },
+        format: { type: 'string', default: 'table' },
+        json: { type: 'boolean' },
+        offline: { type: 'boolean' },
+        'list-presets': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return null;
+  }
+  if (values['list-presets']) {
+    for (const p of await loadPresets()) {
+      console.log(`${p.id.padEnd(24)} ${p.name} (${p.trim_width_in} × ${p.trim_height_in} in, ${p.color_mode})`);
+    }
+    return null;
+  }
+  if (positionals.length === 0) throw new UsageError('No files given');
+
+  const preset = values.preset ? await findPreset(values.preset) : null;
+  if (values.preset && !preset) throw new UsageError(`Unknown preset: ${values.preset}`);
+
+  let min_score: number | null = null;
+  if (values['min-score'] !== undefined) {
+    min_score = Number(values['min-score']);
+    if (!Number.isFinite(min_score) || min_score < 0 || min_score > 100) {
+      throw new UsageError(`Invalid --min-score ${values['min-score']}; expected 0-100`);
+    }
+  }
+
+  const fail_on: Rule[] = [];
+  for (const rule of (values['fail-on'] ?? []).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean)) {
+    if (!isRule(rule)) throw new UsageError(`Unknown rule ${rule}; expected one of ${RULES.join(', ')}`);
+    if (!fail_on.includes(rule)) fail_on.push(rule);
+  }
+
+  const format = values.json ? 'json' : values.format;
+  if (format !== 'table' && format !== 'json') throw new UsageError(`Invalid --format ${format}; expected table or json`);
+
+  return {
+    patterns: positionals,
+    preset,
+    targetSize: values.target ? parseTarget(values.target, values.fit!) : null,
+    format,
+    offline: values.offline ?? false,
+    min_score,
+    fail_on,
+  };
+}
+
+async function analyzeFiles(paths: string[], options: CliOptions): Promise<ExportItem[]> {
+  // Archives are expanded up front. Entries they skip fail like files that
+  // could not be analyzed, so a CI run never passes artwork it didn't check.
+  const queue: (PendingFile | ExportItem)[] = [];
+  for (const file of paths) {
+    const mimeType = mimeTypeFor(file) ?? '';
+    if (!isZip(file, mimeType)) {
+      queue.push({ name: file, mimeType, read: () => fs.readFile(file) });
+      continue;
+    }
+    const { files, skipped } = expandUploads([{ name: file, buffer: await fs.readFile(file), mimeType }]);
+    for (const entry of files) {
+      queue.push({ name: entry.name, mimeType: entry.mimeType, read: async () => entry.buffer });
+    }
+    for (const entry of skipped) {
+      queue.push({ file_name: entry.name, report_id: null, error: `Skipped: ${entry.reason}`, result: null });
+    }
+  }
+
+  return mapWithConcurrency(queue, CONCURRENCY, async (file): Promise<ExportItem> => {
+    if ('file_name' in file) return file;
+    if (!file.mimeType) {
+      return { file_name: file.name, report_id: null, error: 'Unsupported file type', result: null };
+    }
+    try {
+      const result = await analyzeUpload({
+        buffer: await file.read(),
+        fileName: file.name,
+        mimeType: file.mimeType,
+        preset: options.preset,
+        targetSize: options.targetSize,
+        ...(options.offline && { vision: localProvider }),
+      });
+      return exportItem(result, file.name);
+    } catch (e) {
+      const error = e instanceof AnalysisError && e.details
+        ? `${e.message}: ${e.details}`
+        : e instanceof Error ? e.message : 'Unknown error';
+      return { file_name: file.name, report_id: null, error, result: null };
+    }
+  });
+}
+
+function printTable(items: ExportItem[], options: CliOptions) {
+  const rows = items.map((item) => {
+    const { result } = item;
+    const reasons = preflightReasons(item, options);
+    const ppi = result && effectivePpi(result);
+    return {
+      status: reasons.length ? 'FAIL' : 'PASS',
+      score: result ? String(result.total_score) : '-',
+      tier: result?.tier ?? '-',
+      ppi: ppi ? String(ppi) : '-',
+      file: item.file_name,
+      note: reasons.length ? reasons.join('; ') : (result && worstIssue(result)) || '',
+    };
+  });
+
+  const columns = [['status', 'STATUS'], ['score', 'SCORE'], ['tier', 'TIER'], ['ppi', 'PPI'], ['file', 'FILE']] as const;
+  const widths = columns.map(([key, title]) => Math.max(title.length, ...rows.map((r) => r[key].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(line(columns.map(([, title]) => title)));
+  for (const row of rows) {
+    console.log(line(columns.map(([key]) => row[key])));
+    if (row.note) console.log(`  ${row.note}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const options = await parseOptions(argv);
+  if (!options) return 0;
+
+  const paths = await expandPatterns(options.patterns);
+  if (paths.length === 0) throw new UsageError('No supported files matched');
+
+  const items = await analyzeFiles(paths, options);
+  const preflight = runPreflight(items, options);
+
+  if (options.format === 'json') {
+    console.log(renderExport('json', items, { schema_url: EXPORT_SCHEMA.$id, preflight }).body);
+  } else {
+    printTable(items, options);
+    const failed = preflight.failures.length;
+    console.log(`\n${items.length} file${items.length === 1 ? '' : 's'}, ${failed} failed`);
+  }
+
+  // An archive with nothing in it to analyze is a failure, not a pass
+  if (!items.some((item) => item.result)) {
+    console.error('printscore: no files were analyzed');
+    return 1;
+  }
+  return preflight.passed ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    if (error instanceof UsageError) {
+      console.error(`printscore: ${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error('printscore:', error);
+    process.exit(2);
+  },
+);
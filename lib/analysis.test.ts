@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PDFDocument } from 'pdf-lib';
+import sharp from 'sharp';
+import { analyzeUpload } from './analysis';
+import type { AIAnalysis, VisionProvider, VisionRequest } from './vision/provider';
+
+const VERDICT: AIAnalysis = {
+  score: 42,
+  tier: 'High Risk',
+  summary: 'Stub verdict.',
+  resolutionIssue: 'Stub resolution issue.',
+  colorIssue: 'Stub color issue.',
+  layoutIssue: 'Stub layout issue.',
+  formatIssue: 'Stub format issue.',
+  printSizeMax: '4.0 × 4.0 inches',
+  sharpness: 'Stub sharpness.',
+  compressionArtifacts: 'Stub artifacts.',
+  colorProfile: 'sRGB',
+  recommendations: ['Stub recommendation.'],
+};
+
+// Provider that records its requests and returns a fixed verdict, or fails
+function stubProvider(name: string, fail = false, verdict = VERDICT): VisionProvider & { requests: VisionRequest[] } {
+  const requests: VisionRequest[] = [];
+  return {
+    name,
+    version: 1,
+    requests,
+    async analyze(request) {
+      requests.push(request);
+      if (fail) throw new Error('model unavailable');
+      return verdict;
+    },
+  };
+}
+
+async function artwork(size = 1200): Promise<Buffer> {
+  return sharp({ create: { width: size, height: size, channels: 3, background: '#2060A0' } }).png().toBuffer();
+}
+
+test('an injected vision provider is asked about the image and its verdict is reported', async () => {
+  const vision = stubProvider('stub-ok');
+  const buffer = await artwork();
+  const result = await analyzeUpload({ buffer, fileName: 'art.png', mimeType: 'image/png', preset: null, targetSize: null, vision });
+
+  assert.equal(vision.requests.length, 1);
+  assert.equal(vision.requests[0].width, 1200);
+  assert.equal(vision.requests[0].height, 1200);
+  assert.ok(vision.requests[0].metrics, 'the provider receives the pixel metrics');
+  assert.equal(result.ai_provider, 'stub-ok');
+  assert.equal(result.ai_fallback, undefined);
+  assert.equal(result.ai_score, 42);
+  assert.equal(result.summary, 'Stub verdict.');
+  assert.deepEqual(result.recommendations, ['Stub recommendation.']);
+});
+
+test('a failing vision provider falls back to the local analyzer', async () => {
+  const vision = stubProvider('stub-down', true);
+  const buffer = await artwork();
+  const result = await analyzeUpload({ buffer, fileName: 'art.png', mimeType: 'image/png', preset: null, targetSize: null, vision });
+
+  assert.equal(vision.requests.length, 1);
+  assert.equal(result.ai_provider, 'local');
+  assert.match(result.ai_fallback ?? '', /stub-down failed: model unavailable/);
+  assert.notEqual(result.summary, 'Stub verdict.');
+});
+
+test('the vision verdict is blended into the total', async () => {
+  const buffer = await artwork();
+  const analyze = (score: number) => analyzeUpload({
+    buffer, fileName: 'art.png', mimeType: 'image/png', preset: null, targetSize: null,
+    // Named apart so the second verdict is not served from the cache
+    vision: stubProvider(`stub-${score}`, false, { ...VERDICT, score }),
+  });
+  const [low, high] = await Promise.all([analyze(40), analyze(100)]);
+
+  assert.deepEqual(low.sub_scores, high.sub_scores);
+  assert.ok(Math.abs(high.total_score - low.total_score - 18) <= 1, `totals ${low.total_score} and ${high.total_score}`);
+});
+
+test('a critical failure caps the total however well the rest scores', async () => {
+  const vision = stubProvider('stub-100', false, { ...VERDICT, score: 100 });
+  const buffer = await artwork(1);
+  const result = await analyzeUpload({ buffer, fileName: 'dot.png', mimeType: 'image/png', preset: null, targetSize: null, vision });
+
+  assert.ok(result.total_score < 40, `total ${result.total_score}`);
+  assert.equal(result.tier, 'Print Failure Likely');
+  assert.match(result.summary, /Capped at Print Failure Likely: 1 × 1 px is less than an inch at 300 PPI\./);
+});
+
+test('a PDF is recognized by its type when the name has no extension', async () => {
+  const doc = await PDFDocument.create();
+  doc.addPage([288, 432]);
+  const buffer = Buffer.from(await doc.save());
+  const result = await analyzeUpload({ buffer, fileName: 'upload', mimeType: 'application/pdf', preset: null, targetSize: null, vision: stubProvider('stub-ok') });
+
+  assert.ok(result.pdf, 'the PDF is inspected');
+  assert.equal(result.format_type, 'pdf');
+  assert.equal(result.width_px, 1200);
+  assert.equal(result.height_px, 1800);
+});
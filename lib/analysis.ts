@@ -0,0 +1,864 @@
+import { inspectPdf, PdfInspection } from './pdf/inspect';
+import { describeTypography, MIN_TEXT_PT, pageList, smallTextPages } from './pdf/fonts';
+import { renderPdfPages } from './pdf/render';
+import { describeStrokes, hairlines, inspectSvg, MIN_STROKE_PT, svgPrintScale, SvgInspection } from './svg/inspect';
+import { computeImageMetrics, ImageMetrics } from './image/metrics';
+import {
+  evaluateTargetSize,
+  describeTarget,
+  TargetEvaluation,
+  TargetSize,
+} from './target-size';
+import {
+  bleedSize,
+  evaluatePreset,
+  describeChecks,
+  PresetCheck,
+  PrintPreset,
+} from './presets';
+import { analyzeEdges, EdgeAnalysis } from './image/edges';
+import { inspectImage, ImageInspection } from './image/inspect';
+import { softProof, describeSoftProof, SoftProof } from './image/soft-proof';
+import { analyzeInk, describeInk, InkCoverage } from './image/ink';
+import { blendedTotal, tierForScore, ScoreCap, PageAggregate, PAGE_AGGREGATE, SCORE_CATEGORIES, SubScores, Tier } from './scoring';
+import { applyDocumentDeductions, capTotal, combinePageScores, criticalFailures, loadScoringWeights, requiredPpi, scoreArtwork, scorePdfPage, ScoringFacts, ScoringWeights } from './rubric';
+import { resolveVisionProvider, AIAnalysis, ResolvedProvider, VisionProvider, VisionRequest } from './vision/provider';
+import { localProvider } from './vision/local';
+import { cacheKey, resolveCacheStore, CACHE_TTL_MS } from './cache';
+import type { ReportLink } from './reports';
+import { DEFAULT_THEME, tierColor } from './themes';
+import { describeFormat, uploadFormat } from './formats';
+
+// Types
+export interface AnalysisInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  preset: PrintPreset | null;
+  // Intended print size; ignored when a preset is given
+  targetSize: TargetSize | null;
+  // How much the file was enlarged by interpolation, e.g. by the auto-fix.
+  // Interpolated pixels carry no detail, so the file prints as large as
+  // its source did.
+  upscale?: number;
+  // Overrides the configured vision provider, e.g. with a fake in tests
+  vision?: VisionProvider;
+  // Called as each stage starts and finishes
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Stops the analysis at the next stage, and aborts the vision call
+  signal?: AbortSignal;
+}
+
+// Analysis stages, in the order they run
+export const ANALYSIS_STAGES = ['decoding', 'metadata', 'metrics', 'ai', 'scoring'] as const;
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  status: 'running' | 'done';
+  // Result fields the stage produced, sent when it is done
+  partial?: Partial<AnalysisResult>;
+}
+
+// A rendered PDF page, scored like an image upload
+export interface PdfPageScore {
+  page: number;
+  // Rubric total blended with the vision verdict
+  score: number;
+  sub_scores: SubScores;
+  tier: Tier;
+  summary: string;
+  // The page's deductions, then the vision provider's recommendations
+  issues: string[];
+  ai_score: number;
+  ai_provider: string;
+  metrics?: ImageMetrics;
+  // JPEG of the page, as a data URL
+  thumbnail: string;
+}
+
+export interface PdfPageScores {
+  // How the page scores were combined
+  aggregate: PageAggregate;
+  // The page scores combined, before document-level deductions and
+  // critical failure caps
+  score: number;
+  // Pages past PRINTSCORE_PDF_MAX_PAGES are not rendered or scored
+  pages_rendered: number;
+  pages: PdfPageScore[];
+}
+
+export interface AnalysisResult {
+  width_px: number;
+  height_px: number;
+  file_size: number;
+  format_type: string;
+  max_print_width_in: number;
+  max_print_height_in: number;
+  // Weighted mean of the category sub-scores blended with ai_score, capped
+  // when the file has a critical failure
+  total_score: number;
+  sub_scores: SubScores;
+  // Set when critical failures capped the total
+  score_cap?: ScoreCap;
+  // The vision provider's or structure analyzer's own verdict
+  ai_score: number;
+  // Vision provider that produced the AI fields (image uploads and
+  // rendered PDF pages), and why the configured one was not used, if it
+  // wasn't
+  ai_provider?: string;
+  ai_fallback?: string;
+  // True when the AI fields were reused from an earlier analysis of the
+  // same file bytes and options
+  cache_hit?: boolean;
+  tier: Tier;
+  tier_color: string;
+  summary: string;
+  issues: {
+    resolution: string;
+    color: string;
+    layout: string;
+    format: string;
+    ink: string;
+  };
+  // AI insights
+  sharpness?: string;
+  compressionArtifacts?: string;
+  colorProfile?: string;
+  printSizeMax?: string;
+  recommendations?: string[];
+  // Evaluation at the requested print size
+  target?: TargetEvaluation;
+  // Product preset rules
+  preset?: PrintPreset;
+  checks?: PresetCheck[];
+  // Bleed and safe-zone regions (image uploads with a preset)
+  edges?: EdgeAnalysis;
+  // File facts read from the image header (image uploads only)
+  image?: ImageInspection;
+  // Deterministic pixel metrics (image uploads only)
+  metrics?: ImageMetrics;
+  // CMYK soft proof (RGB image uploads only)
+  soft_proof?: SoftProof;
+  // Total ink coverage and black builds (image uploads only)
+  ink?: InkCoverage;
+  // PDF structure (PDF uploads only)
+  pdf?: PdfInspection;
+  // Scores of the rendered pages (PDF uploads only)
+  page_scores?: PdfPageScores;
+  // Vector structure (SVG uploads only)
+  svg?: SvgInspection;
+  // Stored copy of this result, added by the routes that save one
+  report?: ReportLink;
+}
+
+// Result whose images rendered from the artwork (soft proof, heatmaps,
+// page thumbnails) may be absent: they are dropped before a result is
+// stored or returned in bulk
+export type CompactResult = Omit<AnalysisResult, 'soft_proof' | 'ink' | 'page_scores'> & {
+  soft_proof?: Omit<SoftProof, 'proof_image' | 'heatmap_image'> & Partial<Pick<SoftProof, 'proof_image' | 'heatmap_image'>>;
+  ink?: Omit<InkCoverage, 'heatmap_image'> & Partial<Pick<InkCoverage, 'heatmap_image'>>;
+  page_scores?: Omit<PdfPageScores, 'pages'> & {
+    pages: (Omit<PdfPageScore, 'thumbnail'> & Partial<Pick<PdfPageScore, 'thumbnail'>>)[];
+  };
+};
+
+// A failure the caller should report with the given HTTP status
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details?: string,
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+export function compactResult(result: CompactResult): CompactResult {
+  const { soft_proof, ink, page_scores, ...rest } = result;
+  const compacted: CompactResult = rest;
+  if (soft_proof) {
+    const { proof_image: _proof, heatmap_image: _heatmap, ...proof } = soft_proof;
+    compacted.soft_proof = proof;
+  }
+  if (ink) {
+    const { heatmap_image: _heatmap, ...coverage } = ink;
+    compacted.ink = coverage;
+  }
+  if (page_scores) {
+    compacted.page_scores = { ...page_scores, pages: page_scores.pages.map(({ thumbnail: _thumbnail, ...page }) => page) };
+  }
+  return compacted;
+}
+
+export async function analyzeUpload(input: AnalysisInput): Promise<AnalysisResult> {
+  const { buffer, fileName, preset, signal } = input;
+  // Browsers send no type, or a generic one, for some formats
+  const format = uploadFormat(fileName, input.mimeType);
+  const mimeType = format?.mime_types[0] ?? input.mimeType;
+  // The file name's extension, or the detected format's for names without one
+  const format_type = (fileName.includes('.') ? fileName.split('.').pop()?.toLowerCase() : format?.id) || 'unknown';
+  // PDF and SVG are inspected as vectors; other images are decoded to pixels
+  const isPdf = format?.id === 'pdf';
+  const isSvg = format?.id === 'svg';
+  const isRaster = mimeType.startsWith('image/') && !isSvg;
+  const file_size = buffer.length;
+  // Category weights of the total score
+  const weights = await loadScoringWeights();
+
+  // Cancellation is checked whenever a stage starts
+  const start = (stage: AnalysisStage) => {
+    signal?.throwIfAborted();
+    input.onProgress?.({ stage, status: 'running' });
+  };
+  const finish = (stage: AnalysisStage, partial: Partial<AnalysisResult>) => {
+    input.onProgress?.({ stage, status: 'done', partial });
+  };
+
+  let width_px = 0;
+  let height_px = 0;
+  let color_space: string | null = null;
+  let image: ImageInspection | null = null;
+  let pdf: PdfInspection | null = null;
+  let svg: SvgInspection | null = null;
+  let metrics: ImageMetrics | null = null;
+  let edges: EdgeAnalysis | null = null;
+  let soft_proof: SoftProof | null = null;
+  let ink: InkCoverage | null = null;
+
+  // Read the file header or PDF structure
+  start('decoding');
+  if (isRaster) {
+    try {
+      image = await inspectImage(buffer);
+      width_px = image.width_px;
+      height_px = image.height_px;
+      color_space = image.color_space;
+    } catch (e) {
+      console.error('Image inspection error:', e);
+      throw new AnalysisError(
+        `Could not read ${format?.label ?? 'image'} file`,
+        400,
+        format?.id === 'heic'
+          ? 'This server cannot decode HEIC photos. Export it as JPEG and upload it again.'
+          : e instanceof Error ? e.message : 'Unknown error',
+      );
+    }
+  } else if (isPdf) {
+    try {
+      pdf = await inspectPdf(buffer);
+    } catch (e) {
+      console.error('PDF parse error:', e);
+      throw new AnalysisError('Could not read PDF', 400, e instanceof Error ? e.message : 'Unknown error');
+    }
+
+    // Page 1 trim size expressed in pixels at 300 DPI
+    const firstPage = pdf.pages[0];
+    const trim = firstPage?.trim_box ?? firstPage?.media_box;
+    width_px = Math.round((trim?.width_in ?? 0) * 300);
+    height_px = Math.round((trim?.height_in ?? 0) * 300);
+  } else if (isSvg) {
+    try {
+      svg = await inspectSvg(buffer);
+    } catch (e) {
+      console.error('SVG parse error:', e);
+      throw new AnalysisError('Could not read SVG', 400, e instanceof Error ? e.message : 'Unknown error');
+    }
+
+    // Artwork size expressed in pixels at 300 DPI. Colors given only as
+    // CMYK or spot colors make it CMYK artwork.
+    width_px = Math.round(svg.width_in * 300);
+    height_px = Math.round(svg.height_in * 300);
+    color_space = svg.colors.rgb === 0 && (svg.colors.cmyk > 0 || svg.colors.spot.length > 0) ? 'CMYK' : 'RGB';
+  }
+  finish('decoding', {
+    width_px,
+    height_px,
+    file_size,
+    format_type,
+    ...(image && { image }),
+    ...(pdf && { pdf }),
+    ...(svg && { svg }),
+  });
+
+  // Calculate print size at 300 DPI. Placed images in a PDF or SVG limit
+  // how far the artwork can be scaled up; vector-only artwork is reported
+  // at its own size. Interpolated files print as large as their source.
+  start('metadata');
+  const vector = pdf ?? svg;
+  const placedPpi = vector?.min_image_ppi ?? null;
+  const placedScale = (placedPpi ? placedPpi / 300 : 1) / Math.max(1, input.upscale ?? 1);
+  const max_print_width_in = (width_px / 300) * placedScale;
+  const max_print_height_in = (height_px / 300) * placedScale;
+
+  // Evaluate against the customer's intended print size, if given. A
+  // preset implies its full bleed size.
+  const targetSize: TargetSize | null = preset
+    ? { ...bleedSize(preset), fit: 'crop' }
+    : input.targetSize;
+  const target: TargetEvaluation | null = targetSize
+    ? evaluateTargetSize(
+        Math.round(max_print_width_in * 300),
+        Math.round(max_print_height_in * 300),
+        targetSize,
+        vector !== null && placedPpi === null,
+      )
+    : null;
+  finish('metadata', { max_print_width_in, max_print_height_in, ...(target && { target }) });
+
+  // Local pixel analysis (image uploads only)
+  start('metrics');
+  if (isRaster) {
+    try {
+      metrics = await computeImageMetrics(buffer);
+    } catch (e) {
+      console.error('Metrics error:', e);
+    }
+
+    if (preset) {
+      try {
+        edges = await analyzeEdges(buffer, preset);
+      } catch (e) {
+        console.error('Edge analysis error:', e);
+      }
+    }
+
+    // Artwork that is already CMYK prints as-is
+    if (color_space !== 'CMYK') {
+      try {
+        soft_proof = await softProof(buffer);
+      } catch (e) {
+        console.error('Soft proof error:', e);
+      }
+    }
+
+    try {
+      ink = await analyzeInk(buffer, color_space === 'CMYK');
+    } catch (e) {
+      console.error('Ink coverage error:', e);
+    }
+  }
+  finish('metrics', {
+    ...(metrics && { metrics }),
+    ...(edges && { edges }),
+    ...(soft_proof && { soft_proof }),
+    ...(ink && { ink }),
+  });
+
+  // Vision analysis. A provider that is unavailable or fails degrades to
+  // the local analyzer rather than failing the whole request.
+  let aiAnalysis: AIAnalysis;
+  let ai_provider: string | null = null;
+  let ai_fallback: string | undefined;
+  let cache_hit: boolean | undefined;
+  let page_scores: PdfPageScores | null = null;
+  let combinedPages: SubScores | null = null;
+
+  start('ai');
+  if (isRaster) {
+    const resolved: ResolvedProvider = input.vision ? { provider: input.vision } : resolveVisionProvider();
+    const request = { buffer, mimeType, width: width_px, height: height_px, image, target, metrics, signal };
+    const vision = await runVision(resolved, request, [preset?.id ?? null, target]);
+    aiAnalysis = vision.analysis;
+    ai_provider = vision.provider;
+    ai_fallback = vision.fallback;
+    cache_hit = vision.cache_hit;
+  } else if (pdf) {
+    aiAnalysis = getPdfAnalysis(pdf, max_print_width_in, max_print_height_in);
+
+    // Each page is rendered and scored like an image, and the document
+    // score and vision verdict aggregate them. If the PDF cannot be
+    // rendered, the structure score stands.
+    const resolved: ResolvedProvider = input.vision ? { provider: input.vision } : resolveVisionProvider();
+    try {
+      const scored = await scorePdfPages(buffer, pdf, resolved, weights, requiredPpi(preset), signal);
+      page_scores = scored.page_scores;
+      combinedPages = scored.sub_scores;
+      ai_provider = resolved.provider.name;
+      ai_fallback = scored.fallback;
+      cache_hit = scored.cache_hit;
+
+      aiAnalysis = {
+        ...aiAnalysis,
+        score: scored.ai_score,
+        summary: [aiAnalysis.summary, describePageScores(page_scores, pdf.page_count)].filter(Boolean).join(' '),
+      };
+    } catch (e) {
+      signal?.throwIfAborted();
+      console.error('PDF page rendering error:', e);
+    }
+  } else if (svg) {
+    aiAnalysis = getSvgAnalysis(svg, svgPrintScale(svg, target), max_print_width_in, max_print_height_in);
+  } else {
+    aiAnalysis = getBasicAnalysis(width_px, height_px, format_type, file_size);
+  }
+  finish('ai', {
+    ai_score: aiAnalysis.score,
+    ...(ai_provider && { ai_provider }),
+    ...(ai_fallback && { ai_fallback }),
+    ...(cache_hit !== undefined && { cache_hit }),
+    ...(page_scores && { page_scores }),
+    summary: aiAnalysis.summary,
+    sharpness: aiAnalysis.sharpness,
+    compressionArtifacts: aiAnalysis.compressionArtifacts,
+    colorProfile: aiAnalysis.colorProfile,
+    printSizeMax: aiAnalysis.printSizeMax,
+    recommendations: aiAnalysis.recommendations,
+  });
+
+  start('scoring');
+
+  // Product preset rules
+  let checks: PresetCheck[] | null = null;
+  if (preset) {
+    checks = evaluatePreset(preset, { width_px, height_px, color_space, pdf, target, edges });
+  }
+
+  // Each category is scored from its deductions, and the total is their
+  // weighted mean blended with the vision verdict. Rendered PDF pages are
+  // scored one by one and combined. Critical failures cap the total.
+  const facts: ScoringFacts = {
+    width_px,
+    height_px,
+    color_space,
+    format,
+    image,
+    metrics,
+    soft_proof,
+    ink,
+    pdf,
+    svg,
+    svg_scale: svg ? svgPrintScale(svg, target) : 1,
+    target,
+    preset,
+    checks,
+  };
+  const sub_scores = combinedPages ? applyDocumentDeductions(combinedPages, facts) : scoreArtwork(facts, weights);
+  const ai_score = aiAnalysis.score;
+  const blended = blendedTotal(sub_scores, ai_score);
+  const critical = criticalFailures(facts);
+  const total_score = capTotal(blended, sub_scores, critical);
+  const score_cap: ScoreCap | null = total_score < blended ? { uncapped_score: blended, reasons: critical } : null;
+
+  // The tier is always derived from the final score
+  const tier = tierForScore(total_score);
+  const summary = score_cap
+    ? `${aiAnalysis.summary} Capped at ${tier}: ${critical.join(' ')}`
+    : aiAnalysis.summary;
+
+  // Tier color in the default palette; themed views recolor by tier
+  const tier_color = tierColor(DEFAULT_THEME.palette, tier);
+
+  // Build response
+  const issues = {
+    resolution: target
+      ? `${describeTarget(target)} Max at 300 DPI: ${max_print_width_in.toFixed(1)} × ${max_print_height_in.toFixed(1)} inches.`
+      : aiAnalysis.resolutionIssue,
+    color: soft_proof ? `${aiAnalysis.colorIssue} ${describeSoftProof(soft_proof)}` : aiAnalysis.colorIssue,
+    // Stroke weights depend on the print size, so they are described
+    // alongside the preset checks too
+    layout: [
+      preset && checks ? describeChecks(preset, checks) : aiAnalysis.layoutIssue,
+      svg && describeStrokes(svg, svgPrintScale(svg, target)),
+    ].filter(Boolean).join(' '),
+    format: [aiAnalysis.formatIssue, describeFormat(format, image)].filter(Boolean).join(' '),
+    ink: ink
+      ? describeInk(ink)
+      : 'Ink coverage is measured on raster images; not assessed for this file.',
+  };
+
+  const result: AnalysisResult = {
+    width_px,
+    height_px,
+    file_size,
+    format_type,
+    max_print_width_in,
+    max_print_height_in,
+    total_score,
+    sub_scores,
+    ...(score_cap && { score_cap }),
+    ai_score,
+    ...(ai_provider && { ai_provider }),
+    ...(ai_fallback && { ai_fallback }),
+    ...(cache_hit !== undefined && { cache_hit }),
+    tier,
+    tier_color,
+    summary,
+    issues,
+    // Extra AI insights
+    sharpness: aiAnalysis.sharpness,
+    compressionArtifacts: aiAnalysis.compressionArtifacts,
+    colorProfile: aiAnalysis.colorProfile,
+    printSizeMax: aiAnalysis.printSizeMax,
+    recommendations: aiAnalysis.recommendations,
+    ...(target && { target }),
+    ...(preset && checks && { preset, checks }),
+    ...(edges && { edges }),
+    ...(image && { image }),
+    ...(metrics && { metrics }),
+    ...(soft_proof && { soft_proof }),
+    ...(ink && { ink }),
+    ...(pdf && { pdf }),
+    ...(page_scores && { page_scores }),
+    ...(svg && { svg }),
+  };
+  finish('scoring', { total_score, sub_scores, ...(score_cap && { score_cap }), tier, tier_color, summary, issues, ...(preset && checks && { preset, checks }) });
+
+  return result;
+}
+
+
+interface VisionOutcome {
+  analysis: AIAnalysis;
+  provider: string;
+  fallback?: string;
+  cache_hit?: boolean;
+}
+
+// Run the vision provider, reusing a cached verdict for the same bytes and
+// keyParts. A provider that fails degrades to the local analyzer rather
+// than failing the whole request.
+async function runVision(resolved: ResolvedProvider, request: VisionRequest, keyParts: unknown[]): Promise<VisionOutcome> {
+  const { buffer, mimeType, signal } = request;
+
+  // Only the model's verdict is cached, never the image or anything
+  // rendered from it
+  const cache = resolveCacheStore<AIAnalysis>('vision');
+  const key = cacheKey(buffer, [resolved.provider.name, resolved.provider.version, mimeType, ...keyParts]);
+  const cached = cache ? await cache.get(key) : null;
+  const cache_hit = cache ? cached !== null : undefined;
+
+  try {
+    if (cached) return { analysis: cached, provider: resolved.provider.name, fallback: resolved.fallback_reason, cache_hit };
+    const analysis = await resolved.provider.analyze(request);
+    await cache?.set(key, analysis, CACHE_TTL_MS).catch((e) => console.error('Cache write error:', e));
+    return { analysis, provider: resolved.provider.name, fallback: resolved.fallback_reason, cache_hit };
+  } catch (error) {
+    // A cancelled analysis stops here rather than falling back
+    signal?.throwIfAborted();
+    console.error(`${resolved.provider.name} analysis failed:`, error);
+    if (resolved.provider === localProvider) throw error;
+    return {
+      analysis: await localProvider.analyze(request),
+      provider: localProvider.name,
+      fallback: `${resolved.provider.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      cache_hit,
+    };
+  }
+}
+
+// Trim area of a PDF page, which weighs it in a weighted average
+function pageArea(pdf: PdfInspection, page: number): number {
+  const info = pdf.pages[page - 1];
+  const trim = info.trim_box ?? info.media_box;
+  return trim.width_in * trim.height_in;
+}
+
+// Render each page at preview resolution, measure it and ask the vision
+// provider about it, and score it with the rubric. Pages are rendered and
+// analyzed one at a time to bound memory.
+async function scorePdfPages(
+  buffer: Buffer,
+  pdf: PdfInspection,
+  resolved: ResolvedProvider,
+  weights: ScoringWeights,
+  required: number,
+  signal?: AbortSignal,
+): Promise<{ page_scores: PdfPageScores; sub_scores: SubScores; ai_score: number; fallback?: string; cache_hit?: boolean }> {
+  const pages: PdfPageScore[] = [];
+  let fallback = resolved.fallback_reason;
+  let cache_hit: boolean | undefined;
+
+  for await (const rendered of renderPdfPages(buffer)) {
+    signal?.throwIfAborted();
+    // pdfjs and pdf-lib can disagree on the page count of a malformed
+    // file; pages the inspection doesn't know are not scored
+    const info = pdf.pages[rendered.page - 1];
+    if (!info) continue;
+    const trim = info.trim_box ?? info.media_box;
+
+    let metrics: ImageMetrics | null = null;
+    try {
+      metrics = await computeImageMetrics(rendered.image);
+    } catch (e) {
+      console.error('Metrics error:', e);
+    }
+
+    // The page prints at its trim size, so it is described to the
+    // provider as 300 PPI at that size
+    const width = Math.round(trim.width_in * 300);
+    const height = Math.round(trim.height_in * 300);
+    const request = { buffer: rendered.image, mimeType: 'image/png', width, height, image: null, target: null, metrics, signal };
+    const vision = await runVision(resolved, request, [width, height]);
+    fallback ??= vision.fallback;
+    if (vision.cache_hit !== undefined) cache_hit = (cache_hit ?? true) && vision.cache_hit;
+
+    const sub_scores = scorePdfPage(pdf, info, metrics, weights, required);
+    const score = blendedTotal(sub_scores, vision.analysis.score);
+    const deductions = SCORE_CATEGORIES.flatMap((category) => sub_scores[category].deductions.map((d) => d.reason));
+
+    pages.push({
+      page: rendered.page,
+      score,
+      sub_scores,
+      tier: tierForScore(score),
+      summary: vision.analysis.summary,
+      issues: [...deductions, ...vision.analysis.recommendations],
+      ai_score: vision.analysis.score,
+      ai_provider: vision.provider,
+      ...(metrics && { metrics }),
+      thumbnail: rendered.thumbnail,
+    });
+  }
+
+  if (pages.length === 0) throw new Error('No pages were rendered');
+
+  // The document's page score is derived from the combined sub-scores, so
+  // it agrees with the breakdown shown for them
+  const weighted = pages.map((p) => ({ ...p, weight: pageArea(pdf, p.page) }));
+  const { sub_scores, ai_score } = combinePageScores(weighted, PAGE_AGGREGATE, weights);
+
+  return {
+    page_scores: {
+      aggregate: PAGE_AGGREGATE,
+      score: blendedTotal(sub_scores, ai_score),
+      pages_rendered: pages.length,
+      pages,
+    },
+    sub_scores,
+    ai_score,
+    fallback,
+    cache_hit,
+  };
+}
+
+// Range of page scores and how much of the document was scored
+function describePageScores(scores: PdfPageScores, pageCount: number): string {
+  const parts: string[] = [];
+  if (scores.pages.length > 1) {
+    const weakest = scores.pages.reduce((a, b) => (b.score < a.score ? b : a));
+    const best = Math.max(...scores.pages.map((p) => p.score));
+    parts.push(`Pages score ${weakest.score}–${best}; page ${weakest.page} is the weakest.`);
+  }
+  if (scores.pages_rendered < pageCount) {
+    parts.push(`Only the first ${scores.pages_rendered} of ${pageCount} pages were rendered and scored.`);
+  }
+  return parts.join(' ');
+}
+
+function getBasicAnalysis(width: number, height: number, format: string, fileSize: number): AIAnalysis {
+  const megapixels = (width * height) / 1000000;
+  
+  let score = 50;
+  let summary = 'Basic analysis performed. For detailed print assessment, upload an image file.';
+  
+  // Resolution scoring
+  if (width >= 2400 && height >= 3000) {
+    score = 85;
+    summary = 'Good resolution for standard prints. Recommend using AI analysis for detailed assessment.';
+  } else if (megapixels >= 4) {
+    score = 75;
+  } else if (megapixels >= 2) {
+    score = 60;
+    summary = 'Moderate resolution. May appear soft on larger prints.';
+  } else if (megapixels >= 1) {
+    score = 45;
+    summary = 'Low resolution. Not suitable for quality prints.';
+  } else {
+    score = 25;
+    summary = 'Very low resolution. Will not produce acceptable prints.';
+  }
+
+  return {
+    score,
+    tier: tierForScore(score),
+    summary,
+    resolutionIssue: `${width} × ${height}px (${megapixels.toFixed(1)} MP). Max print: ${(width / 300).toFixed(1)} × ${(height / 300).toFixed(1)} inches at 300 DPI.`,
+    colorIssue: format === 'pdf' ? 'CMYK status unknown for PDFs.' : 'RGB color mode. Convert to CMYK for accurate print colors.',
+    layoutIssue: 'Layout analysis requires AI vision. Upload an image for detailed assessment.',
+    formatIssue: `${format.toUpperCase()} format detected.`,
+    printSizeMax: `${(width / 300).toFixed(1)} × ${(height / 300).toFixed(1)} inches`,
+    sharpness: 'Requires AI analysis',
+    compressionArtifacts: 'Requires AI analysis',
+    colorProfile: 'Requires AI analysis',
+    recommendations: ['Upload an image file for AI-powered detailed analysis'],
+  };
+}
+
+// Score and summary sentence for vector artwork whose placed images have
+// the given lowest effective PPI (null when there are none)
+function placedImageScore(minPpi: number | null): { score: number; summary: string } {
+  if (minPpi === null || minPpi >= 300) {
+    return { score: 90, summary: 'All artwork is vector or at least 300 PPI at placed size.' };
+  }
+  if (minPpi >= 200) return { score: 78, summary: `Lowest image resolution is ${minPpi} PPI, acceptable for most prints.` };
+  if (minPpi >= 150) return { score: 62, summary: `Lowest image resolution is ${minPpi} PPI and may look soft.` };
+  if (minPpi >= 100) return { score: 45, summary: `Lowest image resolution is ${minPpi} PPI and will likely print blurry.` };
+  return { score: 25, summary: `Lowest image resolution is ${minPpi} PPI, far below print quality.` };
+}
+
+function getPdfAnalysis(pdf: PdfInspection, maxWidthIn: number, maxHeightIn: number): AIAnalysis {
+  const firstPage = pdf.pages[0];
+  const trim = firstPage?.trim_box ?? firstPage?.media_box;
+  const trimSize = trim ? `${trim.width_in.toFixed(2)} × ${trim.height_in.toFixed(2)} in` : 'unknown size';
+  const imageCount = pdf.pages.reduce((n, p) => n + p.images.length, 0);
+  const lowResImages = pdf.pages.flatMap((p) =>
+    p.images.filter((img) => img.effective_ppi < 300).map((img) => ({ ...img, page: p.page }))
+  );
+  const minPpi = pdf.min_image_ppi;
+  const recommendations: string[] = [];
+
+  // Resolution scoring is driven by the lowest effective PPI of any placed image
+  const placed = placedImageScore(minPpi);
+  let score = placed.score;
+  const summary = `${pdf.page_count}-page PDF with ${imageCount} placed image${imageCount === 1 ? '' : 's'}. ${placed.summary}`;
+
+  if (lowResImages.length > 0) {
+    const worst = lowResImages.reduce((a, b) => (b.effective_ppi < a.effective_ppi ? b : a));
+    recommendations.push(`Replace ${lowResImages.length} image${lowResImages.length === 1 ? '' : 's'} below 300 PPI at placed size (worst: page ${worst.page}).`);
+  }
+
+  const missingTrim = pdf.pages.filter((p) => !p.trim_box).length;
+  const missingBleed = pdf.pages.filter((p) => p.bleed_in <= 0).length;
+  if (missingBleed > 0) {
+    score -= 5;
+    recommendations.push('Export with 0.125" bleed and trim marks so artwork can extend past the cut line.');
+  }
+  if (!pdf.output_intent) {
+    score -= 5;
+    recommendations.push('Export as PDF/X-1a or PDF/X-4 to embed a print output intent.');
+  }
+
+  // Fonts the printer can't render faithfully, and text too small to print
+  const failedFonts = pdf.fonts.filter((f) => f.verdict === 'fail');
+  const type3Fonts = failedFonts.filter((f) => f.type === 'Type3');
+  const missingFonts = failedFonts.filter((f) => f.type !== 'Type3');
+  if (failedFonts.length > 0) {
+    score -= Math.min(15, failedFonts.length * 5);
+  }
+  if (missingFonts.length > 0) {
+    recommendations.push(`Embed all fonts, or convert text to outlines (${missingFonts.map((f) => f.name).join(', ')}).`);
+  }
+  if (type3Fonts.length > 0) {
+    recommendations.push(`Replace Type 3 fonts with OpenType or TrueType fonts (${type3Fonts.map((f) => f.name).join(', ')}).`);
+  }
+  const smallPages = smallTextPages(pdf);
+  if (smallPages.length > 0) {
+    score -= 5;
+    recommendations.push(`Enlarge text to at least ${MIN_TEXT_PT} pt (${pageList(smallPages)}).`);
+  }
+  score = Math.max(0, Math.min(100, score));
+
+  const resolutionIssue = minPpi === null
+    ? `Vector-only artwork, no placed raster images. Page size ${trimSize}.`
+    : `${imageCount} placed image${imageCount === 1 ? '' : 's'}, lowest effective resolution ${minPpi} PPI. Max print: ${maxWidthIn.toFixed(1)} × ${maxHeightIn.toFixed(1)} inches at 300 DPI.`;
+
+  const boxNotes = [
+    missingTrim > 0 ? `${missingTrim} page${missingTrim === 1 ? '' : 's'} without TrimBox` : 'TrimBox set',
+    missingBleed > 0 ? `${missingBleed} page${missingBleed === 1 ? '' : 's'} without bleed` : `${(firstPage?.bleed_in ?? 0).toFixed(3)}" bleed`,
+  ];
+  const intent = pdf.output_intent
+    ? `output intent ${pdf.output_intent.condition || pdf.output_intent.subtype}`
+    : 'no output intent';
+
+  return {
+    score,
+    tier: tierForScore(score),
+    summary,
+    resolutionIssue,
+    colorIssue: pdf.output_intent
+      ? `Output intent: ${pdf.output_intent.condition || pdf.output_intent.subtype}${pdf.output_intent.has_profile ? ' (ICC profile embedded)' : ''}.`
+      : 'No output intent. Color conversion will depend on the printer\'s defaults.',
+    layoutIssue: `Trim size ${trimSize}; ${boxNotes.join(', ')}.`,
+    formatIssue: `PDF ${pdf.version}, ${pdf.page_count} page${pdf.page_count === 1 ? '' : 's'}, ${intent}. ${describeTypography(pdf)}`,
+    printSizeMax: `${maxWidthIn.toFixed(1)} × ${maxHeightIn.toFixed(1)} inches`,
+    sharpness: 'Not assessed for PDFs',
+    compressionArtifacts: 'Not assessed for PDFs',
+    colorProfile: pdf.output_intent?.has_profile ? 'Embedded output profile' : 'No embedded output profile',
+    recommendations,
+  };
+}
+
+// printScale is how much the artwork is enlarged to reach the target size
+function getSvgAnalysis(svg: SvgInspection, printScale: number, maxWidthIn: number, maxHeightIn: number): AIAnalysis {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  const size = `${svg.width_in.toFixed(2)} × ${svg.height_in.toFixed(2)} in`;
+  const minPpi = svg.min_image_ppi;
+  const lowResImages = svg.images.filter((img) => img.effective_ppi < 300);
+  const liveText = svg.text_elements > 0 && !svg.fonts_embedded;
+  const thinStrokes = hairlines(svg, printScale);
+  const { rgb, cmyk, spot } = svg.colors;
+  const recommendations: string[] = [];
+
+  const placed = placedImageScore(minPpi);
+  let score = placed.score;
+  const summary = `SVG artwork with ${plural(svg.images.length, 'embedded image')}. ${placed.summary}`;
+
+  if (lowResImages.length > 0) {
+    recommendations.push(`Replace ${plural(lowResImages.length, 'embedded image')} below 300 PPI at placed size (worst: ${lowResImages[0].name}).`);
+  }
+  if (svg.linked_images.length > 0) {
+    score -= 10;
+    recommendations.push(`Embed ${plural(svg.linked_images.length, 'linked image')}; only the SVG file itself reaches the printer.`);
+  }
+  if (liveText) {
+    score -= 5;
+    recommendations.push('Convert text to outlines so the printer does not substitute fonts.');
+  }
+  if (thinStrokes > 0) {
+    score -= 5;
+    recommendations.push(`Thicken ${plural(thinStrokes, 'stroke')} to at least ${MIN_STROKE_PT} pt at print size.`);
+  }
+  if (!svg.view_box || !svg.physical_size) {
+    score -= 5;
+    recommendations.push('Set width and height in physical units (e.g. width="8.5in") along with a viewBox, so the artwork prints at its intended size.');
+  }
+  if (rgb > 0 && cmyk === 0 && spot.length === 0) {
+    score -= 5;
+    recommendations.push('Colors are RGB only; export a PDF/X with CMYK colors to control how they print.');
+  }
+  score = Math.max(0, Math.min(100, score));
+
+  const resolutionIssue = minPpi === null
+    ? `Vector-only artwork, no embedded raster images. Artwork size ${size}.`
+    : `${plural(svg.images.length, 'embedded image')}, lowest effective resolution ${minPpi} PPI. Max print: ${maxWidthIn.toFixed(1)} × ${maxHeightIn.toFixed(1)} inches at 300 DPI.`;
+
+  const colorNotes: string[] = [];
+  if (rgb > 0) colorNotes.push(plural(rgb, 'RGB color'));
+  if (cmyk > 0) colorNotes.push(plural(cmyk, 'CMYK color'));
+  if (spot.length > 0) colorNotes.push(`spot colors ${spot.join(', ')}`);
+  let colorIssue = colorNotes.length ? `${colorNotes.join(', ')}.` : 'No filled or stroked colors.';
+  if (rgb > 0 && cmyk === 0 && spot.length === 0) colorIssue += ' RGB-only artwork; colors will shift when converted to CMYK.';
+  if (spot.length > 0) colorIssue += ' Spot colors print as separate inks; confirm the printer offers them, or convert them to CMYK.';
+
+  const sizeNote = svg.physical_size ? '' : ' (assumed from pixels at 96 per inch)';
+  const layoutIssue = `Artwork size ${size}${sizeNote}; ${svg.view_box ? 'viewBox set' : 'no viewBox, so it cannot be scaled reliably'}.`;
+
+  const formatNotes: string[] = [];
+  if (svg.text_elements === 0) {
+    formatNotes.push('No live text.');
+  } else {
+    const fonts = svg.fonts.length ? ` using ${svg.fonts.join(', ')}` : '';
+    formatNotes.push(`${plural(svg.text_elements, 'live text element')}${fonts}; ${svg.fonts_embedded ? 'fonts are embedded.' : 'fonts are not embedded or outlined.'}`);
+  }
+  if (svg.linked_images.length > 0) {
+    formatNotes.push(`${plural(svg.linked_images.length, 'linked image')} not included in the file: ${svg.linked_images.join(', ')}.`);
+  }
+
+  return {
+    score,
+    tier: tierForScore(score),
+    summary,
+    resolutionIssue,
+    colorIssue,
+    layoutIssue,
+    formatIssue: formatNotes.join(' '),
+    printSizeMax: `${maxWidthIn.toFixed(1)} × ${maxHeightIn.toFixed(1)} inches`,
+    sharpness: 'Not assessed for vector artwork',
+    compressionArtifacts: 'Not assessed for vector artwork',
+    colorProfile: cmyk > 0 || spot.length > 0 ? 'CMYK or spot colors specified' : 'sRGB (the SVG default)',
+    recommendations,
+  };
+}
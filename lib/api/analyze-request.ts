@@ -0,0 +1,121 @@
+import { uploadFormat, MAX_FILE_BYTES, UPLOAD_LABELS } from '../formats';
+import { findPreset, PrintPreset } from '../presets';
+import { parseTargetSize, TargetSize } from '../target-size';
+import { ApiError } from './errors';
+
+// Types
+// JSON body of POST /api/v1/analyze. Files are sent inline; the API never
+// fetches a URL on the caller's behalf.
+export interface AnalyzeJsonBody {
+  file_name: string;
+  content_base64: string;
+  // Taken from the file name when not given
+  mime_type?: string;
+  preset?: string;
+  target?: { width_in: number; height_in: number; fit?: 'crop' | 'fit' };
+}
+
+export interface AnalyzeRequest {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  preset: PrintPreset | null;
+  targetSize: TargetSize | null;
+}
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const invalid = (message: string, details?: string) => new ApiError('invalid_request', message, 400, details);
+
+async function fromForm(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (e) {
+    throw invalid('Malformed multipart body', e instanceof Error ? e.message : undefined);
+  }
+  const file = formData.get('file');
+  if (!(file instanceof File)) throw invalid('No file provided');
+
+  return {
+    buffer: Buffer.from(await file.arrayBuffer()),
+    fileName: file.name,
+    mimeType: file.type,
+    presetId: formData.get('preset') as string | null,
+    targetSize: parseTargetSize(formData),
+  };
+}
+
+async function fromJson(request: Request) {
+  let body: AnalyzeJsonBody;
+  try {
+    body = await request.json();
+  } catch (e) {
+    throw invalid('Malformed JSON body', e instanceof Error ? e.message : undefined);
+  }
+  if (typeof body !== 'object' || body === null) throw invalid('Body must be a JSON object');
+  if (typeof body.file_name !== 'string' || !body.file_name) throw invalid('file_name is required');
+  if (typeof body.content_base64 !== 'string') throw invalid('content_base64 is required');
+
+  const content = body.content_base64.replace(/\s/g, '');
+  if (!BASE64.test(content)) throw invalid('content_base64 is not valid base64');
+  // Checked before decoding so an oversized file is never copied; padding
+  // can make the estimate up to 2 bytes high
+  if (Math.floor((content.length * 3) / 4) > MAX_FILE_BYTES + 2) {
+    throw new ApiError('payload_too_large', 'File is larger than 10MB', 413);
+  }
+
+  let targetSize: TargetSize | null = null;
+  if (body.target !== undefined) {
+    const { width_in, height_in, fit = 'crop' } = body.target ?? {};
+    if (!(width_in > 0) || !(height_in > 0) || (fit !== 'crop' && fit !== 'fit')) {
+      throw invalid('target needs positive width_in and height_in, and fit of crop or fit');
+    }
+    targetSize = { width_in, height_in, fit };
+  }
+
+  return {
+    buffer: Buffer.from(content, 'base64'),
+    fileName: body.file_name,
+    mimeType: typeof body.mime_type === 'string' ? body.mime_type : '',
+    presetId: typeof body.preset === 'string' ? body.preset : null,
+    targetSize,
+  };
+}
+
+// Read the file and options from a multipart or JSON request to the
+// analyze endpoint
+export async function parseAnalyzeRequest(request: Request): Promise<AnalyzeRequest> {
+  const contentType = request.headers.get('content-type') ?? '';
+  let parsed: Awaited<ReturnType<typeof fromForm>>;
+  if (contentType.startsWith('multipart/form-data')) {
+    parsed = await fromForm(request);
+  } else if (contentType.startsWith('application/json')) {
+    parsed = await fromJson(request);
+  } else {
+    throw new ApiError('unsupported_media_type', 'Send multipart/form-data or application/json', 415);
+  }
+
+  if (parsed.buffer.length === 0) throw invalid('File is empty');
+  if (parsed.buffer.length > MAX_FILE_BYTES) {
+    throw new ApiError('payload_too_large', 'File is larger than 10MB', 413);
+  }
+
+  // HTTP clients often send a generic type, so the file extension decides
+  // when it names a supported format
+  const mimeType = uploadFormat(parsed.fileName, parsed.mimeType)?.mime_types[0];
+  if (!mimeType) {
+    throw new ApiError('unsupported_media_type', `Unsupported file type: ${parsed.fileName}`, 415, `Upload a ${UPLOAD_LABELS} file.`);
+  }
+
+  const preset = parsed.presetId ? await findPreset(parsed.presetId) : null;
+  if (parsed.presetId && !preset) throw invalid(`Unknown preset: ${parsed.presetId}`);
+
+  return {
+    buffer: parsed.buffer,
+    fileName: parsed.fileName,
+    mimeType,
+    preset,
+    targetSize: parsed.targetSize,
+  };
+}
@@ -0,0 +1,54 @@
+import { AnalysisError } from '../analysis';
+
+// Types
+export const API_ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'payload_too_large',
+  'unsupported_media_type',
+  'rate_limited',
+  'quota_exceeded',
+  'analysis_failed',
+  'internal_error',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Every v1 error response has this body
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: string;
+  };
+}
+
+// A failure the v1 API reports with the given HTTP status and error code
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly status: number,
+    readonly details?: string,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get body(): ApiErrorBody {
+    return { error: { code: this.code, message: this.message, ...(this.details && { details: this.details }) } };
+  }
+}
+
+// Anything thrown while handling a request, as an ApiError. Unexpected
+// errors are logged and reported without their message.
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof AnalysisError) {
+    return new ApiError(error.status < 500 ? 'analysis_failed' : 'internal_error', error.message, error.status, error.details);
+  }
+  console.error('API error:', error);
+  return new ApiError('internal_error', 'Internal server error', 500);
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { before, test } from 'node:test';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// The keys file path is read when the module loads
+let keys: typeof import('./keys');
+
+before(async () => {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), 'printscore-keys-')), 'api-keys.json');
+  writeFileSync(file, JSON.stringify([
+    { id: 'acme', name: 'Acme Print', key_sha256: sha256('ps_live_acme'), rate_limit_per_minute: 5, daily_quota: 50 },
+    { id: 'retired', key_sha256: sha256('ps_live_retired'), disabled: true },
+    { id: 'defaults', key_sha256: sha256('ps_live_defaults') },
+    { id: 'plaintext', key_sha256: 'ps_live_plaintext' },
+  ]));
+  process.env.PRINTSCORE_API_KEYS_PATH = file;
+  keys = await import('./keys');
+});
+
+test('a presented key is matched by its hash', async () => {
+  const key = await keys.findApiKey('ps_live_acme');
+  assert.deepEqual(key, {
+    id: 'acme',
+    name: 'Acme Print',
+    key_sha256: sha256('ps_live_acme'),
+    rate_limit_per_minute: 5,
+    daily_quota: 50,
+    disabled: false,
+  });
+});
+
+test('unknown keys and the hashes themselves are not accepted', async () => {
+  assert.equal(await keys.findApiKey('ps_live_other'), null);
+  assert.equal(await keys.findApiKey(sha256('ps_live_acme')), null);
+  assert.equal(await keys.findApiKey(''), null);
+});
+
+test('a disabled key is refused', async () => {
+  assert.equal(await keys.findApiKey('ps_live_retired'), null);
+});
+
+test('keys without limits get the defaults, and malformed entries are skipped', async () => {
+  const key = await keys.findApiKey('ps_live_defaults');
+  assert.equal(key?.name, 'defaults');
+  assert.equal(key?.rate_limit_per_minute, keys.DEFAULT_RATE_LIMIT);
+  assert.equal(key?.daily_quota, keys.DEFAULT_DAILY_QUOTA);
+
+  assert.deepEqual((await keys.loadApiKeys()).map((k) => k.id), ['acme', 'retired', 'defaults']);
+  assert.equal(await keys.findApiKey('ps_live_plaintext'), null);
+});
@@ -0,0 +1,82 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Types
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Only the hash of a key is stored; the key itself is shown once, when
+  // it is created
+  key_sha256: string;
+  // Requests per minute
+  rate_limit_per_minute: number;
+  // Analyses per UTC day
+  daily_quota: number;
+  disabled: boolean;
+}
+
+// Keys live in a JSON array, managed with `npm run api-keys`
+export const API_KEYS_PATH = process.env.PRINTSCORE_API_KEYS_PATH || path.join(process.cwd(), 'config', 'api-keys.json');
+
+// Limits for keys that don't set their own
+export const DEFAULT_RATE_LIMIT = Number(process.env.PRINTSCORE_API_RATE_LIMIT) || 60;
+export const DEFAULT_DAILY_QUOTA = Number(process.env.PRINTSCORE_API_DAILY_QUOTA) || 1000;
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+function isApiKey(value: unknown): value is Pick<ApiKey, 'id' | 'key_sha256'> & Partial<ApiKey> {
+  const k = value as ApiKey;
+  const positive = (n: unknown) => n === undefined || (typeof n === 'number' && n > 0);
+  return (
+    typeof k === 'object' && k !== null &&
+    typeof k.id === 'string' && typeof k.key_sha256 === 'string' && SHA256_HEX.test(k.key_sha256) &&
+    positive(k.rate_limit_per_minute) && positive(k.daily_quota) &&
+    (k.disabled === undefined || typeof k.disabled === 'boolean')
+  );
+}
+
+export async function loadApiKeys(): Promise<ApiKey[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(API_KEYS_PATH, 'utf8');
+  } catch {
+    // No keys configured, so the API accepts no requests
+    return [];
+  }
+
+  const keys: ApiKey[] = [];
+  try {
+    const entries: unknown = JSON.parse(raw);
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      if (isApiKey(entry)) {
+        keys.push({
+          id: entry.id,
+          name: entry.name ?? entry.id,
+          key_sha256: entry.key_sha256,
+          rate_limit_per_minute: entry.rate_limit_per_minute ?? DEFAULT_RATE_LIMIT,
+          daily_quota: entry.daily_quota ?? DEFAULT_DAILY_QUOTA,
+          disabled: entry.disabled ?? false,
+        });
+      } else {
+        console.error('Ignoring invalid API key entry:', (entry as ApiKey)?.id ?? entry);
+      }
+    }
+  } catch (e) {
+    console.error(`Failed to parse ${API_KEYS_PATH}:`, e);
+  }
+  return keys;
+}
+
+// The enabled key matching the one presented, or null
+export async function findApiKey(presented: string): Promise<ApiKey | null> {
+  const actual = Buffer.from(sha256(presented), 'hex');
+  for (const key of await loadApiKeys()) {
+    if (timingSafeEqual(Buffer.from(key.key_sha256, 'hex'), actual)) {
+      return key.disabled ? null : key;
+    }
+  }
+  return null;
+}
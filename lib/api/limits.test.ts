@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ApiKey } from './keys';
+import { consumeAnalysis, consumeRequest } from './limits';
+
+// Usage is shared per key id, so each test uses its own key
+function apiKey(id: string, limits: Partial<ApiKey> = {}): ApiKey {
+  return { id, name: id, key_sha256: '0'.repeat(64), rate_limit_per_minute: 2, daily_quota: 3, disabled: false, ...limits };
+}
+
+const MINUTE = Date.UTC(2026, 0, 15, 10, 30);
+
+test('requests past the per-minute limit are refused until the next minute', () => {
+  const key = apiKey('minute');
+  assert.deepEqual(consumeRequest(key, MINUTE), { limit: 2, remaining: 1, reset: (MINUTE + 60_000) / 1000, allowed: true });
+  assert.equal(consumeRequest(key, MINUTE + 20_000).allowed, true);
+
+  const refused = consumeRequest(key, MINUTE + 59_999);
+  assert.equal(refused.allowed, false);
+  assert.equal(refused.remaining, 0);
+
+  const next = consumeRequest(key, MINUTE + 60_000);
+  assert.equal(next.allowed, true);
+  assert.equal(next.remaining, 1);
+  assert.equal(next.reset, (MINUTE + 120_000) / 1000);
+});
+
+test('analyses past the daily quota are refused until the next UTC day', () => {
+  const key = apiKey('day');
+  const midnight = Date.UTC(2026, 0, 16);
+  for (let i = 0; i < 3; i++) assert.equal(consumeAnalysis(key, MINUTE + i * 3_600_000).allowed, true);
+
+  const refused = consumeAnalysis(key, midnight - 1);
+  assert.equal(refused.allowed, false);
+  assert.equal(refused.remaining, 0);
+  assert.equal(refused.reset, midnight / 1000);
+
+  const next = consumeAnalysis(key, midnight);
+  assert.equal(next.allowed, true);
+  assert.equal(next.remaining, 2);
+});
+
+test('the minute limit and the daily quota are counted separately', () => {
+  const key = apiKey('both', { rate_limit_per_minute: 1, daily_quota: 1 });
+  assert.equal(consumeRequest(key, MINUTE).allowed, true);
+  assert.equal(consumeAnalysis(key, MINUTE).allowed, true);
+  assert.equal(consumeRequest(key, MINUTE + 1).allowed, false);
+
+  // A new minute frees requests but not the day's quota
+  assert.equal(consumeRequest(key, MINUTE + 60_000).allowed, true);
+  assert.equal(consumeAnalysis(key, MINUTE + 60_000).allowed, false);
+});
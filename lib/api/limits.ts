@@ -0,0 +1,73 @@
+import type { ApiKey } from './keys';
+
+// Types
+export interface LimitState {
+  limit: number;
+  remaining: number;
+  // When the window resets, in Unix seconds
+  reset: number;
+  // Whether this request was allowed; refused requests aren't counted
+  allowed: boolean;
+}
+
+interface Usage {
+  // Start of the current minute and of the current UTC day, in ms
+  minute: number;
+  minute_count: number;
+  day: number;
+  day_count: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Counters are kept in memory, so every server process enforces the limits
+// on its own. Kept on globalThis so every route shares one store, including
+// across dev-server module reloads.
+const globalStore = globalThis as typeof globalThis & { printscoreApiUsage?: Map<string, Usage> };
+const usage = (globalStore.printscoreApiUsage ??= new Map<string, Usage>());
+
+function usageFor(key: ApiKey, now: number): Usage {
+  const minute = now - (now % MINUTE_MS);
+  const day = now - (now % DAY_MS);
+  let entry = usage.get(key.id);
+  if (!entry) {
+    entry = { minute, minute_count: 0, day, day_count: 0 };
+    usage.set(key.id, entry);
+  }
+  if (entry.minute !== minute) {
+    entry.minute = minute;
+    entry.minute_count = 0;
+  }
+  if (entry.day !== day) {
+    entry.day = day;
+    entry.day_count = 0;
+  }
+  return entry;
+}
+
+// Count one request against the key's per-minute limit
+export function consumeRequest(key: ApiKey, now = Date.now()): LimitState {
+  const entry = usageFor(key, now);
+  const allowed = entry.minute_count < key.rate_limit_per_minute;
+  if (allowed) entry.minute_count++;
+  return {
+    limit: key.rate_limit_per_minute,
+    remaining: key.rate_limit_per_minute - entry.minute_count,
+    reset: Math.ceil((entry.minute + MINUTE_MS) / 1000),
+    allowed,
+  };
+}
+
+// Count one analysis against the key's daily quota
+export function consumeAnalysis(key: ApiKey, now = Date.now()): LimitState {
+  const entry = usageFor(key, now);
+  const allowed = entry.day_count < key.daily_quota;
+  if (allowed) entry.day_count++;
+  return {
+    limit: key.daily_quota,
+    remaining: key.daily_quota - entry.day_count,
+    reset: Math.ceil((entry.day + DAY_MS) / 1000),
+    allowed,
+  };
+}
@@ -0,0 +1,169 @@
+import { obj, RESULT_SCHEMA } from '../export/schema';
+import { MAX_FILE_BYTES, UPLOAD_LABELS } from '../formats';
+import { loadPresets } from '../presets';
+import { API_ERROR_CODES } from './errors';
+import { DEFAULT_DAILY_QUOTA, DEFAULT_RATE_LIMIT } from './keys';
+
+export const API_VERSION = '1.0.0';
+
+const str = { type: 'string' };
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const limitHeaders = (prefix: string, window: string) => ({
+  [`X-${prefix}-Limit`]: { description: `Allowed per ${window}`, schema: { type: 'integer' } },
+  [`X-${prefix}-Remaining`]: { description: `Left in the current ${window}`, schema: { type: 'integer' } },
+  [`X-${prefix}-Reset`]: { description: 'When the window resets, in Unix seconds', schema: { type: 'integer' } },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+// Responses every authenticated operation can return
+const commonErrors = {
+  401: errorResponse('Missing or invalid API key'),
+  429: {
+    ...errorResponse('Rate limit or daily quota exceeded'),
+    headers: { 'Retry-After': { description: 'Seconds until the limit resets', schema: { type: 'integer' } } },
+  },
+  500: errorResponse('Internal server error'),
+};
+
+const reportIdParam = { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^[A-Za-z0-9_-]{22}$' } };
+
+// OpenAPI 3.1 description of the v1 API. Built per request so the preset
+// list matches the configured presets.
+export async function buildOpenApiDocument(serverUrl: string) {
+  const presetIds = (await loadPresets()).map((p) => p.id);
+  const target = obj(
+    { width_in: { type: 'number', exclusiveMinimum: 0 }, height_in: { type: 'number', exclusiveMinimum: 0 }, fit: { enum: ['crop', 'fit'], default: 'crop' } },
+    ['fit'],
+  );
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'PrintScore API',
+      version: API_VERSION,
+      description: [
+        'Scores how well artwork will print.',
+        '',
+        'Every request needs an API key, sent as `Authorization: Bearer <key>` or in `X-API-Key`.',
+        `Keys are limited to ${DEFAULT_RATE_LIMIT} requests per minute and ${DEFAULT_DAILY_QUOTA} analyses per UTC day unless configured otherwise;`,
+        'the X-RateLimit-* and X-Quota-* headers report what is left.',
+      ].join('\n'),
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      '/api/v1/analyze': {
+        post: {
+          operationId: 'analyzeFile',
+          summary: `Analyze a ${UPLOAD_LABELS} file`,
+          description: `Files up to ${MAX_FILE_BYTES / 1024 / 1024}MB. The result is stored for later retrieval; a preset takes precedence over a target size.`,
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: obj(
+                  {
+                    file: { type: 'string', format: 'binary' },
+                    preset: { enum: presetIds },
+                    target_width_in: { type: 'number', exclusiveMinimum: 0 },
+                    target_height_in: { type: 'number', exclusiveMinimum: 0 },
+                    fit: { enum: ['crop', 'fit'], default: 'crop' },
+                  },
+                  ['preset', 'target_width_in', 'target_height_in', 'fit'],
+                ),
+              },
+              'application/json': {
+                schema: obj(
+                  {
+                    file_name: { type: 'string', minLength: 1 },
+                    content_base64: { type: 'string', contentEncoding: 'base64' },
+                    mime_type: str,
+                    preset: { enum: presetIds },
+                    target,
+                  },
+                  ['mime_type', 'preset', 'target'],
+                ),
+              },
+            },
+          },
+          responses: {
+            200: {
+              description: 'Analysis result',
+              headers: { ...limitHeaders('RateLimit', 'minute'), ...limitHeaders('Quota', 'day') },
+              content: { 'application/json': { schema: ref('AnalysisResult') } },
+            },
+            400: errorResponse('Invalid request, or the file could not be analyzed'),
+            413: errorResponse('File too large'),
+            415: errorResponse('Unsupported file or body type'),
+            ...commonErrors,
+          },
+        },
+      },
+      '/api/v1/reports/{id}': {
+        get: {
+          operationId: 'getReport',
+          summary: 'Fetch a stored analysis',
+          parameters: [reportIdParam],
+          responses: {
+            200: {
+              description: 'Stored report',
+              headers: limitHeaders('RateLimit', 'minute'),
+              content: { 'application/json': { schema: ref('StoredReport') } },
+            },
+            404: errorResponse('No such report, or it expired'),
+            ...commonErrors,
+          },
+        },
+        delete: {
+          operationId: 'deleteReport',
+          summary: 'Delete a stored analysis',
+          parameters: [
+            reportIdParam,
+            { name: 'X-PrintScore-Delete-Token', in: 'header', required: true, schema: str },
+          ],
+          responses: {
+            204: { description: 'Deleted' },
+            403: errorResponse('Wrong delete token'),
+            404: errorResponse('No such report, or it expired'),
+            ...commonErrors,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: {
+        Result: RESULT_SCHEMA,
+        ReportLink: obj({ id: str, expires_at: { type: 'string', format: 'date-time' }, delete_token: str }),
+        AnalysisResult: {
+          allOf: [
+            ref('Result'),
+            // Absent when the report store was unavailable
+            obj({ report: ref('ReportLink') }, ['report']),
+          ],
+        },
+        StoredReport: obj({
+          id: str,
+          file_name: str,
+          created_at: { type: 'string', format: 'date-time' },
+          expires_at: { type: 'string', format: 'date-time' },
+          result: ref('Result'),
+        }),
+        Error: obj({
+          error: obj(
+            { code: { enum: [...API_ERROR_CODES] }, message: str, details: str },
+            ['details'],
+          ),
+        }),
+      },
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { zipSync, Zippable } from 'fflate';
+import { expandUploads, MAX_ARCHIVE_BYTES, MAX_BATCH_FILES } from './batch';
+import { MAX_FILE_BYTES } from './formats';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+function archive(name: string, entries: Zippable) {
+  return { name, buffer: Buffer.from(zipSync(entries, { level: 1 })), mimeType: 'application/zip' };
+}
+
+test('archives are replaced by their supported entries, in name order', () => {
+  const { files, skipped } = expandUploads([
+    { name: 'cover.png', buffer: Buffer.from(PNG), mimeType: 'image/png' },
+    archive('art.zip', {
+      'b/back.pdf': PNG,
+      'a/front.jpg': PNG,
+      'notes.txt': PNG,
+      '.DS_Store': PNG,
+      '__MACOSX/a/._front.jpg': PNG,
+    }),
+  ]);
+
+  assert.deepEqual(files.map((f) => [f.name, f.mimeType]), [
+    ['cover.png', 'image/png'],
+    ['a/front.jpg', 'image/jpeg'],
+    ['b/back.pdf', 'application/pdf'],
+  ]);
+  assert.deepEqual(skipped, [{ name: 'art.zip/notes.txt', reason: 'unsupported file type' }]);
+});
+
+test(`entries past ${MAX_BATCH_FILES} files, counting loose uploads, are skipped`, () => {
+  const entries: Zippable = {};
+  for (let i = 0; i < MAX_BATCH_FILES; i++) entries[`page-${String(i).padStart(2, '0')}.png`] = PNG;
+  const loose = Array.from({ length: 5 }, (_, i) => ({ name: `loose-${i}.png`, buffer: Buffer.from(PNG), mimeType: 'image/png' }));
+
+  const { files, skipped } = expandUploads([...loose, archive('pages.zip', entries)]);
+
+  assert.equal(files.length, MAX_BATCH_FILES);
+  assert.equal(skipped.length, 5);
+  assert.ok(skipped.every((s) => s.reason === `over the ${MAX_BATCH_FILES}-file limit`));
+});
+
+test('entries over the file size limit are skipped without being inflated', () => {
+  const { files, skipped } = expandUploads([
+    archive('big.zip', { 'huge.tif': new Uint8Array(MAX_FILE_BYTES + 1), 'small.png': PNG }),
+  ]);
+
+  assert.deepEqual(files.map((f) => f.name), ['small.png']);
+  assert.deepEqual(skipped, [{ name: 'big.zip/huge.tif', reason: 'larger than 10MB' }]);
+});
+
+test('entries past the uncompressed total of all archives are skipped', () => {
+  // Two archives of entries just under the per-file limit
+  const entrySize = MAX_FILE_BYTES - 1024;
+  const perArchive = Math.ceil(MAX_ARCHIVE_BYTES / entrySize / 2) + 1;
+  const zeros = new Uint8Array(entrySize);
+  const entries: Zippable = {};
+  for (let i = 0; i < perArchive; i++) entries[`scan-${i}.tif`] = zeros;
+
+  const { files, skipped } = expandUploads([archive('one.zip', entries), archive('two.zip', entries)]);
+
+  assert.equal(files.length, Math.floor(MAX_ARCHIVE_BYTES / entrySize));
+  assert.equal(files.length + skipped.length, perArchive * 2);
+  assert.ok(skipped.every((s) => s.name.startsWith('two.zip/') && s.reason === 'archives exceed 100MB uncompressed'));
+});
+
+test('loose files over the file size limit are skipped and leave room for others', () => {
+  const entries: Zippable = {};
+  for (let i = 0; i < MAX_BATCH_FILES; i++) entries[`page-${String(i).padStart(2, '0')}.png`] = PNG;
+
+  const { files, skipped } = expandUploads([
+    { name: 'huge.tif', buffer: Buffer.alloc(MAX_FILE_BYTES + 1), mimeType: 'image/tiff' },
+    archive('pages.zip', entries),
+  ]);
+
+  assert.equal(files.length, MAX_BATCH_FILES);
+  assert.deepEqual(skipped, [{ name: 'huge.tif', reason: 'larger than 10MB' }]);
+});
+
+test('an unreadable archive is skipped as a whole', () => {
+  const { files, skipped } = expandUploads([{ name: 'broken.zip', buffer: Buffer.from('not a zip'), mimeType: 'application/zip' }]);
+
+  assert.deepEqual(files, []);
+  assert.equal(skipped.length, 1);
+  assert.equal(skipped[0].name, 'broken.zip');
+});
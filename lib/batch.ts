@@ -0,0 +1,225 @@
+import path from 'path';
+import { unzipSync } from 'fflate';
+import { analyzeUpload, compactResult, AnalysisError, CompactResult } from './analysis';
+import type { PrintPreset } from './presets';
+import type { TargetSize } from './target-size';
+import { SCORE_CATEGORIES, TIERS, Tier } from './scoring';
+import { uploadFormat, MAX_FILE_BYTES } from './formats';
+
+// Types
+export interface BatchFile {
+  name: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface BatchItem {
+  name: string;
+  ok: boolean;
+  // Without images, which would make a batch of 50 assets too large to
+  // return and post back for the report
+  result?: CompactResult;
+  // Why the file could not be analyzed
+  error?: string;
+  // Lowest resolution the artwork prints at, when it can be known
+  effective_ppi: number | null;
+  // The problem costing the most points, if any
+  worst_issue: string | null;
+}
+
+// An archive entry, or a whole archive, that was not expanded
+export interface SkippedEntry {
+  // 'archive.zip/entry.png', or the archive's own name
+  name: string;
+  reason: string;
+}
+
+export interface BatchSummary {
+  count: number;
+  failed: number;
+  average_score: number | null;
+  tiers: Record<Tier, number>;
+}
+
+export interface BatchAnalysis {
+  items: BatchItem[];
+  // Files and archive entries that were not analyzed, with the reason
+  skipped: string[];
+  summary: BatchSummary;
+}
+
+export const MAX_BATCH_FILES = 50;
+// Uncompressed size of all the archive entries in one batch. Entries are
+// inflated into buffers of their declared size, so this bounds the memory
+// an archive can claim.
+export const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+// Files analyzed at the same time; each one holds several decoded copies
+export const CONCURRENCY = Math.max(1, Number(process.env.PRINTSCORE_BATCH_CONCURRENCY) || 3);
+
+// MIME type of a supported file, from its extension
+export function mimeTypeFor(name: string): string | undefined {
+  return uploadFormat(name)?.mime_types[0];
+}
+
+export function isZip(name: string, mimeType: string): boolean {
+  return /\.zip$/i.test(name) || mimeType === 'application/zip' || mimeType === 'application/x-zip-compressed';
+}
+
+// Replace ZIP archives with the supported files inside them. Folders,
+// hidden files and macOS resource forks are ignored. Files over
+// MAX_FILE_BYTES are skipped, as are entries past MAX_BATCH_FILES files or
+// MAX_ARCHIVE_BYTES, before they are inflated.
+export function expandUploads(files: BatchFile[]): { files: BatchFile[]; skipped: SkippedEntry[] } {
+  const expanded: BatchFile[] = [];
+  const skipped: SkippedEntry[] = [];
+  const loose = (file: BatchFile) => !isZip(file.name, file.mimeType) && file.buffer.length <= MAX_FILE_BYTES;
+  let accepted = files.filter(loose).length;
+  let inflatedBytes = 0;
+
+  for (const file of files) {
+    if (loose(file)) {
+      expanded.push(file);
+      continue;
+    }
+    if (!isZip(file.name, file.mimeType)) {
+      skipped.push({ name: file.name, reason: 'larger than 10MB' });
+      continue;
+    }
+
+    const skip = (entry: string, reason: string) => skipped.push({ name: `${file.name}/${entry}`, reason });
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(new Uint8Array(file.buffer), {
+        filter: (entry) => {
+          const base = path.posix.basename(entry.name);
+          if (entry.name.endsWith('/') || entry.name.startsWith('__MACOSX/') || base.startsWith('.')) return false;
+          if (!mimeTypeFor(base)) {
+            skip(entry.name, 'unsupported file type');
+            return false;
+          }
+          if (entry.originalSize > MAX_FILE_BYTES) {
+            skip(entry.name, 'larger than 10MB');
+            return false;
+          }
+          if (accepted >= MAX_BATCH_FILES) {
+            skip(entry.name, `over the ${MAX_BATCH_FILES}-file limit`);
+            return false;
+          }
+          if (inflatedBytes + entry.originalSize > MAX_ARCHIVE_BYTES) {
+            skip(entry.name, `archives exceed ${MAX_ARCHIVE_BYTES / 1024 / 1024}MB uncompressed`);
+            return false;
+          }
+          accepted++;
+          inflatedBytes += entry.originalSize;
+          return true;
+        },
+      });
+    } catch (e) {
+      skipped.push({ name: file.name, reason: e instanceof Error ? e.message : 'could not read archive' });
+      continue;
+    }
+
+    for (const [name, data] of Object.entries(entries).sort(([a], [b]) => a.localeCompare(b))) {
+      expanded.push({
+        name,
+        buffer: Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+        mimeType: mimeTypeFor(name)!,
+      });
+    }
+  }
+
+  return { files: expanded, skipped };
+}
+
+// Run fn over items with at most `limit` calls in flight, keeping order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export function effectivePpi(result: CompactResult): number | null {
+  return result.target?.effective_ppi ?? result.pdf?.min_image_ppi ?? result.svg?.min_image_ppi ?? result.image?.density_dpi ?? null;
+}
+
+// The deduction that cost the most points off the total, weighing each by
+// its category's share. Files with no deductions fall back to the first
+// recommendation.
+export function worstIssue(result: CompactResult): string | null {
+  // Missing from results stored before the scoring rubric
+  const subScores = result.sub_scores ? SCORE_CATEGORIES.map((c) => result.sub_scores[c]) : [];
+  const assessed = subScores.filter((s) => s.score !== null);
+  const totalWeight = assessed.reduce((sum, s) => sum + s.weight, 0);
+  let worst: [number, string] | null = null;
+  for (const subScore of assessed) {
+    for (const deduction of subScore.deductions) {
+      const cost = (deduction.points * subScore.weight) / totalWeight;
+      if (!worst || cost > worst[0]) worst = [cost, deduction.reason];
+    }
+  }
+  return worst?.[1] ?? result.recommendations?.[0] ?? null;
+}
+
+export function summarizeBatch(items: BatchItem[]): BatchSummary {
+  const scores = items.filter((i) => i.result).map((i) => i.result!.total_score);
+  const tiers = Object.fromEntries(TIERS.map((t) => [t, 0])) as Record<Tier, number>;
+  for (const item of items) {
+    if (item.result) tiers[item.result.tier]++;
+  }
+  return {
+    count: items.length,
+    failed: items.filter((i) => !i.ok).length,
+    average_score: scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+    tiers,
+  };
+}
+
+// Analyze every file against the same preset or target size. A file that
+// fails is reported in its row rather than failing the batch.
+export async function analyzeBatch(
+  files: BatchFile[],
+  options: { preset: PrintPreset | null; targetSize: TargetSize | null },
+): Promise<BatchAnalysis> {
+  const expansion = expandUploads(files);
+  const expanded = expansion.files;
+  const skipped = expansion.skipped.map((entry) => `${entry.name}: ${entry.reason}`);
+  if (expanded.length === 0) {
+    throw new AnalysisError('No supported files to analyze', 400, skipped.join('; ') || undefined);
+  }
+  if (expanded.length > MAX_BATCH_FILES) {
+    throw new AnalysisError(`Too many files: ${expanded.length} (max ${MAX_BATCH_FILES})`, 400);
+  }
+
+  const items = await mapWithConcurrency(expanded, CONCURRENCY, async (file): Promise<BatchItem> => {
+    try {
+      const result = await analyzeUpload({
+        buffer: file.buffer,
+        fileName: file.name,
+        mimeType: file.mimeType,
+        ...options,
+      });
+      return {
+        name: file.name,
+        ok: true,
+        result: compactResult(result),
+        effective_ppi: effectivePpi(result),
+        worst_issue: worstIssue(result),
+      };
+    } catch (e) {
+      console.error(`Batch analysis of ${file.name} failed:`, e);
+      const error = e instanceof AnalysisError && e.details
+        ? `${e.message}: ${e.details}`
+        : e instanceof Error ? e.message : 'Unknown error';
+      return { name: file.name, ok: false, error, effective_ppi: null, worst_issue: null };
+    }
+  });
+
+  return { items, skipped, summary: summarizeBatch(items) };
+}
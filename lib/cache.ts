@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Types
+export interface CacheStore<T> {
+  // Label used in logs, e.g. 'memory' or 'disk'
+  name: string;
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+interface Entry<T> {
+  value: T;
+  expires_at: number;
+}
+
+// Which store to use: 'memory', 'disk' or 'off'
+const STORE = process.env.PRINTSCORE_CACHE || 'memory';
+const DEFAULT_TTL_HOURS = 24;
+export const CACHE_TTL_MS = (Number(process.env.PRINTSCORE_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+const MAX_MEMORY_ENTRIES = Number(process.env.PRINTSCORE_CACHE_SIZE) || 500;
+// The temp directory is the only writable location on most serverless hosts
+const CACHE_DIR = process.env.PRINTSCORE_CACHE_DIR || path.join(os.tmpdir(), 'printscore-cache');
+
+// SHA-256 of the file bytes followed by everything else that changes the
+// cached value
+export function cacheKey(buffer: Buffer, parts: unknown[]): string {
+  return createHash('sha256').update(buffer).update(JSON.stringify(parts)).digest('hex');
+}
+
+// Least-recently-used entries are evicted once the store is full. Map
+// iteration order is insertion order, so a read re-inserts the entry.
+export function createMemoryStore<T>(maxEntries: number): CacheStore<T> {
+  const entries = new Map<string, Entry<T>>();
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expires_at <= Date.now()) return null;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expires_at: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+// One JSON file per key. Survives restarts and is shared by every server
+// process using the same directory.
+export function createDiskStore<T>(dir: string): CacheStore<T> {
+  const file = (key: string) => path.join(dir, `${key}.json`);
+  return {
+    name: 'disk',
+    async get(key) {
+      let entry: Entry<T>;
+      try {
+        entry = JSON.parse(await fs.readFile(file(key), 'utf8'));
+      } catch {
+        return null;
+      }
+      if (entry.expires_at <= Date.now()) {
+        await fs.rm(file(key), { force: true });
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename so a concurrent read never sees half a file
+      const tmp = `${file(key)}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ value, expires_at: Date.now() + ttlMs }));
+      await fs.rename(tmp, file(key));
+    },
+  };
+}
+
+const stores = new Map<string, CacheStore<unknown> | null>();
+
+// The configured store for a kind of value, or null when caching is off.
+// Each kind gets its own namespace (memory map or subdirectory).
+export function resolveCacheStore<T>(namespace: string): CacheStore<T> | null {
+  if (!stores.has(namespace)) {
+    let store: CacheStore<unknown> | null;
+    switch (STORE) {
+      case 'memory':
+        store = createMemoryStore(MAX_MEMORY_ENTRIES);
+        break;
+      case 'disk':
+        store = createDiskStore(path.join(CACHE_DIR, namespace));
+        break;
+      case 'off':
+        store = null;
+        break;
+      default:
+        console.error(`Unknown cache store "${STORE}"; caching is off.`);
+        store = null;
+    }
+    stores.set(namespace, store);
+  }
+  return stores.get(namespace) as CacheStore<T> | null;
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { renderExport, ExportItem } from './formats';
+
+const OPTIONS = { schema_url: 'https://example.test/schema.json' };
+
+const failed = (fileName: string, error: string): ExportItem => ({ file_name: fileName, report_id: null, error, result: null });
+
+function csvRows(items: ExportItem[]): string[] {
+  return renderExport('csv', items, OPTIONS).body.trimEnd().split('\r\n');
+}
+
+test('CSV cells that a spreadsheet would run as formulas get a leading apostrophe', () => {
+  const rows = csvRows(['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)', '\tcmd'].map((name) => failed(name, 'Bad file')));
+
+  assert.deepEqual(rows.slice(1).map((row) => row.split(',')[0]), [`"'=HYPERLINK(""x"")"`, "'+1", "'-1", "'@SUM(A1)", "'\tcmd"]);
+});
+
+test('CSV cells are quoted only when they hold a comma, quote or line break', () => {
+  const [header, row] = csvRows([failed('poster, final.png', 'Line one\nline two')]);
+  const cells = row.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+
+  assert.equal(header.split(',').length, cells.length);
+  assert.equal(cells[0], '"poster, final.png"');
+  assert.equal(cells.at(-1), '"Line one\nline two"');
+  assert.equal(cells.at(-2), '');
+});
+
+test('HTML exports escape file names and errors', () => {
+  const { body } = renderExport('html', [failed('<img src=x onerror=alert(1)>.png', 'Bad "quote" & <b>tag</b>'), failed('b.png', 'x')], OPTIONS);
+
+  assert.ok(!body.includes('<img src=x'));
+  assert.ok(body.includes('&lt;img src=x onerror=alert(1)&gt;.png'));
+  assert.ok(body.includes('Bad &quot;quote&quot; &amp; &lt;b&gt;tag&lt;/b&gt;'));
+});
@@ -0,0 +1,278 @@
+import { compactResult, CompactResult } from '../analysis';
+import { effectivePpi, worstIssue } from '../batch';
+import type { BatchAnalysis } from '../batch';
+import type { PreflightSummary } from '../preflight';
+import type { ReportArtwork } from '../report';
+import { DEFAULT_THEME, Theme, tierColor } from '../themes';
+import { EXPORT_SCHEMA_VERSION } from './schema';
+import { issueSections, metadataRows, printSizeText, targetText } from './text';
+
+// Types
+export const EXPORT_FORMATS = ['json', 'csv', 'html', 'markdown'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// One analyzed file. Batch exports have one item per file.
+export interface ExportItem {
+  file_name: string;
+  report_id: string | null;
+  error: string | null;
+  result: CompactResult | null;
+}
+
+export interface ExportOptions {
+  // Absolute URL of the published JSON Schema
+  schema_url: string;
+  theme?: Theme;
+  // Thumbnail for HTML exports of a single file
+  artwork?: ReportArtwork | null;
+  // Pass/fail verdict, included in JSON exports
+  preflight?: PreflightSummary;
+}
+
+export interface ExportFile {
+  body: string;
+  content_type: string;
+  extension: string;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Exports never carry the report's delete token or images rendered from
+// the artwork
+export function exportItem(result: CompactResult, fileName: string): ExportItem {
+  const { report, ...rest } = result;
+  return { file_name: fileName, report_id: report?.id ?? null, error: null, result: compactResult(rest) };
+}
+
+export function batchExportItems(batch: BatchAnalysis): ExportItem[] {
+  return batch.items.map((item) =>
+    item.result
+      ? exportItem(item.result, item.name)
+      : { file_name: item.name, report_id: null, error: item.error ?? 'Could not be analyzed', result: null },
+  );
+}
+
+function renderJson(items: ExportItem[], options: ExportOptions): string {
+  const document = {
+    $schema: options.schema_url,
+    schema_version: EXPORT_SCHEMA_VERSION,
+    generated_at: new Date().toISOString(),
+    items,
+    ...(options.preflight && { preflight: options.preflight }),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+// One row per file; the columns a spreadsheet user sorts and filters by
+const CSV_COLUMNS: [string, (item: ExportItem, result: CompactResult | null) => string | number | null | undefined][] = [
+  ['file_name', (item) => item.file_name],
+  ['total_score', (_, r) => r?.total_score],
+  ['tier', (_, r) => r?.tier],
+  ['ai_score', (_, r) => r?.ai_score],
+  ['width_px', (_, r) => r?.width_px],
+  ['height_px', (_, r) => r?.height_px],
+  ['file_size', (_, r) => r?.file_size],
+  ['format', (_, r) => r?.format_type],
+  ['color_space', (_, r) => r?.image?.color_space],
+  ['effective_ppi', (_, r) => r && effectivePpi(r)],
+  ['max_print_width_in', (_, r) => r?.max_print_width_in.toFixed(2)],
+  ['max_print_height_in', (_, r) => r?.max_print_height_in.toFixed(2)],
+  ['target', (_, r) => r?.target && `${r.target.width_in}x${r.target.height_in} ${r.target.fit}`],
+  ['preset', (_, r) => r?.preset?.id],
+  ['failed_checks', (_, r) => r?.checks?.filter((c) => c.status === 'fail').length],
+  ['worst_issue', (_, r) => r && worstIssue(r)],
+  ['summary', (_, r) => r?.summary],
+  ['report_id', (item) => item.report_id],
+  ['error', (item) => item.error],
+];
+
+// RFC 4180 quoting. Text that a spreadsheet would run as a formula gets a
+// leading apostrophe, since file names come from uploads.
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(items: ExportItem[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...items.map((item) => CSV_COLUMNS.map(([, value]) => csvCell(value(item, item.result)))),
+  ];
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const dataUrl = (type: string, buffer: Buffer) => `data:${type};base64,${buffer.toString('base64')}`;
+
+// Thumbnail with the trim and safe lines and any heatmaps, as inline images
+function htmlArtwork(result: CompactResult, artwork: ReportArtwork, theme: Theme): string {
+  const { palette } = theme;
+  const edges = result.edges;
+  const rect = (r: { x: number; y: number; width: number; height: number }, style: string) =>
+    `<rect x="${r.x}" y="${r.y}" width="${r.width}" height="${r.height}" ${style}/>`;
+  const overlay = edges
+    ? `<svg viewBox="0 0 ${edges.image_width} ${edges.image_height}" preserveAspectRatio="none">${[
+        rect(edges.trim_rect, `fill="none" stroke="${palette.text}" stroke-width="${edges.image_width / 300}"`),
+        rect(edges.safe_rect, `fill="none" stroke="${palette.primary}" stroke-width="${edges.image_width / 400}" stroke-dasharray="${edges.image_width / 80}"`),
+        ...[...edges.bleed_gaps, ...edges.unsafe_content].map(({ region }) => rect(region, `fill="${palette.accent}" fill-opacity="0.35"`)),
+      ].join('')}</svg>`
+    : '';
+  const image = dataUrl('image/jpeg', artwork.image);
+  const heatmaps = artwork.heatmaps
+    .map((h) => `<figure><div class="art"><img src="${image}" alt=""><img src="${dataUrl('image/png', h.image)}" alt=""></div><figcaption>${escapeHtml(h.label)}</figcaption></figure>`)
+    .join('');
+  return `<div class="artwork"><figure><div class="art"><img src="${image}" alt="Artwork">${overlay}</div></figure>${heatmaps}</div>`;
+}
+
+function htmlItem(item: ExportItem, theme: Theme, artwork: ReportArtwork | null): string {
+  const { result } = item;
+  const title = `<h2>${escapeHtml(item.file_name)}</h2>`;
+  if (!result) return `<section>${title}<p class="error">${escapeHtml(item.error ?? 'Could not be analyzed')}</p></section>`;
+
+  const color = tierColor(theme.palette, result.tier);
+  const parts = [
+    title,
+    `<p class="score"><span style="color:${color}">${result.total_score}</span> / 100 <span class="tier" style="background:${color}">${escapeHtml(result.tier)}</span></p>`,
+    `<p>${escapeHtml(result.summary)}</p>`,
+    artwork ? htmlArtwork(result, artwork, theme) : '',
+    `<table>${metadataRows(result).map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`,
+    ...issueSections(result).map((issue) => `<div class="issue"><strong>${escapeHtml(issue.title)}</strong><p>${escapeHtml(issue.content)}</p></div>`),
+  ];
+  if (result.preset && result.checks?.length) {
+    parts.push(`<h3>${escapeHtml(result.preset.name)} Checks</h3><ul class="checks">${result.checks
+      .map((c) => `<li class="${c.status}"><b>${c.status.toUpperCase()}</b> ${escapeHtml(`${c.label}: ${c.detail}`)}</li>`)
+      .join('')}</ul>`);
+  }
+  parts.push(`<p class="box">${escapeHtml(printSizeText(result))}</p>`);
+  const target = targetText(result);
+  if (target) parts.push(`<p class="box">${escapeHtml(target)}</p>`);
+  if (result.recommendations?.length) {
+    parts.push(`<h3>Recommendations</h3><ul>${result.recommendations.map((r) => `<li>${escapeHtml(r)}</li>`).join('')}</ul>`);
+  }
+  return `<section>${parts.join('\n')}</section>`;
+}
+
+// A single HTML file with inline styles and images, viewable offline
+function renderHtml(items: ExportItem[], options: ExportOptions): string {
+  const theme = options.theme ?? DEFAULT_THEME;
+  const { palette } = theme;
+  const artwork = items.length === 1 ? options.artwork ?? null : null;
+
+  const summary = items.length > 1
+    ? `<table class="summary"><tr><th>File</th><th>Score</th><th>Tier</th><th>Worst issue</th></tr>${items
+        .map((item) => {
+          const r = item.result;
+          return `<tr><td>${escapeHtml(item.file_name)}</td><td>${r ? r.total_score : '—'}</td><td>${r ? escapeHtml(r.tier) : 'Error'}</td><td>${escapeHtml((r ? worstIssue(r) : item.error) ?? 'None')}</td></tr>`;
+        })
+        .join('')}</table>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${theme.product_name} Report`)}</title>
+<style>
+body { font-family: system-ui, -apple-system, sans-serif; background: ${palette.background}; color: ${palette.text}; margin: 0; line-height: 1.5; }
+header, footer { background: #FFFFFF; padding: 16px 24px; }
+header h1 { margin: 0; color: ${palette.primary}; font-size: 24px; }
+footer { background: ${palette.primary}; font-size: 13px; }
+main { max-width: 760px; margin: 0 auto; padding: 24px; }
+section { background: #FFFFFF; border-radius: 14px; padding: 24px; margin-bottom: 24px; box-shadow: 0 4px 20px rgba(0,0,0,0.06); }
+h2 { margin-top: 0; word-break: break-all; }
+h3 { color: ${palette.primary}; }
+.score { font-size: 20px; color: #666666; }
+.score span:first-child { font-size: 48px; font-weight: 800; }
+.tier { display: inline-block; margin-left: 12px; padding: 4px 12px; border-radius: 6px; color: ${palette.text}; font-size: 16px; font-weight: 700; }
+table { border-collapse: collapse; width: 100%; margin: 16px 0; font-size: 14px; }
+th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid #E8E8E8; vertical-align: top; }
+th { color: #666666; }
+.issue { background: ${palette.background}; border-radius: 6px; padding: 10px 14px; margin: 8px 0; }
+.issue p { margin: 4px 0 0; color: #666666; }
+.checks { list-style: none; padding: 0; }
+.checks .pass b { color: ${palette.primary}; }
+.checks .fail b { color: ${palette.accent}; }
+.box { background: ${palette.background}; border-radius: 6px; padding: 10px 14px; font-weight: 600; }
+.error { color: ${palette.accent}; }
+.artwork { display: flex; flex-wrap: wrap; gap: 16px; }
+.artwork figure { margin: 0; max-width: 240px; }
+.art { position: relative; }
+.art img { display: block; width: 100%; }
+.art img + img, .art svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+figcaption { font-size: 12px; color: #666666; }
+</style>
+</head>
+<body>
+<header><h1>${escapeHtml(theme.product_name)}</h1></header>
+<main>
+${summary}
+${items.map((item) => htmlItem(item, theme, artwork)).join('\n')}
+</main>
+<footer>${escapeHtml(theme.footer_text)}<br>Generated ${escapeHtml(new Date().toUTCString())}</footer>
+</body>
+</html>
+`;
+}
+
+// Table cells and list items stay on one line
+const markdownText = (text: string) => text.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+
+function markdownItem(item: ExportItem): string {
+  const { result } = item;
+  const lines = [`## ${markdownText(item.file_name)}`, ''];
+  if (!result) return [...lines, `**Error:** ${markdownText(item.error ?? 'Could not be analyzed')}`].join('\n');
+
+  lines.push(`**Score:** ${result.total_score} / 100 (${result.tier})`, '', markdownText(result.summary), '');
+  lines.push('| Field | Value |', '| --- | --- |', ...metadataRows(result).map(([label, value]) => `| ${label} | ${markdownText(value)} |`), '');
+
+  const issues = issueSections(result);
+  if (issues.length) {
+    lines.push('### Issues', '', ...issues.map((issue) => `- **${issue.title}:** ${markdownText(issue.content)}`), '');
+  }
+  if (result.preset && result.checks?.length) {
+    lines.push(`### ${result.preset.name} Checks`, '', ...result.checks.map((c) => `- ${c.status.toUpperCase()} ${markdownText(`${c.label}: ${c.detail}`)}`), '');
+  }
+  lines.push('### Print Size', '', `- ${printSizeText(result)}`);
+  const target = targetText(result);
+  if (target) lines.push(`- ${target}`);
+  lines.push('');
+  if (result.recommendations?.length) {
+    lines.push('### Recommendations', '', ...result.recommendations.map((r) => `- ${markdownText(r)}`), '');
+  }
+  return lines.join('\n');
+}
+
+function renderMarkdown(items: ExportItem[], options: ExportOptions): string {
+  const theme = options.theme ?? DEFAULT_THEME;
+  const lines = [`# ${theme.product_name} Report`, ''];
+  if (items.length > 1) {
+    lines.push('| File | Score | Tier | Worst issue |', '| --- | --- | --- | --- |');
+    items.forEach((item) => {
+      const r = item.result;
+      lines.push(`| ${markdownText(item.file_name)} | ${r ? r.total_score : '—'} | ${r ? r.tier : 'Error'} | ${markdownText((r ? worstIssue(r) : item.error) ?? 'None')} |`);
+    });
+    lines.push('');
+  }
+  return [...lines, ...items.map(markdownItem)].join('\n').trimEnd() + '\n';
+}
+
+export function renderExport(format: ExportFormat, items: ExportItem[], options: ExportOptions): ExportFile {
+  switch (format) {
+    case 'json':
+      return { body: renderJson(items, options), content_type: 'application/json; charset=utf-8', extension: 'json' };
+    case 'csv':
+      return { body: renderCsv(items), content_type: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'html':
+      return { body: renderHtml(items, options), content_type: 'text/html; charset=utf-8', extension: 'html' };
+    case 'markdown':
+      return { body: renderMarkdown(items, options), content_type: 'text/markdown; charset=utf-8', extension: 'md' };
+  }
+}
@@ -0,0 +1,258 @@
+import { RULES } from '../preflight';
+import { PAGE_AGGREGATES, SCORE_CATEGORIES, TIERS } from '../scoring';
+
+// Version of the JSON export document. Bump it for any change that can
+// break a consumer: a removed or renamed field, or a changed type. New
+// optional fields don't need a bump.
+export const EXPORT_SCHEMA_VERSION = 2;
+
+const num = { type: 'number' };
+const int = { type: 'integer' };
+const str = { type: 'string' };
+const bool = { type: 'boolean' };
+const nullable = (schema: object) => ({ anyOf: [schema, { type: 'null' }] });
+
+export function obj(properties: Record<string, object>, optional: string[] = []) {
+  return {
+    type: 'object',
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+    properties,
+  };
+}
+
+const region = obj({ x: num, y: num, width: num, height: num });
+const edgeRegion = obj({ edge: { enum: ['top', 'right', 'bottom', 'left'] }, region });
+const pdfBox = obj({ width_in: num, height_in: num });
+const blackBuild = { enum: ['none', 'plain', 'rich', 'mixed'] };
+const placedImage = obj({
+  name: str,
+  width_px: int,
+  height_px: int,
+  placed_width_in: num,
+  placed_height_in: num,
+  effective_ppi: num,
+});
+const imageMetrics = obj({
+  sharpness: nullable(num),
+  blockiness: num,
+  posterization: num,
+  noise_sigma: num,
+  clipped_shadows_pct: num,
+  quality_score: num,
+});
+// score is null for categories that do not apply to the file type
+const subScore = obj({
+  score: nullable(num),
+  weight: num,
+  deductions: { type: 'array', items: obj({ points: num, reason: str }) },
+});
+const subScores = obj(Object.fromEntries(SCORE_CATEGORIES.map((category) => [category, subScore])));
+
+// One analysis result, without the images rendered from the artwork
+export const RESULT_SCHEMA = obj(
+  {
+    width_px: int,
+    height_px: int,
+    file_size: int,
+    format_type: str,
+    max_print_width_in: num,
+    max_print_height_in: num,
+    total_score: num,
+    sub_scores: subScores,
+    score_cap: obj({ uncapped_score: num, reasons: { type: 'array', items: str } }),
+    ai_score: num,
+    ai_provider: str,
+    ai_fallback: str,
+    cache_hit: bool,
+    tier: { enum: [...TIERS] },
+    tier_color: str,
+    summary: str,
+    issues: obj({ resolution: str, color: str, layout: str, format: str, ink: str }),
+    sharpness: str,
+    compressionArtifacts: str,
+    colorProfile: str,
+    printSizeMax: str,
+    recommendations: { type: 'array', items: str },
+    target: obj({
+      width_in: num,
+      height_in: num,
+      fit: { enum: ['crop', 'fit'] },
+      rotated: bool,
+      effective_ppi: nullable(num),
+      required_upscale: num,
+      aspect_mismatch_pct: num,
+      cropped_pct: num,
+      blank_pct: num,
+    }),
+    preset: obj({
+      id: str,
+      name: str,
+      category: str,
+      trim_width_in: num,
+      trim_height_in: num,
+      bleed_in: num,
+      safe_margin_in: num,
+      min_ppi: num,
+      color_mode: { enum: ['CMYK', 'RGB'] },
+    }),
+    checks: {
+      type: 'array',
+      items: obj({ rule: str, label: str, status: { enum: ['pass', 'fail', 'warn'] }, detail: str, penalty: num }),
+    },
+    edges: obj({
+      image_width: int,
+      image_height: int,
+      trim_rect: region,
+      safe_rect: region,
+      bleed_gaps: { type: 'array', items: edgeRegion },
+      unsafe_content: { type: 'array', items: edgeRegion },
+    }),
+    // format, compression and pages are missing from reports stored before
+    // they were added
+    image: obj({
+      width_px: int,
+      height_px: int,
+      orientation: int,
+      color_space: str,
+      icc_profile: nullable(str),
+      bit_depth: int,
+      channels: int,
+      has_alpha: bool,
+      density_dpi: nullable(num),
+      format: str,
+      compression: nullable(str),
+      pages: int,
+    }, ['format', 'compression', 'pages']),
+    metrics: imageMetrics,
+    soft_proof: obj({
+      profile: str,
+      out_of_gamut_pct: num,
+      mean_delta_e: num,
+      p99_delta_e: num,
+      max_delta_e: num,
+      width: int,
+      height: int,
+    }),
+    ink: obj({
+      limit_pct: num,
+      max_pct: num,
+      p99_pct: num,
+      over_limit_pct: num,
+      black_text_pct: num,
+      black_text: blackBuild,
+      black_area_pct: num,
+      black_area: blackBuild,
+      converted: bool,
+      width: int,
+      height: int,
+    }),
+    pdf: obj({
+      version: str,
+      page_count: int,
+      output_intent: nullable(obj({ subtype: str, condition: str, has_profile: bool })),
+      pages: {
+        type: 'array',
+        items: obj({
+          page: int,
+          media_box: pdfBox,
+          trim_box: nullable(pdfBox),
+          bleed_box: nullable(pdfBox),
+          bleed_in: num,
+          images: { type: 'array', items: placedImage },
+          min_text_pt: nullable(num),
+          small_text: int,
+        }, ['min_text_pt', 'small_text']),
+      },
+      min_image_ppi: nullable(num),
+      // fonts and the page text sizes are missing from reports stored
+      // before they were added
+      fonts: {
+        type: 'array',
+        items: obj({
+          name: str,
+          type: str,
+          embedded: bool,
+          subset: bool,
+          pages: { type: 'array', items: int },
+          verdict: { enum: ['pass', 'fail'] },
+          problem: nullable(str),
+        }),
+      },
+    }, ['fonts']),
+    page_scores: obj({
+      aggregate: { enum: [...PAGE_AGGREGATES] },
+      score: num,
+      pages_rendered: int,
+      // Page sub_scores and ai_score are missing from reports stored before
+      // the scoring rubric
+      pages: {
+        type: 'array',
+        items: obj({
+          page: int,
+          score: num,
+          sub_scores: subScores,
+          tier: { enum: [...TIERS] },
+          summary: str,
+          issues: { type: 'array', items: str },
+          ai_score: num,
+          ai_provider: str,
+          metrics: imageMetrics,
+        }, ['sub_scores', 'ai_score', 'metrics']),
+      },
+    }),
+    svg: obj({
+      width_in: num,
+      height_in: num,
+      physical_size: bool,
+      view_box: nullable({ type: 'array', items: num, minItems: 4, maxItems: 4 }),
+      images: { type: 'array', items: placedImage },
+      linked_images: { type: 'array', items: str },
+      min_image_ppi: nullable(num),
+      text_elements: int,
+      fonts: { type: 'array', items: str },
+      fonts_embedded: bool,
+      strokes: { type: 'array', items: obj({ width_pt: num, count: int }) },
+      colors: obj({ rgb: int, cmyk: int, spot: { type: 'array', items: str } }),
+    }),
+  },
+  // sub_scores is missing from reports stored before the scoring rubric
+  [
+    'sub_scores', 'score_cap', 'ai_provider', 'ai_fallback', 'cache_hit', 'tier_color', 'sharpness', 'compressionArtifacts', 'colorProfile',
+    'printSizeMax', 'recommendations', 'target', 'preset', 'checks', 'edges', 'image', 'metrics', 'soft_proof',
+    'ink', 'pdf', 'page_scores', 'svg',
+  ],
+);
+
+// JSON Schema of the document returned by /api/export?format=json. Images
+// rendered from the artwork are never part of an export.
+export const EXPORT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `printscore-export-v${EXPORT_SCHEMA_VERSION}`,
+  title: 'PrintScore analysis export',
+  ...obj({
+    $schema: str,
+    schema_version: { const: EXPORT_SCHEMA_VERSION },
+    generated_at: { type: 'string', format: 'date-time' },
+    items: {
+      type: 'array',
+      items: obj(
+        {
+          file_name: str,
+          // Permalink id when the analysis was stored
+          report_id: nullable(str),
+          // Set instead of a result when the file could not be analyzed
+          error: nullable(str),
+          result: nullable(RESULT_SCHEMA),
+        },
+      ),
+    },
+    // Set by the printscore CLI
+    preflight: obj({
+      passed: bool,
+      min_score: nullable(num),
+      fail_on: { type: 'array', items: { enum: [...RULES] } },
+      // Files that did not pass, and why
+      failures: { type: 'array', items: obj({ file_name: str, reasons: { type: 'array', items: str } }) },
+    }),
+  }, ['preflight']),
+};
@@ -0,0 +1,73 @@
+import type { CompactResult } from '../analysis';
+import { effectivePpi } from '../batch';
+
+// Plain-text pieces of a result, shared by the PDF report and the other
+// export formats so every format words things the same way
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// File facts: dimensions, size, format, color and effective PPI
+export function metadataRows(result: CompactResult): [string, string][] {
+  const { image, pdf, svg } = result;
+  const rows: [string, string][] = [];
+
+  if (pdf) {
+    const page = pdf.pages[0];
+    const trim = page?.trim_box ?? page?.media_box;
+    if (trim) {
+      rows.push(['Dimensions', `${trim.width_in} × ${trim.height_in} in, ${pdf.page_count} page${pdf.page_count === 1 ? '' : 's'}`]);
+    }
+  } else if (svg) {
+    rows.push(['Dimensions', `${svg.width_in} × ${svg.height_in} in${svg.physical_size ? '' : ' (at 96 px/in)'}`]);
+  } else if (result.width_px) {
+    rows.push(['Dimensions', `${result.width_px} × ${result.height_px} px`]);
+  }
+  rows.push(['File size', formatBytes(result.file_size)]);
+  rows.push(['Format', pdf ? `PDF ${pdf.version}` : result.format_type.toUpperCase()]);
+
+  if (image) {
+    rows.push(['Color space', image.icc_profile ? `${image.color_space} (${image.icc_profile})` : image.color_space]);
+    rows.push(['Bit depth', `${image.bit_depth}-bit${image.has_alpha ? ' with alpha' : ''}`]);
+  } else if (pdf) {
+    rows.push(['Output intent', pdf.output_intent?.condition || 'None']);
+  } else if (svg) {
+    const { rgb, cmyk, spot } = svg.colors;
+    rows.push(['Colors', [rgb && `${rgb} RGB`, cmyk && `${cmyk} CMYK`, spot.length && `spot ${spot.join(', ')}`].filter(Boolean).join(', ') || 'None']);
+    rows.push(['Live text', svg.text_elements ? `${svg.text_elements} element${svg.text_elements === 1 ? '' : 's'}` : 'None']);
+  }
+
+  const ppi = effectivePpi(result);
+  const vector = pdf ?? svg;
+  const vectorOnly = vector !== undefined && vector.min_image_ppi === null;
+  rows.push(['Effective PPI', ppi !== null ? `${ppi}` : vectorOnly ? 'Vector only' : 'Unknown']);
+  return rows;
+}
+
+
+export function issueSections(result: CompactResult): { title: string; content: string }[] {
+  return [
+    { title: 'Resolution', content: result.issues.resolution },
+    { title: 'Color Mode', content: result.issues.color },
+    { title: 'Layout', content: result.issues.layout },
+    { title: 'Format', content: result.issues.format },
+    { title: 'Ink Coverage', content: result.issues.ink },
+  ].filter((issue) => issue.content);
+}
+
+export function printSizeText(result: CompactResult): string {
+  return `Print Size Safe Range: ${result.max_print_width_in?.toFixed(1) || '?'} × ${result.max_print_height_in?.toFixed(1) || '?'} inches at 300 DPI`;
+}
+
+// Evaluation at the requested print size, or null when none was given
+export function targetText(result: CompactResult): string | null {
+  const { target } = result;
+  if (!target) return null;
+  const ppi = target.effective_ppi ?? 'vector';
+  const upscale = target.required_upscale > 1 ? `${target.required_upscale.toFixed(1)}× upscale needed` : 'no upscale needed';
+  const loss = target.fit === 'crop' ? `${target.cropped_pct}% cropped` : `${target.blank_pct}% blank`;
+  return `Target ${target.width_in} × ${target.height_in} in (${target.fit}): ${ppi} PPI, ${upscale}, ${loss}`;
+}
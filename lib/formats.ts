@@ -0,0 +1,85 @@
+import type { ImageInspection } from './image/inspect';
+
+// Types
+export type FormatId = 'png' | 'jpeg' | 'tiff' | 'webp' | 'avif' | 'heic' | 'svg' | 'pdf';
+
+export interface UploadFormat {
+  id: FormatId;
+  label: string;
+  // The canonical type first, then others browsers and HTTP clients send
+  mime_types: string[];
+  extensions: string[];
+  // Browsers can show it in an <img> for the upload preview
+  previewable: boolean;
+}
+
+// Formats accepted for analysis. Images are decoded with sharp; anything
+// the vision model can't read is transcoded before it is sent.
+export const UPLOAD_FORMATS: UploadFormat[] = [
+  { id: 'png', label: 'PNG', mime_types: ['image/png'], extensions: ['.png'], previewable: true },
+  { id: 'jpeg', label: 'JPG', mime_types: ['image/jpeg', 'image/pjpeg'], extensions: ['.jpg', '.jpeg'], previewable: true },
+  { id: 'tiff', label: 'TIFF', mime_types: ['image/tiff', 'image/x-tiff'], extensions: ['.tif', '.tiff'], previewable: false },
+  { id: 'webp', label: 'WebP', mime_types: ['image/webp'], extensions: ['.webp'], previewable: true },
+  { id: 'avif', label: 'AVIF', mime_types: ['image/avif'], extensions: ['.avif'], previewable: true },
+  { id: 'heic', label: 'HEIC', mime_types: ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'], extensions: ['.heic', '.heif'], previewable: false },
+  { id: 'svg', label: 'SVG', mime_types: ['image/svg+xml'], extensions: ['.svg', '.svgz'], previewable: true },
+  { id: 'pdf', label: 'PDF', mime_types: ['application/pdf'], extensions: ['.pdf'], previewable: false },
+];
+
+export const UPLOAD_EXTENSIONS = UPLOAD_FORMATS.flatMap((f) => f.extensions);
+
+// Largest file accepted for analysis, and the most a compressed file may
+// expand to
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+// e.g. 'PNG, JPG, TIFF, WebP, AVIF, HEIC, SVG or PDF'
+export const UPLOAD_LABELS = `${UPLOAD_FORMATS.slice(0, -1).map((f) => f.label).join(', ')} or ${UPLOAD_FORMATS[UPLOAD_FORMATS.length - 1].label}`;
+
+// TIFF compression schemes that lose no detail
+export const LOSSLESS_TIFF: Record<string, string> = {
+  none: 'Uncompressed',
+  lzw: 'LZW-compressed',
+  deflate: 'ZIP-compressed',
+  packbits: 'PackBits-compressed',
+  ccitt: 'CCITT-compressed',
+};
+
+function extension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+}
+
+// The extension decides when it names a format: browsers send no type, or
+// a generic one, for HEIC and often TIFF
+export function uploadFormat(name: string, mimeType = ''): UploadFormat | null {
+  const ext = extension(name);
+  const type = mimeType.toLowerCase();
+  return UPLOAD_FORMATS.find((f) => f.extensions.includes(ext)) ?? UPLOAD_FORMATS.find((f) => f.mime_types.includes(type)) ?? null;
+}
+
+// What print vendors make of the file format, for formats with something
+// to say beyond what the pixels show
+export function describeFormat(format: UploadFormat | null, image: ImageInspection | null): string | null {
+  const pages = image?.pages ?? 1;
+  const layers = pages > 1 ? ` Only the first of its ${pages} pages or layers was analyzed; flatten it before sending it to print.` : '';
+
+  switch (format?.id) {
+    case 'tiff': {
+      const compression = image?.compression ?? null;
+      if (compression === null) return `TIFF is accepted by print vendors.${layers}`;
+      if (LOSSLESS_TIFF[compression]) return `${LOSSLESS_TIFF[compression]} TIFF is lossless and accepted by print vendors.${layers}`;
+      if (compression === 'jpeg') return `JPEG-compressed TIFF is lossy; re-save with LZW compression to avoid artifacts.${layers}`;
+      return `TIFF with ${compression} compression can't be opened by many print workflows; re-save with LZW compression.${layers}`;
+    }
+    case 'webp':
+      return 'WebP is a web format most print vendors do not accept; convert it to TIFF, PDF or maximum-quality JPEG before ordering.';
+    case 'avif':
+      return 'AVIF is a lossy web format most print vendors do not accept; convert it to TIFF, PDF or maximum-quality JPEG before ordering.';
+    case 'heic':
+      return 'HEIC is a phone photo format most print workflows cannot open; export it as JPEG or TIFF before ordering.';
+    case 'svg':
+      return 'Most print vendors want vector artwork as a PDF with text converted to outlines rather than SVG.';
+    default:
+      return null;
+  }
+}
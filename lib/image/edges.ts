@@ -0,0 +1,268 @@
+import sharp from 'sharp';
+import { bleedSize, PrintPreset } from '../presets';
+
+// Types
+export type Edge = 'top' | 'right' | 'bottom' | 'left';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface EdgeRegion {
+  edge: Edge;
+  region: Region;
+}
+
+export interface EdgeAnalysis {
+  // Pixel size of the (auto-oriented) artwork the coordinates refer to
+  image_width: number;
+  image_height: number;
+  trim_rect: Region;
+  safe_rect: Region;
+  // White strips inside the bleed where the artwork stops short of the trim
+  bleed_gaps: EdgeRegion[];
+  // Text or high-contrast detail between the trim line and the safe line
+  unsafe_content: EdgeRegion[];
+}
+
+// Work on a downscaled copy; regions are mapped back to full resolution
+const WORKING_SIZE = 1200;
+// Paper-white: bright and nearly neutral
+const WHITE_LUMA = 245;
+const WHITE_CHROMA = 12;
+// Gradient magnitude that counts as a hard edge (text, line art)
+const STRONG_GRADIENT = 96;
+// Share of hard-edge pixels that flags a tile of the unsafe band
+const DETAIL_DENSITY = 0.05;
+
+interface Raster {
+  luma: Float32Array;
+  white: Uint8Array;
+  width: number;
+  height: number;
+}
+
+async function loadRaster(input: Buffer): Promise<{ raster: Raster; fullWidth: number; fullHeight: number }> {
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(WORKING_SIZE, WORKING_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels = info.width * info.height;
+  const luma = new Float32Array(pixels);
+  const white = new Uint8Array(pixels);
+  for (let p = 0; p < pixels; p++) {
+    const r = data[p * info.channels];
+    const g = data[p * info.channels + 1];
+    const b = data[p * info.channels + 2];
+    luma[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+    white[p] = luma[p] >= WHITE_LUMA && Math.max(r, g, b) - Math.min(r, g, b) <= WHITE_CHROMA ? 1 : 0;
+  }
+
+  // Full-resolution size after orientation
+  const meta = await sharp(input).metadata();
+  const swap = (meta.orientation ?? 1) >= 5;
+  const fullWidth = (swap ? meta.height : meta.width) ?? info.width;
+  const fullHeight = (swap ? meta.width : meta.height) ?? info.height;
+
+  return { raster: { luma, white, width: info.width, height: info.height }, fullWidth, fullHeight };
+}
+
+// Trim and safe rectangles when the artwork is scaled to cover the full
+// bleed size and centered, which is how print shops place it.
+function layoutRects(width: number, height: number, preset: PrintPreset) {
+  const full = bleedSize(preset);
+  // Match the artwork's orientation
+  const landscape = width > height;
+  const swap = landscape !== full.width_in > full.height_in && full.width_in !== full.height_in;
+  const fullW = swap ? full.height_in : full.width_in;
+  const fullH = swap ? full.width_in : full.height_in;
+  const trimW = swap ? preset.trim_height_in : preset.trim_width_in;
+  const trimH = swap ? preset.trim_width_in : preset.trim_height_in;
+
+  const pxPerIn = Math.max(width / fullW, height / fullH);
+  const cx = width / 2;
+  const cy = height / 2;
+  const rect = (w: number, h: number): Region => ({
+    x: cx - (w * pxPerIn) / 2,
+    y: cy - (h * pxPerIn) / 2,
+    width: w * pxPerIn,
+    height: h * pxPerIn,
+  });
+
+  return {
+    trim: rect(trimW, trimH),
+    safe: rect(Math.max(0, trimW - preset.safe_margin_in * 2), Math.max(0, trimH - preset.safe_margin_in * 2)),
+  };
+}
+
+// Collapse a per-position boolean mask into [start, end) runs
+function runs(mask: boolean[], minLength: number): [number, number][] {
+  const out: [number, number][] = [];
+  let start = -1;
+  for (let i = 0; i <= mask.length; i++) {
+    if (i < mask.length && mask[i]) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      if (i - start >= minLength) out.push([start, i]);
+      start = -1;
+    }
+  }
+  return out;
+}
+
+interface Band {
+  edge: Edge;
+  // Positions run along the edge; depth runs perpendicular to it
+  along: [number, number];
+  depth: [number, number];
+}
+
+// Map (position along edge, depth into band) to a pixel index
+function pixelIndex(band: Band, raster: Raster, along: number, depth: number): number {
+  const vertical = band.edge === 'left' || band.edge === 'right';
+  const x = vertical ? depth : along;
+  const y = vertical ? along : depth;
+  return y * raster.width + x;
+}
+
+function bandRegion(band: Band, from: number, to: number): Region {
+  const vertical = band.edge === 'left' || band.edge === 'right';
+  const [d0, d1] = band.depth;
+  return vertical
+    ? { x: d0, y: from, width: d1 - d0, height: to - from }
+    : { x: from, y: d0, width: to - from, height: d1 - d0 };
+}
+
+function whiteFraction(raster: Raster, band: Band, along: number): number {
+  const [d0, d1] = band.depth;
+  if (d1 <= d0) return 0;
+  let white = 0;
+  for (let d = d0; d < d1; d++) white += raster.white[pixelIndex(band, raster, along, d)];
+  return white / (d1 - d0);
+}
+
+function gradient(raster: Raster, index: number): number {
+  const { luma, width } = raster;
+  const x = index % width;
+  const y = Math.floor(index / width);
+  if (x < 1 || y < 1 || x >= width - 1 || y >= raster.height - 1) return 0;
+  return Math.abs(luma[index + 1] - luma[index - 1]) + Math.abs(luma[index + width] - luma[index - width]);
+}
+
+function clampInt(value: number, max: number) {
+  return Math.max(0, Math.min(max, Math.round(value)));
+}
+
+export async function analyzeEdges(input: Buffer, preset: PrintPreset): Promise<EdgeAnalysis> {
+  const { raster, fullWidth, fullHeight } = await loadRaster(input);
+  const { width: w, height: h } = raster;
+  const { trim, safe } = layoutRects(w, h, preset);
+
+  const tx0 = clampInt(trim.x, w);
+  const ty0 = clampInt(trim.y, h);
+  const tx1 = clampInt(trim.x + trim.width, w);
+  const ty1 = clampInt(trim.y + trim.height, h);
+  const sx0 = clampInt(safe.x, w);
+  const sy0 = clampInt(safe.y, h);
+  const sx1 = clampInt(safe.x + safe.width, w);
+  const sy1 = clampInt(safe.y + safe.height, h);
+
+  // Bleed band, a same-depth band just inside trim, and the unsafe band
+  const edges: { edge: Edge; bleed: Band; inside: Band; unsafe: Band }[] = [
+    {
+      edge: 'top',
+      bleed: { edge: 'top', along: [tx0, tx1], depth: [0, ty0] },
+      inside: { edge: 'top', along: [tx0, tx1], depth: [ty0, Math.min(h, ty0 + Math.max(ty0, 2))] },
+      unsafe: { edge: 'top', along: [tx0, tx1], depth: [ty0, sy0] },
+    },
+    {
+      edge: 'bottom',
+      bleed: { edge: 'bottom', along: [tx0, tx1], depth: [ty1, h] },
+      inside: { edge: 'bottom', along: [tx0, tx1], depth: [Math.max(0, ty1 - Math.max(h - ty1, 2)), ty1] },
+      unsafe: { edge: 'bottom', along: [tx0, tx1], depth: [sy1, ty1] },
+    },
+    {
+      edge: 'left',
+      bleed: { edge: 'left', along: [ty0, ty1], depth: [0, tx0] },
+      inside: { edge: 'left', along: [ty0, ty1], depth: [tx0, Math.min(w, tx0 + Math.max(tx0, 2))] },
+      unsafe: { edge: 'left', along: [ty0, ty1], depth: [tx0, sx0] },
+    },
+    {
+      edge: 'right',
+      bleed: { edge: 'right', along: [ty0, ty1], depth: [tx1, w] },
+      inside: { edge: 'right', along: [ty0, ty1], depth: [Math.max(0, tx1 - Math.max(w - tx1, 2)), tx1] },
+      unsafe: { edge: 'right', along: [ty0, ty1], depth: [sx1, tx1] },
+    },
+  ];
+
+  const bleed_gaps: EdgeRegion[] = [];
+  const unsafe_content: EdgeRegion[] = [];
+
+  for (const { edge, bleed, inside, unsafe } of edges) {
+    const [a0, a1] = bleed.along;
+
+    // A gap is where more than half the bleed is paper-white but the artwork
+    // just inside the trim is not: a slight mis-cut would show a white sliver.
+    if (bleed.depth[1] - bleed.depth[0] >= 1) {
+      const mask: boolean[] = [];
+      for (let a = a0; a < a1; a++) {
+        mask.push(whiteFraction(raster, bleed, a) > 0.5 && whiteFraction(raster, inside, a) < 0.5);
+      }
+      for (const [from, to] of runs(mask, 3)) {
+        bleed_gaps.push({ edge, region: bandRegion(bleed, a0 + from, a0 + to) });
+      }
+    }
+
+    // Tile the unsafe band and flag tiles dense with hard edges
+    const [d0, d1] = unsafe.depth;
+    const depth = d1 - d0;
+    if (depth >= 2) {
+      const tile = Math.max(8, depth);
+      const mask: boolean[] = [];
+      for (let t = a0; t < a1; t += tile) {
+        let strong = 0;
+        let total = 0;
+        for (let a = t; a < Math.min(a1, t + tile); a++) {
+          for (let d = d0; d < d1; d++) {
+            if (gradient(raster, pixelIndex(unsafe, raster, a, d)) > STRONG_GRADIENT) strong++;
+            total++;
+          }
+        }
+        mask.push(total > 0 && strong / total > DETAIL_DENSITY);
+      }
+      for (const [from, to] of runs(mask, 1)) {
+        unsafe_content.push({
+          edge,
+          region: bandRegion(unsafe, a0 + from * tile, Math.min(a1, a0 + to * tile)),
+        });
+      }
+    }
+  }
+
+  // Scale working-resolution coordinates back to the full image
+  const sx = fullWidth / w;
+  const sy = fullHeight / h;
+  const scale = (r: Region): Region => ({
+    x: Math.round(r.x * sx),
+    y: Math.round(r.y * sy),
+    width: Math.round(r.width * sx),
+    height: Math.round(r.height * sy),
+  });
+  const scaleEdge = (e: EdgeRegion): EdgeRegion => ({ edge: e.edge, region: scale(e.region) });
+
+  return {
+    image_width: fullWidth,
+    image_height: fullHeight,
+    trim_rect: scale(trim),
+    safe_rect: scale(safe),
+    bleed_gaps: bleed_gaps.map(scaleEdge),
+    unsafe_content: unsafe_content.map(scaleEdge),
+  };
+}
@@ -0,0 +1,132 @@
+import sharp from 'sharp';
+import { aspectMatches, bleedSize, ColorMode, PrintPreset } from '../presets';
+import type { CmykProfile } from './profiles';
+
+// Types
+export type FixFormat = 'tiff' | 'jpeg';
+
+export interface FixOptions {
+  format: FixFormat;
+  // Color transparent areas are flattened onto
+  background: string;
+  // Defaults to the preset's color mode
+  color_mode?: ColorMode;
+  profile: CmykProfile;
+}
+
+export interface FixedFile {
+  buffer: Buffer;
+  mime_type: string;
+  extension: string;
+  width_px: number;
+  height_px: number;
+  ppi: number;
+  // How much the source pixels were enlarged by interpolation; 1 when
+  // they were not
+  upscale: number;
+  // What was changed, in order, including the warnings
+  fixes: string[];
+  // Changes that make the file look better than it will print
+  warnings: string[];
+}
+
+const MIME_TYPES: Record<FixFormat, string> = { tiff: 'image/tiff', jpeg: 'image/jpeg' };
+const EXTENSIONS: Record<FixFormat, string> = { tiff: 'tif', jpeg: 'jpg' };
+
+// Output resolution never drops below this, even for large-format presets
+const MIN_OUTPUT_PPI = 150;
+// Density sharp renders vector input at unless told otherwise
+const VECTOR_DENSITY = 72;
+
+const fmt = (inches: number) => `${+inches.toFixed(3)}"`;
+
+// Build a print-ready file for the preset: flatten transparency, crop and
+// resample to the trim size at the preset's PPI, extend the edges into the
+// bleed, convert to the press color space and write the resolution.
+export async function fixImage(input: Buffer, preset: PrintPreset, options: FixOptions): Promise<FixedFile> {
+  const fixes: string[] = [];
+  const warnings: string[] = [];
+  const meta = await sharp(input).metadata();
+  const swapped = (meta.orientation ?? 1) >= 5;
+  const width = (swapped ? meta.height : meta.width) ?? 0;
+  const height = (swapped ? meta.width : meta.height) ?? 0;
+
+  // Match the artwork's orientation
+  const full = bleedSize(preset);
+  const landscape = width > height;
+  const swap = landscape !== full.width_in > full.height_in && full.width_in !== full.height_in;
+  const trimW = swap ? preset.trim_height_in : preset.trim_width_in;
+  const trimH = swap ? preset.trim_width_in : preset.trim_height_in;
+  const fullW = swap ? full.height_in : full.width_in;
+  const fullH = swap ? full.width_in : full.height_in;
+
+  const ppi = Math.max(preset.min_ppi, MIN_OUTPUT_PPI);
+  const bleedPx = Math.round(preset.bleed_in * ppi);
+  // Artwork already proportioned for the bleed size keeps its own edges
+  const hasBleed = preset.bleed_in > 0 && aspectMatches(width, height, fullW, fullH);
+  const coverW = Math.round((hasBleed ? fullW : trimW) * ppi);
+  const coverH = Math.round((hasBleed ? fullH : trimH) * ppi);
+
+  // Vector artwork is rendered straight at the output size rather than
+  // rendered small and enlarged
+  const density = meta.format === 'svg'
+    ? Math.ceil(VECTOR_DENSITY * Math.max(coverW / width, coverH / height))
+    : undefined;
+  let pipeline = sharp(input, density ? { density } : {}).rotate();
+  if (density) fixes.push(`Rendered the vector artwork at ${ppi} PPI.`);
+
+  if (meta.hasAlpha) {
+    pipeline = pipeline.flatten({ background: options.background });
+    fixes.push(`Flattened transparency onto ${options.background}.`);
+  }
+
+  if (!aspectMatches(width, height, hasBleed ? fullW : trimW, hasBleed ? fullH : trimH)) {
+    fixes.push(`Cropped to ${trimW} × ${trimH} in proportions.`);
+  }
+  pipeline = pipeline.resize(coverW, coverH, { fit: 'cover', position: 'centre', kernel: 'lanczos3' });
+  if (!density && (width !== coverW || height !== coverH)) {
+    fixes.push(`Resampled from ${width} × ${height} to ${coverW} × ${coverH} px (${ppi} PPI).`);
+  }
+  // Enlarging adds pixels but no detail
+  const upscale = density ? 1 : Math.max(coverW / width, coverH / height);
+  if (upscale > 1) {
+    const warning = `Upscaled ${upscale.toFixed(1)}× by interpolation; this adds no detail, so the artwork still prints at ${Math.round(ppi / upscale)} PPI.`;
+    fixes.push(warning);
+    warnings.push(warning);
+  }
+
+  if (!hasBleed && bleedPx > 0) {
+    pipeline = pipeline.extend({ top: bleedPx, bottom: bleedPx, left: bleedPx, right: bleedPx, extendWith: 'mirror' });
+    fixes.push(`Added ${fmt(preset.bleed_in)} bleed by mirroring the edges.`);
+  }
+
+  // Density goes on before the profile so the profile isn't replaced
+  pipeline = pipeline.withMetadata({ density: ppi });
+  const densityFix = meta.density === undefined || Math.round(meta.density) !== ppi;
+
+  const colorMode = options.color_mode ?? preset.color_mode;
+  if (colorMode === 'CMYK') {
+    pipeline = pipeline.withIccProfile(options.profile.path);
+    fixes.push(`Converted to CMYK (${options.profile.name}).`);
+  } else {
+    pipeline = pipeline.withIccProfile('srgb');
+    fixes.push('Tagged as sRGB.');
+  }
+  if (densityFix) fixes.push(`Set resolution metadata to ${ppi} DPI.`);
+
+  const buffer = options.format === 'tiff'
+    ? await pipeline.tiff({ compression: 'lzw' }).toBuffer()
+    : await pipeline.jpeg({ quality: 95, chromaSubsampling: '4:4:4' }).toBuffer();
+
+  return {
+    buffer,
+    mime_type: MIME_TYPES[options.format],
+    extension: EXTENSIONS[options.format],
+    width_px: coverW + (hasBleed ? 0 : bleedPx * 2),
+    height_px: coverH + (hasBleed ? 0 : bleedPx * 2),
+    ppi,
+    upscale,
+    fixes,
+    warnings,
+  };
+}
@@ -0,0 +1,233 @@
+import sharp from 'sharp';
+import { CMYK_PROFILE } from './soft-proof';
+
+// Types
+export type BlackBuild = 'none' | 'plain' | 'rich' | 'mixed';
+
+export interface InkCoverage {
+  // Total area coverage limit the artwork is checked against (percent)
+  limit_pct: number;
+  max_pct: number;
+  p99_pct: number;
+  // Share of the artwork whose coverage exceeds the limit
+  over_limit_pct: number;
+  // Share of the artwork that is black text or fine line work, and how
+  // that black is built. Text should be plain 100K.
+  black_text_pct: number;
+  black_text: BlackBuild;
+  // Share of the artwork covered by solid black areas, and how that black
+  // is built. Large areas should be rich black.
+  black_area_pct: number;
+  black_area: BlackBuild;
+  // True when the artwork was separated locally from RGB
+  converted: boolean;
+  // Size of the heatmap image
+  width: number;
+  height: number;
+  // Transparent PNG marking coverage near and over the limit, as a data URL
+  heatmap_image: string;
+}
+
+// Coverage is measured on a downscaled copy
+const WORKING_SIZE = 800;
+// Most sheetfed presses accept 300-320%; newsprint is far lower
+const DEFAULT_LIMIT = 300;
+const TAC_LIMIT = Number(process.env.PRINTSCORE_TAC_LIMIT) || DEFAULT_LIMIT;
+// Coverage this far below the limit is shaded as a warning on the heatmap
+const HEATMAP_WARN_BAND = 40;
+// A pixel counts as black when K is at least this (0-255)
+const BLACK_K = 217;
+// Combined C+M+Y (0-255 each) above which a black is rich rather than plain
+const RICH_CMY = 38;
+// Black shapes that survive an opening with this radius (working pixels)
+// are solid areas; thinner ones are text and line work
+const AREA_RADIUS = 3;
+// Share of black pixels with one build needed to call the category that build
+const BUILD_MAJORITY = 0.5;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+async function separate(input: Buffer, isCmyk: boolean) {
+  // CMYK artwork is read as-is, without a round trip through RGB
+  if (isCmyk) {
+    return sharp(input)
+      .pipelineColourspace('cmyk')
+      .rotate()
+      .resize(WORKING_SIZE, WORKING_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .toColourspace('cmyk')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  }
+
+  // Anything else goes through the press profile
+  const cmyk = await sharp(input)
+    .rotate()
+    .resize(WORKING_SIZE, WORKING_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .withIccProfile(CMYK_PROFILE)
+    .tiff()
+    .toBuffer();
+
+  return sharp(cmyk)
+    .pipelineColourspace('cmyk')
+    .toColourspace('cmyk')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+}
+
+// Summed-area table of a binary mask, (width + 1) × (height + 1)
+function integral(mask: Uint8Array, width: number, height: number): Uint32Array {
+  const sat = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += mask[y * width + x];
+      sat[(y + 1) * (width + 1) + x + 1] = sat[y * (width + 1) + x + 1] + row;
+    }
+  }
+  return sat;
+}
+
+function boxSum(sat: Uint32Array, width: number, height: number, x: number, y: number, r: number): number {
+  const x0 = Math.max(0, x - r);
+  const y0 = Math.max(0, y - r);
+  const x1 = Math.min(width, x + r + 1);
+  const y1 = Math.min(height, y + r + 1);
+  const w = width + 1;
+  return sat[y1 * w + x1] - sat[y0 * w + x1] - sat[y1 * w + x0] + sat[y0 * w + x0];
+}
+
+// Morphological opening: keep black shapes at least (2r + 1) pixels across
+function openMask(mask: Uint8Array, width: number, height: number, r: number): Uint8Array {
+  const full = (2 * r + 1) ** 2;
+  const sat = integral(mask, width, height);
+  const eroded = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      eroded[y * width + x] = boxSum(sat, width, height, x, y, r) === full ? 1 : 0;
+    }
+  }
+  const erodedSat = integral(eroded, width, height);
+  const opened = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      opened[y * width + x] = mask[y * width + x] && boxSum(erodedSat, width, height, x, y, r) > 0 ? 1 : 0;
+    }
+  }
+  return opened;
+}
+
+function blackBuild(plain: number, rich: number): BlackBuild {
+  const total = plain + rich;
+  if (total === 0) return 'none';
+  if (rich / total > BUILD_MAJORITY) return 'rich';
+  if (plain / total > BUILD_MAJORITY) return 'plain';
+  return 'mixed';
+}
+
+export async function analyzeInk(input: Buffer, isCmyk: boolean): Promise<InkCoverage> {
+  const { data, info } = await separate(input, isCmyk);
+  const { width, height, channels } = info;
+  const pixels = width * height;
+
+  // Coverage histogram in whole percent (0-400)
+  const histogram = new Uint32Array(401);
+  const black = new Uint8Array(pixels);
+  const rich = new Uint8Array(pixels);
+  const heatmap = Buffer.alloc(pixels * 4);
+  let max = 0;
+  let over = 0;
+
+  for (let p = 0; p < pixels; p++) {
+    const c = data[p * channels];
+    const m = data[p * channels + 1];
+    const y = data[p * channels + 2];
+    const k = data[p * channels + 3];
+    const tac = Math.round(((c + m + y + k) / 255) * 100);
+    histogram[tac]++;
+    if (tac > max) max = tac;
+
+    if (tac > TAC_LIMIT) {
+      over++;
+      heatmap.set([0xff, 0x00, 0x8c, 200], p * 4);
+    } else if (tac > TAC_LIMIT - HEATMAP_WARN_BAND) {
+      heatmap.set([0xff, 0xe6, 0x00, 160], p * 4);
+    }
+
+    if (k >= BLACK_K) {
+      black[p] = 1;
+      rich[p] = c + m + y > RICH_CMY ? 1 : 0;
+    }
+  }
+
+  // 99th percentile from the histogram
+  let p99 = 0;
+  for (let seen = 0, t = 0; t <= 400; t++) {
+    seen += histogram[t];
+    if (seen >= pixels * 0.99) {
+      p99 = t;
+      break;
+    }
+  }
+
+  // Split black into solid areas and text / line work
+  const areas = openMask(black, width, height, AREA_RADIUS);
+  let areaPlain = 0;
+  let areaRich = 0;
+  let textPlain = 0;
+  let textRich = 0;
+  for (let p = 0; p < pixels; p++) {
+    if (!black[p]) continue;
+    if (areas[p]) {
+      if (rich[p]) areaRich++;
+      else areaPlain++;
+    } else if (rich[p]) {
+      textRich++;
+    } else {
+      textPlain++;
+    }
+  }
+
+  const heatmapPng = await sharp(heatmap, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  const pct = (count: number) => (pixels ? round((count / pixels) * 100, 2) : 0);
+
+  return {
+    limit_pct: TAC_LIMIT,
+    max_pct: max,
+    p99_pct: p99,
+    over_limit_pct: pct(over),
+    black_text_pct: pct(textPlain + textRich),
+    black_text: blackBuild(textPlain, textRich),
+    black_area_pct: pct(areaPlain + areaRich),
+    black_area: blackBuild(areaPlain, areaRich),
+    converted: !isCmyk,
+    width,
+    height,
+    heatmap_image: `data:image/png;base64,${heatmapPng.toString('base64')}`,
+  };
+}
+
+// Coverage over the limit on more than this share of the artwork is an issue
+const OVER_LIMIT_TOLERANCE_PCT = 1;
+
+export function inkProblems(ink: Omit<InkCoverage, 'heatmap_image'>): string[] {
+  const problems: string[] = [];
+  if (ink.over_limit_pct > OVER_LIMIT_TOLERANCE_PCT) {
+    problems.push(`${ink.over_limit_pct}% of the artwork exceeds ${ink.limit_pct}% total ink (max ${ink.max_pct}%); it may not dry and can be rejected by the press.`);
+  }
+  if (ink.black_text === 'rich' || ink.black_text === 'mixed') {
+    problems.push('Black text is built from rich black; small type should be 100K so it stays sharp if plates misregister.');
+  }
+  if (ink.black_area === 'plain' || ink.black_area === 'mixed') {
+    problems.push('Large black areas are plain 100K and will print as a flat dark grey; use a rich black such as 60/40/40/100.');
+  }
+  return problems;
+}
+
+export function describeInk(ink: InkCoverage): string {
+  const source = ink.converted ? ' after conversion to CMYK' : '';
+  const head = `Total ink coverage${source}: max ${ink.max_pct}%, 99th percentile ${ink.p99_pct}% (limit ${ink.limit_pct}%).`;
+  const problems = inkProblems(ink);
+  if (problems.length > 0) return `${head} ${problems.join(' ')}`;
+  return ink.black_text === 'none' && ink.black_area === 'none' ? head : `${head} Black text and areas are built correctly.`;
+}
@@ -0,0 +1,162 @@
+import sharp from 'sharp';
+
+// Types
+export interface ImageInspection {
+  // Dimensions as displayed, after applying EXIF orientation
+  width_px: number;
+  height_px: number;
+  orientation: number;
+  color_space: string;
+  icc_profile: string | null;
+  bit_depth: number;
+  channels: number;
+  has_alpha: boolean;
+  density_dpi: number | null;
+  // Container format as sharp reads it ('png', 'tiff', 'heif', 'svg', ...)
+  format: string;
+  // TIFF compression scheme, or the HEIF codec ('av1' or 'hevc')
+  compression: string | null;
+  // Pages of a multi-page TIFF or frames of an animation; only the first
+  // is analyzed
+  pages: number;
+}
+
+const BIT_DEPTHS: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  double: 64,
+};
+
+// TIFF Compression tag values
+const TIFF_COMPRESSION: Record<number, string> = {
+  1: 'none',
+  2: 'ccitt',
+  3: 'ccitt',
+  4: 'ccitt',
+  5: 'lzw',
+  6: 'jpeg',
+  7: 'jpeg',
+  8: 'deflate',
+  32773: 'packbits',
+  32946: 'deflate',
+  34712: 'jpeg2000',
+  34925: 'lzma',
+  50000: 'zstd',
+  50001: 'webp',
+};
+
+// The Compression tag of the first image in a TIFF. sharp doesn't report
+// it, so it is read from the first IFD directly. BigTIFF is not handled.
+export function tiffCompression(tiff: Buffer): string | null {
+  if (tiff.length < 8) return null;
+  const order = tiff.toString('latin1', 0, 2);
+  if (order !== 'II' && order !== 'MM') return null;
+  const le = order === 'II';
+  const u16 = (offset: number) => (le ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const u32 = (offset: number) => (le ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+  if (u16(2) !== 42) return null;
+
+  const ifd = u32(4);
+  if (ifd + 2 > tiff.length) return null;
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    if (u16(entry) === 259) {
+      const value = u16(entry + 8);
+      return TIFF_COMPRESSION[value] ?? `type ${value}`;
+    }
+  }
+  // No tag means no compression
+  return 'none';
+}
+
+// Read the profile description from an ICC profile. Handles both the v2
+// 'desc' (textDescriptionType) and v4 'mluc' (multiLocalizedUnicodeType) tags.
+export function iccDescription(icc: Buffer): string | null {
+  if (icc.length < 132) return null;
+  const tagCount = icc.readUInt32BE(128);
+
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > icc.length) break;
+    if (icc.toString('latin1', entry, entry + 4) !== 'desc') continue;
+
+    const offset = icc.readUInt32BE(entry + 4);
+    const size = icc.readUInt32BE(entry + 8);
+    if (offset + size > icc.length) return null;
+    const type = icc.toString('latin1', offset, offset + 4);
+
+    if (type === 'desc') {
+      const length = icc.readUInt32BE(offset + 8);
+      return icc.toString('latin1', offset + 12, offset + 12 + length).replace(/\0+$/, '').trim() || null;
+    }
+    if (type === 'mluc') {
+      // First record: language, country, length, offset
+      const recordLength = icc.readUInt32BE(offset + 20);
+      const recordOffset = icc.readUInt32BE(offset + 24);
+      const start = offset + recordOffset;
+      const text = icc.subarray(start, start + recordLength - (recordLength % 2));
+      // UTF-16BE → swap to LE for Node's decoder
+      const swapped = Buffer.from(text);
+      swapped.swap16();
+      return swapped.toString('utf16le').replace(/\0+$/, '').trim() || null;
+    }
+    return null;
+  }
+  return null;
+}
+
+// The ICC header's data colour space field ('RGB ', 'CMYK', 'GRAY', ...)
+function iccColorSpace(icc: Buffer): string | null {
+  return icc.length >= 20 ? icc.toString('latin1', 16, 20).trim() : null;
+}
+
+function classifyColorSpace(space: string | undefined, icc: Buffer | undefined, description: string | null): string {
+  const name = description?.toLowerCase() ?? '';
+  if (name.includes('srgb')) return 'sRGB';
+  if (name.includes('adobe rgb') || name.includes('compatible with adobe')) return 'Adobe RGB';
+  if (name.includes('display p3') || name === 'sp3c') return 'Display P3';
+  if (name.includes('prophoto')) return 'ProPhoto RGB';
+
+  const profileSpace = icc ? iccColorSpace(icc) : null;
+  if (space === 'cmyk' || profileSpace === 'CMYK') return 'CMYK';
+  if (space === 'b-w' || space === 'grey16' || profileSpace === 'GRAY') return 'Grayscale';
+  if (space === 'lab' || profileSpace === 'Lab') return 'Lab';
+  if (icc) return 'RGB (custom profile)';
+  return 'sRGB (untagged)';
+}
+
+export async function inspectImage(input: Buffer): Promise<ImageInspection> {
+  const meta = await sharp(input).metadata();
+  const orientation = meta.orientation ?? 1;
+  // Orientations 5-8 are rotated a quarter turn, so width and height swap
+  const swap = orientation >= 5;
+  const description = meta.icc ? iccDescription(meta.icc) : null;
+
+  // libheif builds without an HEVC decoder read HEIC headers but not the
+  // pixels, so make sure the image actually decodes
+  if (meta.format === 'heif' && meta.compression === 'hevc') {
+    await sharp(input).resize(16, 16, { fit: 'inside' }).raw().toBuffer();
+  }
+
+  return {
+    width_px: (swap ? meta.height : meta.width) ?? 0,
+    height_px: (swap ? meta.width : meta.height) ?? 0,
+    orientation,
+    color_space: classifyColorSpace(meta.space, meta.icc, description),
+    icc_profile: description,
+    bit_depth: BIT_DEPTHS[meta.depth ?? ''] ?? 8,
+    channels: meta.channels ?? 0,
+    has_alpha: meta.hasAlpha ?? false,
+    density_dpi: meta.density ? Math.round(meta.density) : null,
+    format: meta.format ?? 'unknown',
+    compression: meta.format === 'tiff' ? tiffCompression(input) : meta.compression ?? null,
+    pages: meta.pages ?? 1,
+  };
+}
@@ -0,0 +1,228 @@
+import sharp from 'sharp';
+
+// Types
+export interface ImageMetrics {
+  // Laplacian variance over the detailed pixels; null when the artwork is
+  // too flat (solid fills, flat-color logos) for sharpness to be judged
+  sharpness: number | null;
+  blockiness: number;
+  posterization: number;
+  noise_sigma: number;
+  clipped_shadows_pct: number;
+  quality_score: number;
+}
+
+// Pixel-level passes run on a centered crop so large images stay fast. The
+// crop origin is kept on the 8×8 grid so JPEG block boundaries line up.
+const MAX_CROP = 2048;
+// Histogram passes run on a downscaled copy of the whole image
+const HISTOGRAM_SIZE = 1024;
+// Laplacian responses weaker than this are flat color or compression noise
+const DETAIL_LAPLACIAN = 4;
+// Below this share of detailed pixels, sharpness is not assessed
+const MIN_DETAIL_SHARE = 0.005;
+
+const clamp = (value: number, min = 0, max = 100) => Math.min(max, Math.max(min, value));
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+interface Plane {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+async function lumaCrop(input: Buffer): Promise<Plane> {
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+  const cropW = Math.min(width, MAX_CROP);
+  const cropH = Math.min(height, MAX_CROP);
+  const left = Math.floor((width - cropW) / 2 / 8) * 8;
+  const top = Math.floor((height - cropH) / 2 / 8) * 8;
+
+  const { data, info } = await sharp(input)
+    .extract({ left, top, width: cropW, height: cropH })
+    .flatten({ background: '#FFFFFF' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return { data: new Uint8Array(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+}
+
+// Variance of the 4-neighbour Laplacian over pixels with detail. Blurry
+// images have few strong second derivatives, so the variance collapses.
+// Flat areas are left out, so a crisp logo on a solid background is judged
+// by its edges; artwork with almost no detail returns null.
+function laplacianVariance({ data, width, height }: Plane): number | null {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  let total = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      total++;
+      if (Math.abs(lap) < DETAIL_LAPLACIAN) continue;
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  if (total === 0 || n / total < MIN_DETAIL_SHARE) return null;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+// Ratio of the mean gradient across 8-pixel block boundaries to the mean
+// gradient inside blocks. 1.0 means no visible block grid.
+function blockiness({ data, width, height }: Plane): number {
+  let boundary = 0;
+  let boundaryN = 0;
+  let interior = 0;
+  let interiorN = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const diff = Math.abs(data[y * width + x] - data[y * width + x - 1]);
+      if (x % 8 === 0) {
+        boundary += diff;
+        boundaryN++;
+      } else {
+        interior += diff;
+        interiorN++;
+      }
+    }
+  }
+  for (let y = 1; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const diff = Math.abs(data[y * width + x] - data[(y - 1) * width + x]);
+      if (y % 8 === 0) {
+        boundary += diff;
+        boundaryN++;
+      } else {
+        interior += diff;
+        interiorN++;
+      }
+    }
+  }
+
+  if (boundaryN === 0 || interiorN === 0) return 1;
+  const interiorMean = interior / interiorN;
+  // Flat images have no gradients at all; treat them as artifact-free
+  if (interiorMean < 0.5) return 1;
+  return boundary / boundaryN / interiorMean;
+}
+
+// Immerkær's fast noise variance estimate (Laplacian-of-differences kernel)
+function noiseSigma({ data, width, height }: Plane): number {
+  if (width < 3 || height < 3) return 0;
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v =
+        data[i - width - 1] - 2 * data[i - width] + data[i - width + 1] -
+        2 * data[i - 1] + 4 * data[i] - 2 * data[i + 1] +
+        data[i + width - 1] - 2 * data[i + width] + data[i + width + 1];
+      sum += Math.abs(v);
+    }
+  }
+  return (Math.sqrt(Math.PI / 2) * sum) / (6 * (width - 2) * (height - 2));
+}
+
+// Posterized gradients leave a "comb" in the histogram: empty levels flanked
+// by populated ones. Flat-colour artwork has wide gaps instead, which this
+// deliberately ignores.
+function combRatio(histogram: Uint32Array): number {
+  let first = 0;
+  let last = histogram.length - 1;
+  while (first < last && histogram[first] === 0) first++;
+  while (last > first && histogram[last] === 0) last--;
+  if (last - first < 16) return 0;
+
+  let teeth = 0;
+  for (let i = first + 1; i < last; i++) {
+    if (histogram[i] === 0 && histogram[i - 1] > 0 && histogram[i + 1] > 0) teeth++;
+  }
+  return teeth / (last - first - 1);
+}
+
+async function histogramStats(input: Buffer) {
+  const { data, info } = await sharp(input)
+    .resize(HISTOGRAM_SIZE, HISTOGRAM_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const channels = info.channels;
+  const histograms = Array.from({ length: channels }, () => new Uint32Array(256));
+  let shadows = 0;
+  const pixels = info.width * info.height;
+
+  for (let p = 0; p < pixels; p++) {
+    let luma = 0;
+    for (let c = 0; c < channels; c++) {
+      const v = data[p * channels + c];
+      histograms[c][v]++;
+      luma += v;
+    }
+    luma /= channels;
+    // Highlights are not counted: paper white can't be told from blown detail
+    if (luma <= 2) shadows++;
+  }
+
+  const posterization = histograms.reduce((sum, h) => sum + combRatio(h), 0) / channels;
+
+  return {
+    posterization,
+    clipped_shadows_pct: (shadows / pixels) * 100,
+  };
+}
+
+// Share of the quality score each metric contributes
+export const METRIC_WEIGHTS = { sharpness: 0.4, blockiness: 0.25, posterization: 0.15, noise: 0.1, clipping: 0.1 };
+
+// Each raw metric mapped onto 0-100, or null when it can't be measured.
+// Thresholds are tuned for print-sized artwork; they are heuristics, not
+// calibrated perceptual scores.
+export function metricScores(metrics: Omit<ImageMetrics, 'quality_score'>): Record<keyof typeof METRIC_WEIGHTS, number | null> {
+  return {
+    // log scale: variance 10 → 0, 100 → 50, 1000+ → 100
+    sharpness: metrics.sharpness === null ? null : clamp(((Math.log10(Math.max(metrics.sharpness, 1)) - 1) / 2) * 100),
+    blockiness: clamp(100 - (metrics.blockiness - 1) * 200),
+    posterization: clamp(100 - metrics.posterization * 200),
+    noise: clamp(100 - Math.max(0, metrics.noise_sigma - 2) * 10),
+    clipping: clamp(100 - Math.max(0, metrics.clipped_shadows_pct - 5) * 2),
+  };
+}
+
+// Weighted mean of the metrics that could be measured
+function qualityScore(metrics: Omit<ImageMetrics, 'quality_score'>): number {
+  const scores = metricScores(metrics);
+  let sum = 0;
+  let weights = 0;
+  for (const key of Object.keys(METRIC_WEIGHTS) as (keyof typeof METRIC_WEIGHTS)[]) {
+    const score = scores[key];
+    if (score === null) continue;
+    sum += score * METRIC_WEIGHTS[key];
+    weights += METRIC_WEIGHTS[key];
+  }
+  return Math.round(sum / weights);
+}
+
+export async function computeImageMetrics(input: Buffer): Promise<ImageMetrics> {
+  const plane = await lumaCrop(input);
+  const hist = await histogramStats(input);
+  const variance = laplacianVariance(plane);
+
+  const raw = {
+    sharpness: variance === null ? null : round(variance, 1),
+    blockiness: round(blockiness(plane), 3),
+    posterization: round(hist.posterization, 3),
+    noise_sigma: round(noiseSigma(plane)),
+    clipped_shadows_pct: round(hist.clipped_shadows_pct),
+  };
+
+  return { ...raw, quality_score: qualityScore(raw) };
+}
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { iccDescription } from './inspect';
+import { CMYK_PROFILE } from './soft-proof';
+
+// Types
+export interface CmykProfile {
+  id: string;
+  name: string;
+  // File path, or a profile name libvips knows ('cmyk')
+  path: string;
+}
+
+// Additional press profiles are .icc/.icm files dropped in this directory
+const PROFILES_DIR = process.env.PRINTSCORE_PROFILES_DIR || path.join(process.cwd(), 'config', 'profiles');
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export async function listCmykProfiles(): Promise<CmykProfile[]> {
+  const profiles: CmykProfile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Press default', path: CMYK_PROFILE }];
+
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(PROFILES_DIR);
+  } catch {
+    // No profile directory configured
+  }
+
+  for (const file of files.sort()) {
+    if (!/\.ic[cm]$/i.test(file)) continue;
+    const filePath = path.join(PROFILES_DIR, file);
+    try {
+      const icc = await fs.readFile(filePath);
+      // Only output profiles for CMYK presses are useful here
+      if (icc.toString('latin1', 16, 20) !== 'CMYK') continue;
+      profiles.push({
+        id: path.basename(file, path.extname(file)),
+        name: iccDescription(icc) || file,
+        path: filePath,
+      });
+    } catch (e) {
+      console.error(`Failed to read profile ${filePath}:`, e);
+    }
+  }
+
+  return profiles;
+}
+
+export async function findCmykProfile(id: string): Promise<CmykProfile | null> {
+  return (await listCmykProfiles()).find((p) => p.id === id) ?? null;
+}
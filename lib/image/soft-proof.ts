@@ -0,0 +1,230 @@
+import sharp from 'sharp';
+import { iccDescription } from './inspect';
+
+// Types
+export interface SoftProof {
+  // Description of the CMYK press profile the proof was made with
+  profile: string;
+  // Share of pixels whose color shifts by more than the gamut threshold
+  out_of_gamut_pct: number;
+  mean_delta_e: number;
+  p99_delta_e: number;
+  max_delta_e: number;
+  // Size of the proof and heatmap images
+  width: number;
+  height: number;
+  // JPEG of the artwork as it would print, as a data URL
+  proof_image: string;
+  // Transparent PNG marking out-of-gamut pixels, as a data URL
+  heatmap_image: string;
+}
+
+// Proofs are made on a downscaled copy; color shifts don't depend on size
+const WORKING_SIZE = 800;
+// ΔE2000 above which a color change is clearly visible side by side
+const GAMUT_THRESHOLD = 3;
+// ΔE at which the heatmap reaches full intensity
+const HEATMAP_MAX = 15;
+// Resolution of the tone curve lookup table over L* 0-100
+const TONE_STEPS = 1000;
+
+// libvips ships a generic CMYK press profile; a specific press profile
+// (FOGRA39, GRACoL, ...) can be supplied as an .icc file instead.
+export const CMYK_PROFILE = process.env.PRINTSCORE_CMYK_PROFILE || 'cmyk';
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// sRGB 8-bit → linear light
+const LINEAR = new Float64Array(256).map((_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+// Convert interleaved 8-bit sRGB to CIE Lab (L, a, b per pixel)
+function toLab(rgb: Buffer, pixels: number, channels: number): Float32Array {
+  const lab = new Float32Array(pixels * 3);
+  for (let p = 0; p < pixels; p++) {
+    const r = LINEAR[rgb[p * channels]];
+    const g = LINEAR[rgb[p * channels + 1]];
+    const b = LINEAR[rgb[p * channels + 2]];
+    const fx = labF((0.4124 * r + 0.3576 * g + 0.1805 * b) / XN);
+    const fy = labF((0.2126 * r + 0.7152 * g + 0.0722 * b) / YN);
+    const fz = labF((0.0193 * r + 0.1192 * g + 0.9505 * b) / ZN);
+    lab[p * 3] = 116 * fy - 16;
+    lab[p * 3 + 1] = 500 * (fx - fy);
+    lab[p * 3 + 2] = 200 * (fy - fz);
+  }
+  return lab;
+}
+
+const DEG = Math.PI / 180;
+
+// CIEDE2000 color difference
+export function deltaE2000(l1: number, a1: number, b1: number, l2: number, a2: number, b2: number): number {
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cBar7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : (Math.atan2(b1, a1p) / DEG + 360) % 360;
+  const h2p = c2p === 0 ? 0 : (Math.atan2(b2, a2p) / DEG + 360) % 360;
+
+  const dL = l2 - l1;
+  const dC = c2p - c1p;
+  let dh = 0;
+  if (c1p * c2p !== 0) {
+    dh = h2p - h1p;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1p * c2p) * Math.sin((dh / 2) * DEG);
+
+  const lBar = (l1 + l2) / 2;
+  const cBar = (c1p + c2p) / 2;
+  let hBar = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    hBar = Math.abs(h1p - h2p) > 180 ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2 : (h1p + h2p) / 2;
+  }
+
+  const t = 1 - 0.17 * Math.cos((hBar - 30) * DEG) + 0.24 * Math.cos(2 * hBar * DEG) +
+    0.32 * Math.cos((3 * hBar + 6) * DEG) - 0.2 * Math.cos((4 * hBar - 63) * DEG);
+  const lBar50 = (lBar - 50) ** 2;
+  const sL = 1 + (0.015 * lBar50) / Math.sqrt(20 + lBar50);
+  const sC = 1 + 0.045 * cBar;
+  const sH = 1 + 0.015 * cBar * t;
+  const cBar7p = cBar ** 7;
+  const rT = -2 * Math.sqrt(cBar7p / (cBar7p + 25 ** 7)) * Math.sin(60 * Math.exp(-(((hBar - 275) / 25) ** 2)) * DEG);
+
+  const l = dL / sL;
+  const c = dC / sC;
+  const h = dH / sH;
+  return Math.sqrt(l * l + c * c + h * h + rT * c * h);
+}
+
+// Separate sRGB pixels to the press profile and bring them back to sRGB
+async function roundTrip(rgb: Buffer, width: number, height: number, channels: 1 | 2 | 3 | 4) {
+  const cmyk = await sharp(rgb, { raw: { width, height, channels } })
+    .withIccProfile(CMYK_PROFILE)
+    .tiff()
+    .toBuffer();
+  const { icc } = await sharp(cmyk).metadata();
+  const proofed = await sharp(cmyk).toColourspace('srgb').removeAlpha().raw().toBuffer();
+  return { icc, proofed };
+}
+
+// sharp converts with the perceptual intent, which remaps the whole tone
+// scale (a mid grey prints noticeably darker). Measure that curve on a grey
+// ramp so tone reproduction isn't counted as gamut loss: only the hue and
+// chroma shift beyond it is.
+let toneCurve: Promise<Float32Array> | null = null;
+
+// Proofed L* for original L* in steps of 0.1
+function loadToneCurve(): Promise<Float32Array> {
+  toneCurve ??= (async () => {
+    const ramp = Buffer.alloc(256 * 3);
+    for (let i = 0; i < 256; i++) ramp.fill(i, i * 3, i * 3 + 3);
+    const { proofed } = await roundTrip(ramp, 256, 1, 3);
+    const before = toLab(ramp, 256, 3);
+    const after = toLab(proofed, 256, 3);
+
+    // Grey levels are monotonic in L*, so walk both scales together
+    const curve = new Float32Array(TONE_STEPS + 1);
+    let hi = 1;
+    for (let s = 0; s <= TONE_STEPS; s++) {
+      const l = (s / TONE_STEPS) * 100;
+      while (hi < 255 && before[hi * 3] < l) hi++;
+      const lo = hi - 1;
+      const l0 = before[lo * 3];
+      const l1 = before[hi * 3];
+      const t = l1 > l0 ? Math.min(1, Math.max(0, (l - l0) / (l1 - l0))) : 0;
+      curve[s] = after[lo * 3] + (after[hi * 3] - after[lo * 3]) * t;
+    }
+    return curve;
+  })();
+  return toneCurve;
+}
+
+// Yellow for barely out of gamut, shading to pink for severe shifts
+function heatColor(deltaE: number): [number, number, number, number] {
+  const t = Math.min(1, (deltaE - GAMUT_THRESHOLD) / (HEATMAP_MAX - GAMUT_THRESHOLD));
+  return [255, Math.round(0xe6 * (1 - t)), Math.round(0x8c * t), Math.round(140 + 100 * t)];
+}
+
+export async function softProof(input: Buffer): Promise<SoftProof> {
+  // Artwork in sRGB, as it looks on screen
+  const { data: original, info } = await sharp(input)
+    .rotate()
+    .resize(WORKING_SIZE, WORKING_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const pixels = width * height;
+
+  const { icc, proofed } = await roundTrip(original, width, height, info.channels);
+  const tone = await loadToneCurve();
+
+  const before = toLab(original, pixels, info.channels);
+  const after = toLab(proofed, pixels, 3);
+
+  const deltas = new Float32Array(pixels);
+  const heatmap = Buffer.alloc(pixels * 4);
+  let sum = 0;
+  let max = 0;
+  let outOfGamut = 0;
+  for (let p = 0; p < pixels; p++) {
+    const i = p * 3;
+    // Saturated colors keep their lightness while neutrals follow the tone
+    // curve, so take whichever reading shifts less
+    const toned = tone[Math.round(before[i] * (TONE_STEPS / 100))];
+    const dE = Math.min(
+      deltaE2000(before[i], before[i + 1], before[i + 2], after[i], after[i + 1], after[i + 2]),
+      deltaE2000(toned, before[i + 1], before[i + 2], after[i], after[i + 1], after[i + 2]),
+    );
+    deltas[p] = dE;
+    sum += dE;
+    if (dE > max) max = dE;
+    if (dE > GAMUT_THRESHOLD) {
+      outOfGamut++;
+      heatmap.set(heatColor(dE), p * 4);
+    }
+  }
+  deltas.sort();
+
+  const proofJpeg = await sharp(proofed, { raw: { width, height, channels: 3 } }).jpeg({ quality: 85 }).toBuffer();
+  const heatmapPng = await sharp(heatmap, { raw: { width, height, channels: 4 } }).png().toBuffer();
+
+  return {
+    profile: (icc && iccDescription(icc)) || 'CMYK',
+    out_of_gamut_pct: pixels ? round((outOfGamut / pixels) * 100) : 0,
+    mean_delta_e: pixels ? round(sum / pixels) : 0,
+    p99_delta_e: pixels ? round(deltas[Math.min(pixels - 1, Math.floor(pixels * 0.99))]) : 0,
+    max_delta_e: round(max),
+    width,
+    height,
+    proof_image: `data:image/jpeg;base64,${proofJpeg.toString('base64')}`,
+    heatmap_image: `data:image/png;base64,${heatmapPng.toString('base64')}`,
+  };
+}
+
+// Plain "Delta E": the text reaches PDF reports, whose standard fonts have
+// no Greek letters
+export function describeSoftProof(proof: SoftProof): string {
+  if (proof.out_of_gamut_pct < 1) {
+    return `Colors reproduce closely in CMYK (${proof.profile}); average shift Delta E ${proof.mean_delta_e}.`;
+  }
+  return `${proof.out_of_gamut_pct}% of the artwork is outside the CMYK gamut (${proof.profile}) and will print duller; worst shift Delta E ${proof.max_delta_e}. Check saturated blues and greens in the soft proof.`;
+}
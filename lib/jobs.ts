@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import {
+  analyzeUpload,
+  AnalysisError,
+  AnalysisInput,
+  AnalysisProgress,
+  AnalysisResult,
+  AnalysisStage,
+} from './analysis';
+import { withReport } from './reports';
+
+// Types
+export type JobStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+export type JobEvent =
+  | ({ type: 'progress' } & AnalysisProgress)
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string; details?: string }
+  | { type: 'cancelled' };
+
+// What the status endpoint reports
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  // Stage currently running, or the last one reached
+  stage: AnalysisStage | null;
+  created_at: string;
+  // Result fields produced so far
+  partial: Partial<AnalysisResult>;
+  result?: AnalysisResult;
+  error?: string;
+  details?: string;
+}
+
+type JobListener = (event: JobEvent, index: number) => void;
+
+interface Job extends JobSnapshot {
+  // Events not yet dropped, replayed to subscribers that connect late.
+  // Once the job finishes only its final event is kept.
+  events: JobEvent[];
+  // Index of the first event in `events`
+  first_index: number;
+  listeners: Set<JobListener>;
+  controller: AbortController;
+}
+
+// Finished jobs are kept this long for clients that reconnect
+const JOB_TTL_MS = 10 * 60 * 1000;
+
+// Kept on globalThis so every route shares one store, including across
+// dev-server module reloads
+const globalStore = globalThis as typeof globalThis & { printscoreJobs?: Map<string, Job> };
+const jobs = (globalStore.printscoreJobs ??= new Map<string, Job>());
+
+function emit(job: Job, event: JobEvent) {
+  const index = job.first_index + job.events.push(event) - 1;
+  for (const listener of job.listeners) listener(event, index);
+}
+
+function finish(job: Job, status: Exclude<JobStatus, 'running'>, event: JobEvent) {
+  if (job.status !== 'running') return;
+  job.status = status;
+  emit(job, event);
+  job.listeners.clear();
+
+  // The final event carries everything a late subscriber needs, so the
+  // progress events are dropped now rather than with the job
+  job.first_index += job.events.length - 1;
+  job.events = job.events.slice(-1);
+  setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref();
+}
+
+export function isTerminal(event: JobEvent): boolean {
+  return event.type !== 'progress';
+}
+
+function snapshot(job: Job): JobSnapshot {
+  const { id, status, stage, created_at, partial, result, error, details } = job;
+  return { id, status, stage, created_at, partial, ...(result && { result }), ...(error && { error, details }) };
+}
+
+// Start an analysis in the background. The upload is only held by the
+// running analysis; the job keeps the result.
+export function startJob(input: Omit<AnalysisInput, 'onProgress' | 'signal'>): JobSnapshot {
+  const job: Job = {
+    id: randomUUID(),
+    status: 'running',
+    stage: null,
+    created_at: new Date().toISOString(),
+    partial: {},
+    events: [],
+    first_index: 0,
+    listeners: new Set(),
+    controller: new AbortController(),
+  };
+  jobs.set(job.id, job);
+
+  analyzeUpload({
+    ...input,
+    signal: job.controller.signal,
+    onProgress: (progress) => {
+      if (job.status !== 'running') return;
+      job.stage = progress.stage;
+      if (progress.partial) Object.assign(job.partial, progress.partial);
+      emit(job, { type: 'progress', ...progress });
+    },
+  })
+    // A job cancelled at the last moment leaves no stored report
+    .then((analysis) => (job.status === 'running' ? withReport(analysis, input.fileName) : analysis))
+    .then((result) => {
+      job.result = result;
+      finish(job, 'done', { type: 'result', result });
+    })
+    .catch((error) => {
+      if (job.controller.signal.aborted) return;
+      console.error(`Analysis job ${job.id} failed:`, error);
+      job.error = error instanceof AnalysisError ? error.message : 'Failed to analyze file';
+      job.details = error instanceof AnalysisError ? error.details : undefined;
+      finish(job, 'failed', { type: 'error', error: job.error, details: job.details });
+    });
+
+  return snapshot(job);
+}
+
+export function getJob(id: string): JobSnapshot | null {
+  const job = jobs.get(id);
+  return job ? snapshot(job) : null;
+}
+
+// Returns false when the job does not exist or has already finished
+export function cancelJob(id: string): boolean {
+  const job = jobs.get(id);
+  if (!job || job.status !== 'running') return false;
+  job.controller.abort();
+  finish(job, 'cancelled', { type: 'cancelled' });
+  return true;
+}
+
+// Replay events after `lastIndex`, then deliver new ones until the job
+// finishes. Returns null for an unknown job, else an unsubscribe function.
+export function subscribeJob(id: string, lastIndex: number, listener: JobListener): (() => void) | null {
+  const job = jobs.get(id);
+  if (!job) return null;
+
+  job.events.forEach((event, offset) => {
+    const index = job.first_index + offset;
+    if (index > lastIndex) listener(event, index);
+  });
+  if (job.status === 'running') job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,229 @@
+// Minimal PDF content stream tokenizer. It understands enough of the syntax
+// (numbers, names, strings, arrays, dictionaries and inline images) to walk
+// the operators we care about for preflight: graphics state, XObjects and text.
+
+export interface ContentName {
+  kind: 'name';
+  value: string;
+}
+
+export type ContentOperand =
+  | number
+  | string
+  | boolean
+  | null
+  | ContentName
+  | ContentOperand[]
+  | { [key: string]: ContentOperand };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+// Bare tokens that are not operands (operators and the inline image keywords)
+class Keyword {
+  constructor(readonly value: string) {}
+}
+
+const isWhitespace = (c: number) => WHITESPACE.has(c);
+const isRegular = (c: number) => !WHITESPACE.has(c) && !DELIMITERS.has(c);
+
+export function isName(operand: unknown): operand is ContentName {
+  return typeof operand === 'object' && operand !== null && (operand as ContentName).kind === 'name';
+}
+
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const operations: ContentOperation[] = [];
+  let pos = 0;
+  let operands: ContentOperand[] = [];
+
+  const skipWhitespaceAndComments = () => {
+    while (pos < bytes.length) {
+      const c = bytes[pos];
+      if (isWhitespace(c)) {
+        pos++;
+      } else if (c === 0x25) {
+        // % comment runs to end of line
+        while (pos < bytes.length && bytes[pos] !== 0x0a && bytes[pos] !== 0x0d) pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readRegular = () => {
+    const start = pos;
+    while (pos < bytes.length && isRegular(bytes[pos])) pos++;
+    return Buffer.from(bytes.subarray(start, pos)).toString('latin1');
+  };
+
+  const readLiteralString = () => {
+    // Caller has consumed the opening "("
+    let depth = 1;
+    let out = '';
+    while (pos < bytes.length) {
+      const c = bytes[pos++];
+      if (c === 0x5c) {
+        const next = bytes[pos++];
+        if (next >= 0x30 && next <= 0x37) {
+          let octal = String.fromCharCode(next);
+          for (let i = 0; i < 2 && bytes[pos] >= 0x30 && bytes[pos] <= 0x37; i++) {
+            octal += String.fromCharCode(bytes[pos++]);
+          }
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === 0x6e) out += '\n';
+        else if (next === 0x72) out += '\r';
+        else if (next === 0x74) out += '\t';
+        else if (next === 0x62) out += '\b';
+        else if (next === 0x66) out += '\f';
+        else if (next === 0x0d || next === 0x0a) {
+          if (next === 0x0d && bytes[pos] === 0x0a) pos++;
+        } else if (next !== undefined) out += String.fromCharCode(next);
+      } else if (c === 0x28) {
+        depth++;
+        out += '(';
+      } else if (c === 0x29) {
+        depth--;
+        if (depth === 0) break;
+        out += ')';
+      } else {
+        out += String.fromCharCode(c);
+      }
+    }
+    return out;
+  };
+
+  const readHexString = () => {
+    // Caller has consumed the opening "<"
+    let hex = '';
+    while (pos < bytes.length && bytes[pos] !== 0x3e) {
+      const c = bytes[pos++];
+      if (!isWhitespace(c)) hex += String.fromCharCode(c);
+    }
+    pos++;
+    if (hex.length % 2 === 1) hex += '0';
+    return Buffer.from(hex, 'hex').toString('latin1');
+  };
+
+  const readObject = (): ContentOperand | Keyword => {
+    skipWhitespaceAndComments();
+    const c = bytes[pos];
+
+    if (c === 0x2f) {
+      pos++;
+      const raw = readRegular();
+      return { kind: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16))) };
+    }
+    if (c === 0x28) {
+      pos++;
+      return readLiteralString();
+    }
+    if (c === 0x3c && bytes[pos + 1] === 0x3c) {
+      pos += 2;
+      const dict: { [key: string]: ContentOperand } = {};
+      for (;;) {
+        skipWhitespaceAndComments();
+        if (pos >= bytes.length) break;
+        if (bytes[pos] === 0x3e && bytes[pos + 1] === 0x3e) {
+          pos += 2;
+          break;
+        }
+        const key = readObject();
+        const value = readObject();
+        if (isName(key) && !(value instanceof Keyword)) dict[key.value] = value;
+      }
+      return dict;
+    }
+    if (c === 0x3c) {
+      pos++;
+      return readHexString();
+    }
+    if (c === 0x5b) {
+      pos++;
+      const arr: ContentOperand[] = [];
+      for (;;) {
+        skipWhitespaceAndComments();
+        if (pos >= bytes.length) break;
+        if (bytes[pos] === 0x5d) {
+          pos++;
+          break;
+        }
+        const item = readObject();
+        if (item instanceof Keyword) continue;
+        arr.push(item);
+      }
+      return arr;
+    }
+    if (c === 0x5d || c === 0x3e || c === 0x29 || c === 0x7b || c === 0x7d) {
+      // Stray delimiter; skip it rather than stalling
+      pos++;
+      return null;
+    }
+
+    const token = readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return parseFloat(token);
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return new Keyword(token);
+  };
+
+  const skipInlineImageData = () => {
+    // Data starts after a single whitespace following ID and ends at
+    // whitespace + "EI" + whitespace/EOF.
+    pos++;
+    while (pos < bytes.length) {
+      if (
+        bytes[pos] === 0x45 &&
+        bytes[pos + 1] === 0x49 &&
+        isWhitespace(bytes[pos - 1]) &&
+        (pos + 2 >= bytes.length || isWhitespace(bytes[pos + 2]))
+      ) {
+        pos += 2;
+        return;
+      }
+      pos++;
+    }
+  };
+
+  while (pos < bytes.length) {
+    skipWhitespaceAndComments();
+    if (pos >= bytes.length) break;
+
+    const start = pos;
+    const obj = readObject();
+    if (pos === start) {
+      pos++;
+      continue;
+    }
+
+    if (obj instanceof Keyword) {
+      if (obj.value === 'BI') {
+        // Inline image: key/value pairs up to ID, then binary data up to EI
+        const dict: { [key: string]: ContentOperand } = {};
+        for (;;) {
+          const key = readObject();
+          if (key instanceof Keyword) {
+            if (key.value === 'ID') skipInlineImageData();
+            break;
+          }
+          const value = readObject();
+          if (isName(key) && !(value instanceof Keyword)) dict[key.value] = value;
+          if (pos >= bytes.length) break;
+        }
+        operations.push({ operator: 'BI', operands: [dict] });
+      } else if (obj.value) {
+        operations.push({ operator: obj.value, operands });
+      }
+      operands = [];
+    } else {
+      operands.push(obj);
+    }
+  }
+
+  return operations;
+}
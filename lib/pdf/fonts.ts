@@ -0,0 +1,142 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFRawStream, PDFStream } from 'pdf-lib';
+import type { PdfInspection } from './inspect';
+
+// Types
+export interface PdfFont {
+  name: string;
+  // PDF font subtype; composite fonts add their descendant's, e.g.
+  // 'Type0/CIDFontType2'
+  type: string;
+  embedded: boolean;
+  // The name carries a subset tag (ABCDEF+), so only the glyphs used are
+  // embedded
+  subset: boolean;
+  // Pages that show text in the font
+  pages: number[];
+  verdict: 'pass' | 'fail';
+  // Why the font fails; null when it passes
+  problem: string | null;
+}
+
+// Smallest text most presses reproduce legibly
+export const MIN_TEXT_PT = 6;
+
+const SUBSET_TAG = /^[A-Z]{6}\+/;
+const FONT_FILES = ['FontFile', 'FontFile2', 'FontFile3'];
+// Glyph space of every font type but Type 3 is 1/1000 of text space
+const STANDARD_GLYPH_SCALE = 0.001;
+
+function dictEntry(dict: PDFDict | undefined, key: string): unknown {
+  return dict?.lookup(PDFName.of(key));
+}
+
+function nameEntry(dict: PDFDict | undefined, key: string): string {
+  const value = dictEntry(dict, key);
+  return value instanceof PDFName ? value.decodeText() : '';
+}
+
+// Inventory entry for a font dictionary, with no pages yet. resourceName
+// names fonts without a BaseFont (Type 3).
+export function readFont(dict: PDFDict, resourceName: string): PdfFont {
+  const subtype = nameEntry(dict, 'Subtype') || 'Unknown';
+  let type = subtype;
+  let descriptor = dictEntry(dict, 'FontDescriptor');
+
+  // Composite fonts keep their glyphs in the descendant font
+  if (subtype === 'Type0') {
+    const descendants = dictEntry(dict, 'DescendantFonts');
+    const descendant = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+    if (descendant instanceof PDFDict) {
+      type = `Type0/${nameEntry(descendant, 'Subtype') || 'Unknown'}`;
+      descriptor = dictEntry(descendant, 'FontDescriptor');
+    }
+  }
+
+  const baseFont = nameEntry(dict, 'BaseFont');
+  const subset = SUBSET_TAG.test(baseFont);
+  const fontFile = FONT_FILES.map((key) => dictEntry(descriptor instanceof PDFDict ? descriptor : undefined, key)).find(
+    (file): file is PDFStream => file instanceof PDFStream,
+  );
+  const emptyFile = fontFile instanceof PDFRawStream && fontFile.contents.length === 0;
+  // Type 3 glyphs are content streams inside the font dictionary itself
+  const embedded = subtype === 'Type3' || (fontFile !== undefined && !emptyFile);
+
+  let problem: string | null = null;
+  if (subtype === 'Type3') {
+    problem = 'Type 3 font; its glyphs are drawn as graphics and often print poorly';
+  } else if (emptyFile) {
+    problem = 'Embedded font data is empty';
+  } else if (subset && !embedded) {
+    problem = 'Named as a subset, but no font data is embedded';
+  } else if (!embedded) {
+    problem = 'Not embedded; the printer will substitute another font';
+  }
+
+  return {
+    name: baseFont.replace(SUBSET_TAG, '') || resourceName,
+    type,
+    embedded,
+    subset,
+    pages: [],
+    verdict: problem ? 'fail' : 'pass',
+    problem,
+  };
+}
+
+// Height of a glyph in text space per unit of font size. Type 3 fonts set
+// their own FontMatrix; glyphs are assumed to be drawn on a 1000-unit em.
+export function glyphScale(dict: PDFDict): number {
+  const matrix = dictEntry(dict, 'FontMatrix');
+  if (nameEntry(dict, 'Subtype') !== 'Type3' || !(matrix instanceof PDFArray) || matrix.size() < 4) return 1;
+  const [c, d] = [2, 3].map((i) => {
+    const value = matrix.lookup(i);
+    return value instanceof PDFNumber ? value.asNumber() : 0;
+  });
+  return Math.hypot(c, d) / STANDARD_GLYPH_SCALE || 1;
+}
+
+// e.g. 'page 3' or 'pages 1-4, 7'
+export function pageList(pages: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const start = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(pages[i] === start ? `${start}` : `${start}-${pages[i]}`);
+  }
+  return `page${pages.length === 1 ? '' : 's'} ${ranges.join(', ')}`;
+}
+
+// Smallest text in the document, in points as printed
+export function minTextSize(pdf: PdfInspection): number | null {
+  const sizes = pdf.pages.map((p) => p.min_text_pt).filter((size): size is number => size !== null);
+  return sizes.length > 0 ? Math.min(...sizes) : null;
+}
+
+// Pages with text below MIN_TEXT_PT
+export function smallTextPages(pdf: PdfInspection): number[] {
+  return pdf.pages.filter((p) => p.small_text > 0).map((p) => p.page);
+}
+
+// Font verdicts and the smallest text, for the issues and reports
+export function describeTypography(pdf: PdfInspection): string {
+  const parts: string[] = [];
+  const { fonts } = pdf;
+  const failed = fonts.filter((f) => f.verdict === 'fail');
+  const smallPages = smallTextPages(pdf);
+  const minTextPt = minTextSize(pdf);
+
+  if (fonts.length === 0) {
+    parts.push('No live text; any lettering is outlined or part of images.');
+  } else if (failed.length === 0) {
+    parts.push(`${fonts.length} font${fonts.length === 1 ? '' : 's'}, all embedded.`);
+  } else {
+    parts.push(`${failed.length} of ${fonts.length} fonts fail: ${failed.map((f) => `${f.name} (${f.problem})`).join('; ')}.`);
+  }
+
+  if (smallPages.length > 0) {
+    parts.push(`Text below ${MIN_TEXT_PT} pt on ${pageList(smallPages)} (smallest ${minTextPt} pt) may not print legibly.`);
+  } else if (minTextPt !== null) {
+    parts.push(`Smallest text ${minTextPt} pt.`);
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,410 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  PDFHexString,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { parseContentStream, isName, ContentOperand } from './content-stream';
+import { glyphScale, MIN_TEXT_PT, PdfFont, readFont } from './fonts';
+
+// Types
+export interface PdfBox {
+  width_in: number;
+  height_in: number;
+}
+
+export interface PdfImagePlacement {
+  name: string;
+  width_px: number;
+  height_px: number;
+  placed_width_in: number;
+  placed_height_in: number;
+  effective_ppi: number;
+}
+
+export interface PdfPageInfo {
+  page: number;
+  media_box: PdfBox;
+  trim_box: PdfBox | null;
+  bleed_box: PdfBox | null;
+  bleed_in: number;
+  images: PdfImagePlacement[];
+  // Smallest text shown on the page, in points as printed; null when the
+  // page has no live text
+  min_text_pt: number | null;
+  // Text-showing operations below MIN_TEXT_PT
+  small_text: number;
+}
+
+export interface PdfOutputIntent {
+  subtype: string;
+  condition: string;
+  has_profile: boolean;
+}
+
+export interface PdfInspection {
+  version: string;
+  page_count: number;
+  output_intent: PdfOutputIntent | null;
+  pages: PdfPageInfo[];
+  min_image_ppi: number | null;
+  // Fonts that show text, in order of first use
+  fonts: PdfFont[];
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+// Graphics state the content walk tracks, saved and restored by q and Q
+interface GraphicsState {
+  ctm: Matrix;
+  font: PDFDict | null;
+  // The font's name in the resource dictionary
+  font_name: string;
+  font_size: number;
+  glyph_scale: number;
+  // Text rendering mode; 3 is invisible text, e.g. an OCR layer
+  render_mode: number;
+}
+
+// What a content stream places, in the space of the matrix it was walked
+// with. Form XObjects are walked once and their records mapped into each
+// place they are drawn.
+interface ContentRecords {
+  images: { name: string; width_px: number; height_px: number; ctm: Matrix }[];
+  // Text-showing operations: glyph height in text space and the matrix
+  // from text space
+  text: { font: PDFDict; font_name: string; height: number; matrix: Matrix }[];
+}
+
+// A form walked with a given inherited text state
+interface CachedForm {
+  font: PDFDict | null;
+  font_size: number;
+  render_mode: number;
+  records: ContentRecords;
+}
+
+// State shared by the whole document's content walk
+interface ContentWalk {
+  forms: Map<PDFStream, CachedForm[]>;
+  // Forms being walked, which a form drawing itself would recurse into
+  active: Set<PDFStream>;
+  // Operations parsed and records mapped so far
+  operations: number;
+}
+
+// Content that would take longer than this to walk is rejected rather
+// than blocking the server
+class ContentTooComplexError extends Error {}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const POINTS_PER_INCH = 72;
+const MAX_FORM_DEPTH = 8;
+const MAX_CONTENT_OPERATIONS = 1_000_000;
+
+// Concatenate m onto ctm (PDF row-vector convention: m × ctm)
+function multiply(m: Matrix, ctm: Matrix): Matrix {
+  return [
+    m[0] * ctm[0] + m[1] * ctm[2],
+    m[0] * ctm[1] + m[1] * ctm[3],
+    m[2] * ctm[0] + m[3] * ctm[2],
+    m[2] * ctm[1] + m[3] * ctm[3],
+    m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+    m[4] * ctm[1] + m[5] * ctm[3] + ctm[5],
+  ];
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function boxFromArray(arr: PDFArray | undefined): { x1: number; y1: number; x2: number; y2: number } | null {
+  if (!arr || arr.size() < 4) return null;
+  const [a, b, c, d] = [0, 1, 2, 3].map((i) => arr.lookup(i, PDFNumber).asNumber());
+  return { x1: Math.min(a, c), y1: Math.min(b, d), x2: Math.max(a, c), y2: Math.max(b, d) };
+}
+
+function toInches(box: { x1: number; y1: number; x2: number; y2: number }): PdfBox {
+  return {
+    width_in: round((box.x2 - box.x1) / POINTS_PER_INCH, 3),
+    height_in: round((box.y2 - box.y1) / POINTS_PER_INCH, 3),
+  };
+}
+
+function readText(obj: unknown): string {
+  if (obj instanceof PDFString || obj instanceof PDFHexString) return obj.decodeText();
+  if (obj instanceof PDFName) return obj.decodeText();
+  return '';
+}
+
+export function streamBytes(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+  return stream.getContents();
+}
+
+function matrixFromOperands(operands: ContentOperand[]): Matrix | null {
+  if (operands.length < 6 || operands.slice(0, 6).some((o) => typeof o !== 'number')) return null;
+  return operands.slice(0, 6) as Matrix;
+}
+
+function placement(name: string, widthPx: number, heightPx: number, ctm: Matrix): PdfImagePlacement | null {
+  // Images are painted into the unit square, so the CTM's column vectors give
+  // the placed size of the image's x and y axes in points.
+  const placedW = Math.hypot(ctm[0], ctm[1]) / POINTS_PER_INCH;
+  const placedH = Math.hypot(ctm[2], ctm[3]) / POINTS_PER_INCH;
+  if (!widthPx || !heightPx || placedW <= 0 || placedH <= 0) return null;
+
+  return {
+    name,
+    width_px: widthPx,
+    height_px: heightPx,
+    placed_width_in: round(placedW),
+    placed_height_in: round(placedH),
+    effective_ppi: Math.round(Math.min(widthPx / placedW, heightPx / placedH)),
+  };
+}
+
+function spend(walk: ContentWalk, operations: number) {
+  walk.operations += operations;
+  if (walk.operations > MAX_CONTENT_OPERATIONS) {
+    throw new ContentTooComplexError(`Content is too complex to inspect (over ${MAX_CONTENT_OPERATIONS} operations)`);
+  }
+}
+
+// Walk a content stream tracking the graphics state and record every image
+// placement and text run, descending into form XObjects. Each form is
+// walked once per inherited text state and its records are reused.
+function collectContent(
+  bytes: Uint8Array,
+  resources: PDFDict | undefined,
+  base: GraphicsState,
+  depth: number,
+  walk: ContentWalk,
+  out: ContentRecords,
+) {
+  const xobjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  const stack: GraphicsState[] = [];
+  let state = base;
+  // Text matrix; it only matters for its scale, which text positioning
+  // operators leave alone
+  let tm = IDENTITY;
+
+  for (const op of parseContentStream(bytes)) {
+    spend(walk, 1);
+    switch (op.operator) {
+      case 'q':
+        stack.push(state);
+        break;
+      case 'Q':
+        state = stack.pop() ?? base;
+        break;
+      case 'cm': {
+        const m = matrixFromOperands(op.operands);
+        if (m) state = { ...state, ctm: multiply(m, state.ctm) };
+        break;
+      }
+      case 'BT':
+        tm = IDENTITY;
+        break;
+      case 'Tm':
+        tm = matrixFromOperands(op.operands) ?? tm;
+        break;
+      case 'Tf': {
+        const [nameOperand, size] = op.operands;
+        if (!isName(nameOperand) || typeof size !== 'number') break;
+        const font = fonts?.lookup(PDFName.of(nameOperand.value));
+        if (font instanceof PDFDict) {
+          state = { ...state, font, font_name: nameOperand.value, font_size: Math.abs(size), glyph_scale: glyphScale(font) };
+        }
+        break;
+      }
+      case 'Tr':
+        if (typeof op.operands[0] === 'number') state = { ...state, render_mode: op.operands[0] };
+        break;
+      case 'Tj':
+      case 'TJ':
+      case "'":
+      case '"': {
+        if (!state.font || state.render_mode === 3) break;
+        // Glyph height is the font size along the text space y axis
+        out.text.push({
+          font: state.font,
+          font_name: state.font_name,
+          height: state.font_size * state.glyph_scale,
+          matrix: multiply(tm, state.ctm),
+        });
+        break;
+      }
+      case 'BI': {
+        const dict = op.operands[0] as { [key: string]: ContentOperand };
+        const w = dict.W ?? dict.Width;
+        const h = dict.H ?? dict.Height;
+        if (typeof w === 'number' && typeof h === 'number') {
+          out.images.push({ name: 'inline', width_px: w, height_px: h, ctm: state.ctm });
+        }
+        break;
+      }
+      case 'Do': {
+        const nameOperand = op.operands[0];
+        if (!isName(nameOperand) || !xobjects) break;
+        const xobject = xobjects.lookup(PDFName.of(nameOperand.value));
+        if (!(xobject instanceof PDFStream)) break;
+
+        const subtype = xobject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+        if (subtype === 'Image') {
+          const w = xobject.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+          const h = xobject.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+          out.images.push({ name: nameOperand.value, width_px: w, height_px: h, ctm: state.ctm });
+        } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH && !walk.active.has(xobject)) {
+          const matrixArr = xobject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+          const formMatrix = matrixArr
+            ? (matrixArr.asArray().map((_, i) => matrixArr.lookup(i, PDFNumber).asNumber()) as Matrix)
+            : IDENTITY;
+          const formResources = xobject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+          const form = formRecords(xobject, formResources, state, depth, walk);
+
+          const ctm = multiply(formMatrix, state.ctm);
+          spend(walk, form.images.length + form.text.length);
+          for (const image of form.images) out.images.push({ ...image, ctm: multiply(image.ctm, ctm) });
+          for (const run of form.text) out.text.push({ ...run, matrix: multiply(run.matrix, ctm) });
+        }
+        break;
+      }
+    }
+  }
+}
+
+// A form's records in its own space, walked on first use with the text
+// state it inherits
+function formRecords(
+  xobject: PDFStream,
+  resources: PDFDict | undefined,
+  state: GraphicsState,
+  depth: number,
+  walk: ContentWalk,
+): ContentRecords {
+  const cached = walk.forms.get(xobject) ?? [];
+  const hit = cached.find((c) => c.font === state.font && c.font_size === state.font_size && c.render_mode === state.render_mode);
+  if (hit) return hit.records;
+
+  const records: ContentRecords = { images: [], text: [] };
+  walk.active.add(xobject);
+  try {
+    collectContent(streamBytes(xobject), resources, { ...state, ctm: IDENTITY }, depth + 1, walk, records);
+  } finally {
+    walk.active.delete(xobject);
+  }
+  cached.push({ font: state.font, font_size: state.font_size, render_mode: state.render_mode, records });
+  walk.forms.set(xobject, cached);
+  return records;
+}
+
+export function pageContentBytes(doc: PDFDocument, contents: PDFStream | PDFArray | undefined): Uint8Array {
+  if (!contents) return new Uint8Array();
+  if (contents instanceof PDFStream) return streamBytes(contents);
+
+  // Multiple content streams are concatenated with a separating newline
+  const parts = contents
+    .asArray()
+    .map((ref) => doc.context.lookup(ref))
+    .filter((s): s is PDFStream => s instanceof PDFStream)
+    .map(streamBytes);
+  return Buffer.concat(parts.flatMap((p) => [Buffer.from(p), Buffer.from('\n')]));
+}
+
+function readOutputIntent(doc: PDFDocument): PdfOutputIntent | null {
+  const intents = doc.catalog.lookupMaybe(PDFName.of('OutputIntents'), PDFArray);
+  if (!intents || intents.size() === 0) return null;
+
+  const intent = intents.lookup(0);
+  if (!(intent instanceof PDFDict)) return null;
+
+  return {
+    subtype: readText(intent.lookup(PDFName.of('S'))),
+    condition:
+      readText(intent.lookup(PDFName.of('OutputConditionIdentifier'))) ||
+      readText(intent.lookup(PDFName.of('Info'))),
+    has_profile: intent.get(PDFName.of('DestOutputProfile')) !== undefined,
+  };
+}
+
+function readVersion(buffer: Buffer, doc: PDFDocument): string {
+  // The catalog /Version entry overrides the header when it is newer
+  const header = buffer.subarray(0, 1024).toString('latin1').match(/%PDF-(\d\.\d)/)?.[1] ?? 'unknown';
+  const catalogVersion = doc.catalog.lookupMaybe(PDFName.of('Version'), PDFName)?.decodeText();
+  if (catalogVersion && (header === 'unknown' || parseFloat(catalogVersion) > parseFloat(header))) {
+    return catalogVersion;
+  }
+  return header;
+}
+
+export async function loadPdf(buffer: Buffer): Promise<PDFDocument> {
+  return PDFDocument.load(buffer, { updateMetadata: false, throwOnInvalidObject: false });
+}
+
+export async function inspectPdf(buffer: Buffer): Promise<PdfInspection> {
+  const doc = await loadPdf(buffer);
+  const fonts = new Map<PDFDict, PdfFont>();
+  const walk: ContentWalk = { forms: new Map(), active: new Set(), operations: 0 };
+
+  const pages: PdfPageInfo[] = doc.getPages().map((page, index) => {
+    const node = page.node;
+    const media = boxFromArray(node.MediaBox())!;
+    const trim = boxFromArray(node.TrimBox());
+    const bleed = boxFromArray(node.BleedBox());
+
+    // Bleed is the smallest margin between the bleed box and the trim box
+    let bleedIn = 0;
+    if (trim && bleed) {
+      bleedIn = Math.max(0, Math.min(trim.x1 - bleed.x1, trim.y1 - bleed.y1, bleed.x2 - trim.x2, bleed.y2 - trim.y2));
+      bleedIn = round(bleedIn / POINTS_PER_INCH, 3);
+    }
+
+    const content: ContentRecords = { images: [], text: [] };
+    const base: GraphicsState = { ctm: IDENTITY, font: null, font_name: '', font_size: 0, glyph_scale: 1, render_mode: 0 };
+    try {
+      collectContent(pageContentBytes(doc, node.Contents()), node.Resources(), base, 0, walk, content);
+    } catch (e) {
+      if (e instanceof ContentTooComplexError) throw e;
+      console.error(`PDF content parse error on page ${index + 1}:`, e);
+    }
+
+    const images = content.images
+      .map((image) => placement(image.name, image.width_px, image.height_px, image.ctm))
+      .filter((image): image is PdfImagePlacement => image !== null);
+    const textSizes = content.text.map((run) => round(run.height * Math.hypot(run.matrix[2], run.matrix[3]), 1));
+
+    for (const run of content.text) {
+      if (!fonts.has(run.font)) fonts.set(run.font, readFont(run.font, run.font_name));
+      const font = fonts.get(run.font)!;
+      if (font.pages[font.pages.length - 1] !== index + 1) font.pages.push(index + 1);
+    }
+
+    return {
+      page: index + 1,
+      media_box: toInches(media),
+      trim_box: trim ? toInches(trim) : null,
+      bleed_box: bleed ? toInches(bleed) : null,
+      bleed_in: bleedIn,
+      images,
+      min_text_pt: textSizes.length > 0 ? textSizes.reduce((a, b) => Math.min(a, b)) : null,
+      small_text: textSizes.filter((size) => size < MIN_TEXT_PT).length,
+    };
+  });
+
+  const ppis = pages.flatMap((p) => p.images.map((img) => img.effective_ppi));
+
+  return {
+    version: readVersion(buffer, doc),
+    page_count: pages.length,
+    output_intent: readOutputIntent(doc),
+    pages,
+    min_image_ppi: ppis.length > 0 ? ppis.reduce((a, b) => Math.min(a, b)) : null,
+    fonts: Array.from(fonts.values()),
+  };
+}
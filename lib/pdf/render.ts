@@ -0,0 +1,75 @@
+import path from 'path';
+import sharp from 'sharp';
+import { createCanvas } from '@napi-rs/canvas';
+
+// Types
+export interface RenderedPage {
+  page: number;
+  // PNG of the page on white, PREVIEW_PX on its longest side
+  image: Buffer;
+  width: number;
+  height: number;
+  // Small JPEG of the page, as a data URL
+  thumbnail: string;
+}
+
+// Longest side of a page rendered for analysis
+export const PREVIEW_PX = 1200;
+const THUMBNAIL_PX = 240;
+
+// Pages past this are inspected for structure but not rendered or scored
+export const MAX_RENDERED_PAGES = Math.max(1, Number(process.env.PRINTSCORE_PDF_MAX_PAGES) || 24);
+
+// Metrics for the 14 standard fonts, used when a PDF does not embed them.
+// Like pdfkit's, they are read from the package directory at runtime.
+const STANDARD_FONTS = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + path.sep;
+
+// Render pages one at a time, so only one page bitmap is held in memory.
+// maxPages limits how many pages, from the first, are rendered.
+export async function* renderPdfPages(buffer: Buffer, maxPages = MAX_RENDERED_PAGES): AsyncGenerator<RenderedPage> {
+  // pdf.js is published as an ES module only
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  // pdf.js takes ownership of the bytes it is given, so it gets a copy
+  const document = await getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: STANDARD_FONTS,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pageCount = Math.min(document.numPages, maxPages);
+    for (let number = 1; number <= pageCount; number++) {
+      const page = await document.getPage(number);
+      try {
+        const size = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PREVIEW_PX / Math.max(size.width, size.height) });
+        const canvas = createCanvas(Math.round(viewport.width), Math.round(viewport.height));
+        await page.render({
+          canvas: canvas as unknown as HTMLCanvasElement,
+          canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+
+        // Unpainted areas are transparent; paper is white
+        const image = await sharp(canvas.toBuffer('image/png')).flatten({ background: '#ffffff' }).png().toBuffer();
+        const thumbnail = await sharp(image)
+          .resize(THUMBNAIL_PX, THUMBNAIL_PX, { fit: 'inside' })
+          .jpeg({ quality: 75 })
+          .toBuffer();
+
+        yield {
+          page: number,
+          image,
+          width: canvas.width,
+          height: canvas.height,
+          thumbnail: `data:image/jpeg;base64,${thumbnail.toString('base64')}`,
+        };
+      } finally {
+        page.cleanup();
+      }
+    }
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,75 @@
+import type { CompactResult } from './analysis';
+import type { ExportItem } from './export/formats';
+import { inkProblems } from './image/ink';
+import { requiredPpi } from './rubric';
+import { hairlines, svgPrintScale } from './svg/inspect';
+
+// Rules a file can fail: the preset checks, the resolution at the target
+// size (against the preset's minimum, or 300 PPI), the ink limit, the PDF typography checks and the SVG vector checks
+export const RULES = [
+  'trim_size', 'bleed', 'bleed_content', 'safe_zone', 'min_ppi', 'color_mode', 'target_resolution', 'ink',
+  'fonts', 'text_size', 'linked_images', 'live_text', 'hairlines',
+] as const;
+
+// Types
+export type Rule = (typeof RULES)[number];
+
+export interface PreflightOptions {
+  // Files scoring below this fail
+  min_score: number | null;
+  // Files failing any of these rules fail
+  fail_on: Rule[];
+}
+
+export interface PreflightSummary extends PreflightOptions {
+  passed: boolean;
+  // Files that did not pass, and why
+  failures: { file_name: string; reasons: string[] }[];
+}
+
+export function isRule(value: unknown): value is Rule {
+  return RULES.includes(value as Rule);
+}
+
+export function failedRules(result: CompactResult): Rule[] {
+  const failed = new Set<Rule>();
+  for (const check of result.checks ?? []) {
+    if (check.status === 'fail' && isRule(check.rule)) failed.add(check.rule);
+  }
+  const ppi = result.target?.effective_ppi ?? null;
+  if (ppi !== null && ppi < requiredPpi(result.preset ?? null)) failed.add('target_resolution');
+  if (result.ink && inkProblems(result.ink).length > 0) failed.add('ink');
+  // Reports stored before the typography checks have no font inventory
+  if (result.pdf?.fonts?.some((f) => f.verdict === 'fail')) failed.add('fonts');
+  if (result.pdf?.pages.some((p) => p.small_text > 0)) failed.add('text_size');
+  if (result.svg) {
+    if (result.svg.linked_images.length > 0) failed.add('linked_images');
+    if (result.svg.text_elements > 0 && !result.svg.fonts_embedded) failed.add('live_text');
+    if (hairlines(result.svg, svgPrintScale(result.svg, result.target)) > 0) failed.add('hairlines');
+  }
+  return Array.from(failed);
+}
+
+// Why the file fails the preflight; empty when it passes. A file that
+// could not be analyzed always fails.
+export function preflightReasons(item: ExportItem, options: PreflightOptions): string[] {
+  const { result } = item;
+  if (!result) return [`could not be analyzed: ${item.error ?? 'unknown error'}`];
+
+  const reasons: string[] = [];
+  if (options.min_score !== null && result.total_score < options.min_score) {
+    reasons.push(`score ${result.total_score} is below ${options.min_score}`);
+  }
+  const failed = failedRules(result);
+  for (const rule of options.fail_on) {
+    if (failed.includes(rule)) reasons.push(`failed ${rule}`);
+  }
+  return reasons;
+}
+
+export function runPreflight(items: ExportItem[], options: PreflightOptions): PreflightSummary {
+  const failures = items
+    .map((item) => ({ file_name: item.file_name, reasons: preflightReasons(item, options) }))
+    .filter((f) => f.reasons.length > 0);
+  return { min_score: options.min_score, fail_on: options.fail_on, passed: failures.length === 0, failures };
+}
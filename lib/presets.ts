@@ -0,0 +1,260 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PdfInspection } from './pdf/inspect';
+import type { TargetEvaluation } from './target-size';
+import type { EdgeAnalysis, EdgeRegion } from './image/edges';
+
+// Types
+export type ColorMode = 'CMYK' | 'RGB';
+
+export interface PrintPreset {
+  id: string;
+  name: string;
+  category: string;
+  trim_width_in: number;
+  trim_height_in: number;
+  bleed_in: number;
+  safe_margin_in: number;
+  min_ppi: number;
+  color_mode: ColorMode;
+}
+
+export type CheckStatus = 'pass' | 'fail' | 'warn';
+
+export interface PresetCheck {
+  rule: string;
+  label: string;
+  status: CheckStatus;
+  detail: string;
+  // Severity of a failure; the rubric deducts a multiple of it from the
+  // check's category
+  penalty: number;
+}
+
+export interface PresetFacts {
+  width_px: number;
+  height_px: number;
+  color_space: string | null;
+  pdf: PdfInspection | null;
+  target: TargetEvaluation | null;
+  edges: EdgeAnalysis | null;
+}
+
+const BUILT_IN_PRESETS: PrintPreset[] = [
+  { id: 'business-card-us', name: 'Business Card (US)', category: 'Business Cards', trim_width_in: 3.5, trim_height_in: 2, bleed_in: 0.125, safe_margin_in: 0.125, min_ppi: 300, color_mode: 'CMYK' },
+  { id: 'business-card-eu', name: 'Business Card (EU 85×55mm)', category: 'Business Cards', trim_width_in: 3.346, trim_height_in: 2.165, bleed_in: 0.118, safe_margin_in: 0.118, min_ppi: 300, color_mode: 'CMYK' },
+  { id: 'postcard-4x6', name: 'Postcard 4×6', category: 'Flyers', trim_width_in: 4, trim_height_in: 6, bleed_in: 0.125, safe_margin_in: 0.125, min_ppi: 300, color_mode: 'CMYK' },
+  { id: 'flyer-letter', name: 'Flyer (Letter 8.5×11)', category: 'Flyers', trim_width_in: 8.5, trim_height_in: 11, bleed_in: 0.125, safe_margin_in: 0.25, min_ppi: 300, color_mode: 'CMYK' },
+  { id: 'flyer-a5', name: 'Flyer (A5)', category: 'Flyers', trim_width_in: 5.827, trim_height_in: 8.268, bleed_in: 0.118, safe_margin_in: 0.197, min_ppi: 300, color_mode: 'CMYK' },
+  { id: 'poster-18x24', name: 'Poster 18×24', category: 'Posters', trim_width_in: 18, trim_height_in: 24, bleed_in: 0.125, safe_margin_in: 0.5, min_ppi: 150, color_mode: 'CMYK' },
+  { id: 'poster-24x36', name: 'Poster 24×36', category: 'Posters', trim_width_in: 24, trim_height_in: 36, bleed_in: 0.125, safe_margin_in: 0.5, min_ppi: 150, color_mode: 'CMYK' },
+  { id: 'sticker-3x3', name: 'Sticker 3×3', category: 'Stickers', trim_width_in: 3, trim_height_in: 3, bleed_in: 0.0625, safe_margin_in: 0.125, min_ppi: 300, color_mode: 'CMYK' },
+  { id: 'apparel-dtg-12x16', name: 'T-Shirt Front (DTG 12×16)', category: 'Apparel', trim_width_in: 12, trim_height_in: 16, bleed_in: 0, safe_margin_in: 0, min_ppi: 150, color_mode: 'RGB' },
+];
+
+// Custom presets live in a JSON array; entries with an existing id replace
+// the built-in definition.
+const PRESETS_PATH = process.env.PRINTSCORE_PRESETS_PATH || path.join(process.cwd(), 'config', 'presets.json');
+
+// Aspect ratios within this tolerance are considered a match
+const ASPECT_TOLERANCE = 0.015;
+// PDF box dimensions within this tolerance (inches) are considered a match
+const SIZE_TOLERANCE_IN = 1 / 32;
+
+function isPreset(value: unknown): value is PrintPreset {
+  const p = value as PrintPreset;
+  return (
+    typeof p === 'object' && p !== null &&
+    typeof p.id === 'string' && typeof p.name === 'string' &&
+    typeof p.trim_width_in === 'number' && p.trim_width_in > 0 &&
+    typeof p.trim_height_in === 'number' && p.trim_height_in > 0 &&
+    typeof p.bleed_in === 'number' && p.bleed_in >= 0 &&
+    typeof p.safe_margin_in === 'number' && p.safe_margin_in >= 0 &&
+    typeof p.min_ppi === 'number' && p.min_ppi > 0 &&
+    (p.color_mode === 'CMYK' || p.color_mode === 'RGB')
+  );
+}
+
+export async function loadPresets(): Promise<PrintPreset[]> {
+  const presets = new Map(BUILT_IN_PRESETS.map((p) => [p.id, p]));
+
+  let raw: string | null = null;
+  try {
+    raw = await fs.readFile(PRESETS_PATH, 'utf8');
+  } catch {
+    // No custom presets configured
+  }
+
+  if (raw) {
+    try {
+      const custom: unknown = JSON.parse(raw);
+      for (const entry of Array.isArray(custom) ? custom : []) {
+        if (isPreset(entry)) {
+          presets.set(entry.id, { ...entry, category: entry.category || 'Custom' });
+        } else {
+          console.error('Ignoring invalid preset:', entry);
+        }
+      }
+    } catch (e) {
+      console.error(`Failed to parse ${PRESETS_PATH}:`, e);
+    }
+  }
+
+  return Array.from(presets.values());
+}
+
+export async function findPreset(id: string): Promise<PrintPreset | null> {
+  return (await loadPresets()).find((p) => p.id === id) ?? null;
+}
+
+// Full artwork size including bleed on every side
+export function bleedSize(preset: PrintPreset) {
+  return {
+    width_in: preset.trim_width_in + preset.bleed_in * 2,
+    height_in: preset.trim_height_in + preset.bleed_in * 2,
+  };
+}
+
+export function aspectMatches(widthPx: number, heightPx: number, widthIn: number, heightIn: number): boolean {
+  if (!widthPx || !heightPx) return false;
+  // Compare orientation-independently
+  const a = Math.max(widthPx, heightPx) / Math.min(widthPx, heightPx);
+  const b = Math.max(widthIn, heightIn) / Math.min(widthIn, heightIn);
+  return Math.abs(a / b - 1) <= ASPECT_TOLERANCE;
+}
+
+function sizeMatches(width: number, height: number, targetW: number, targetH: number): boolean {
+  const close = (x: number, y: number) => Math.abs(x - y) <= SIZE_TOLERANCE_IN;
+  return (close(width, targetW) && close(height, targetH)) || (close(width, targetH) && close(height, targetW));
+}
+
+const fmt = (inches: number) => `${+inches.toFixed(3)}"`;
+
+const edgeList = (regions: EdgeRegion[]) => Array.from(new Set(regions.map((r) => r.edge))).join(', ');
+
+export function evaluatePreset(preset: PrintPreset, facts: PresetFacts): PresetCheck[] {
+  const checks: PresetCheck[] = [];
+  const full = bleedSize(preset);
+  const trimLabel = `${preset.trim_width_in} × ${preset.trim_height_in} in`;
+
+  // Trim size / proportions
+  if (facts.pdf) {
+    const page = facts.pdf.pages[0];
+    const trim = page?.trim_box ?? page?.media_box;
+    const ok = !!trim && sizeMatches(trim.width_in, trim.height_in, preset.trim_width_in, preset.trim_height_in);
+    checks.push({
+      rule: 'trim_size',
+      label: 'Trim size',
+      status: ok ? 'pass' : 'fail',
+      detail: ok
+        ? `Page trims to ${trimLabel}.`
+        : `Page is ${trim ? `${trim.width_in} × ${trim.height_in} in` : 'unknown size'}, expected ${trimLabel}.`,
+      penalty: 5,
+    });
+  } else {
+    const ok = aspectMatches(facts.width_px, facts.height_px, full.width_in, full.height_in) ||
+      aspectMatches(facts.width_px, facts.height_px, preset.trim_width_in, preset.trim_height_in);
+    checks.push({
+      rule: 'trim_size',
+      label: 'Proportions',
+      status: ok ? 'pass' : 'fail',
+      detail: ok
+        ? `Artwork proportions match ${trimLabel}.`
+        : `Artwork proportions do not match ${trimLabel}; it will be cropped or scaled to fit.`,
+      penalty: 5,
+    });
+  }
+
+  // Bleed
+  if (preset.bleed_in > 0) {
+    let ok: boolean;
+    let detail: string;
+    if (facts.pdf) {
+      const bleed = Math.min(...facts.pdf.pages.map((p) => p.bleed_in));
+      ok = bleed >= preset.bleed_in - 0.001;
+      detail = ok ? `${fmt(bleed)} bleed on every page.` : `Bleed is ${fmt(bleed)}, ${fmt(preset.bleed_in)} required.`;
+    } else {
+      ok = aspectMatches(facts.width_px, facts.height_px, full.width_in, full.height_in);
+      detail = ok
+        ? `Artwork is sized to ${+full.width_in.toFixed(3)} × ${+full.height_in.toFixed(3)} in including ${fmt(preset.bleed_in)} bleed.`
+        : `Artwork should be ${+full.width_in.toFixed(3)} × ${+full.height_in.toFixed(3)} in to include ${fmt(preset.bleed_in)} bleed.`;
+    }
+    checks.push({ rule: 'bleed', label: 'Bleed', status: ok ? 'pass' : 'fail', detail, penalty: 5 });
+  }
+
+  // Artwork content near the cut line
+  if (facts.edges) {
+    if (preset.bleed_in > 0) {
+      const gaps = facts.edges.bleed_gaps;
+      checks.push({
+        rule: 'bleed_content',
+        label: 'Artwork extends into bleed',
+        status: gaps.length === 0 ? 'pass' : 'fail',
+        detail: gaps.length === 0
+          ? 'Artwork runs into the bleed on every edge.'
+          : `Artwork stops short of the bleed on the ${edgeList(gaps)} edge${gaps.length === 1 ? '' : 's'}; a slight mis-cut will show a white sliver.`,
+        penalty: 5,
+      });
+    }
+    if (preset.safe_margin_in > 0) {
+      const unsafe = facts.edges.unsafe_content;
+      checks.push({
+        rule: 'safe_zone',
+        label: 'Safe zone',
+        status: unsafe.length === 0 ? 'pass' : 'fail',
+        detail: unsafe.length === 0
+          ? `No text or fine detail within ${fmt(preset.safe_margin_in)} of the trim.`
+          : `Text or fine detail within ${fmt(preset.safe_margin_in)} of the trim on the ${edgeList(unsafe)} edge${unsafe.length === 1 ? '' : 's'}; it may be cut off.`,
+        penalty: 5,
+      });
+    }
+  }
+
+  // Resolution at the preset size. The resolution score is already measured
+  // against min_ppi, so the check itself deducts nothing.
+  const ppi = facts.target?.effective_ppi ?? null;
+  checks.push({
+    rule: 'min_ppi',
+    label: 'Resolution',
+    status: ppi === null || ppi >= preset.min_ppi ? 'pass' : 'fail',
+    detail: ppi === null
+      ? 'Vector artwork, no resolution limit.'
+      : `${ppi} PPI at ${trimLabel}, ${preset.min_ppi} PPI required.`,
+    penalty: 0,
+  });
+
+  // Color mode
+  if (preset.color_mode === 'CMYK') {
+    if (facts.pdf) {
+      const intent = facts.pdf.output_intent;
+      checks.push({
+        rule: 'color_mode',
+        label: 'Color mode',
+        status: intent ? 'pass' : 'warn',
+        detail: intent
+          ? `Output intent ${intent.condition || intent.subtype}.`
+          : 'No output intent; confirm the file was exported in CMYK.',
+        penalty: 5,
+      });
+    } else {
+      const cmyk = facts.color_space === 'CMYK';
+      checks.push({
+        rule: 'color_mode',
+        label: 'Color mode',
+        status: cmyk ? 'pass' : 'fail',
+        detail: cmyk
+          ? 'Artwork is CMYK.'
+          : `Artwork is ${facts.color_space || 'an unknown color space'}; this product prints in CMYK.`,
+        penalty: 5,
+      });
+    }
+  }
+
+  return checks;
+}
+
+export function describeChecks(preset: PrintPreset, checks: PresetCheck[]): string {
+  const failed = checks.filter((c) => c.status !== 'pass');
+  const head = `${preset.name}: ${checks.length - failed.length}/${checks.length} checks passed.`;
+  return failed.length === 0 ? head : `${head} ${failed.map((c) => c.detail).join(' ')}`;
+}
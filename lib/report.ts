@@ -0,0 +1,754 @@
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import type { CompactResult } from './analysis';
+import type { BatchAnalysis } from './batch';
+import type { EdgeAnalysis, Region } from './image/edges';
+import { issueSections, metadataRows, printSizeText, targetText } from './export/text';
+import { analyzeInk } from './image/ink';
+import { softProof } from './image/soft-proof';
+import { MIN_TEXT_PT, minTextSize, pageList, smallTextPages } from './pdf/fonts';
+import { renderPdfPages } from './pdf/render';
+import { totalShares, ScoreCategory, SCORE_CATEGORIES, TIERS, TIER_COLOR_SLOTS } from './scoring';
+import { DEFAULT_THEME, loadLogo, tierColor, Theme, ThemePalette } from './themes';
+
+// Types
+
+// Thumbnail of the uploaded artwork, with heatmaps of the same size to
+// draw over it
+export interface ReportArtwork {
+  // sRGB JPEG
+  image: Buffer;
+  width: number;
+  height: number;
+  heatmaps: { label: string; image: Buffer }[];
+  // JPEG thumbnails of the scored PDF pages, by page number
+  pages?: Map<number, Buffer>;
+}
+
+// Tenant theme and its logo, loaded once per report
+interface Brand {
+  theme: Theme;
+  logo: Buffer | null;
+}
+
+// Content flows down the page and continues on a new page, with the same
+// header and footer, when the next block doesn't fit
+interface Flow {
+  doc: PDFKit.PDFDocument;
+  brand: Brand;
+  y: number;
+  title?: string;
+  // Redrawn below the header of each continuation page
+  onNewPage?: () => void;
+}
+
+// Colors shared by every theme; the rest come from the theme palette
+const textMuted = '#666666';
+
+const FOOTER_Y = 720;
+const CONTENT_TOP = 70;
+// Blocks that would end below this continue on the next page
+const CONTENT_BOTTOM = FOOTER_Y - 20;
+const CONTENT_WIDTH = 480;
+const ROW_HEIGHT = 24;
+
+// Longest side of the embedded thumbnail, in pixels and in points
+const THUMBNAIL_PX = 800;
+const THUMBNAIL_BOX = 200;
+const HEATMAP_BOX = 150;
+const PAGE_THUMBNAIL_BOX = 60;
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  resolution: 'Resolution',
+  color: 'Color',
+  layout: 'Layout',
+  format: 'Format',
+  sharpness: 'Sharpness',
+  artifacts: 'Artifacts',
+};
+
+function renderPdf(brand: Brand, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  // No bottom margin: the footer sits below it and would otherwise push
+  // pdfkit onto a new blank page. Pages are buffered so page numbers can
+  // be added once the total is known.
+  const doc = new PDFDocument({
+    size: 'LETTER',
+    margins: { top: 50, left: 50, right: 50, bottom: 0 },
+    autoFirstPage: false,
+    bufferPages: true,
+  });
+
+  // Buffer to store PDF
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve) => {
+    doc.on('end', () => {
+      resolve(Buffer.concat(chunks));
+    });
+  });
+
+  draw(doc);
+
+  // Page numbers
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    doc.fillColor(brand.theme.palette.text);
+    doc.fontSize(10);
+    doc.font('Helvetica');
+    doc.text(`Page ${i - start + 1} of ${count}`, 392, FOOTER_Y + 15, { width: 200, align: 'right', lineBreak: false });
+  }
+
+  doc.end();
+  return done;
+}
+
+// Background, header bar and footer shared by every page. The title is
+// shown on the right of the header.
+function drawPageChrome(doc: PDFKit.PDFDocument, brand: Brand, title?: string) {
+  const { theme, logo } = brand;
+  const { palette } = theme;
+
+  // Background
+  doc.fillColor(palette.background);
+  doc.rect(0, 0, doc.page.width, doc.page.height);
+  doc.fill();
+
+  // Header
+  doc.fillColor('#FFFFFF');
+  doc.rect(0, 0, doc.page.width, 50);
+  doc.fill();
+
+  // Logo
+  if (logo) {
+    doc.image(logo, 20, 10, { fit: [180, 30] });
+  } else {
+    doc.fillColor(palette.primary);
+    doc.fontSize(24);
+    doc.font('Helvetica-Bold');
+    doc.text(theme.product_name, 20, 18, { width: 190, height: 26, ellipsis: true });
+  }
+
+  if (title) {
+    doc.fillColor(textMuted);
+    doc.fontSize(10);
+    doc.font('Helvetica');
+    doc.text(title, 220, 24, { width: 372, align: 'right', height: 12, ellipsis: true });
+  }
+
+  // Footer
+  doc.fillColor(palette.primary);
+  doc.rect(0, FOOTER_Y, doc.page.width, 50);
+  doc.fill();
+
+  doc.fillColor(palette.text);
+  doc.fontSize(12);
+  doc.font('Helvetica-Bold');
+  doc.text(`Scanned with ${theme.product_name}`, 20, FOOTER_Y + 15, { width: 360, lineBreak: false });
+
+  doc.fontSize(10);
+  doc.font('Helvetica');
+  doc.text(theme.footer_text, 20, FOOTER_Y + 32, { width: 360, height: 12, ellipsis: true });
+
+  // Contact details under the page number
+  const contact = [theme.contact?.email, theme.contact?.phone, theme.contact?.website].filter(Boolean).join(' · ');
+  if (contact) {
+    doc.fontSize(8);
+    doc.text(contact, 392, FOOTER_Y + 33, { width: 200, align: 'right', height: 10, ellipsis: true });
+  }
+}
+
+// Start a page of the flow. The first page of a report is started with
+// this too.
+function startPage(flow: Flow) {
+  flow.doc.addPage();
+  drawPageChrome(flow.doc, flow.brand, flow.title);
+  flow.y = CONTENT_TOP;
+  flow.onNewPage?.();
+}
+
+function ensureSpace(flow: Flow, height: number) {
+  if (flow.y + height > CONTENT_BOTTOM) startPage(flow);
+}
+
+// Section heading, kept on the same page as the first `following` points
+// of its content
+function drawHeading(flow: Flow, title: string, following: number) {
+  ensureSpace(flow, 18 + following);
+  const { doc } = flow;
+  doc.fillColor(flow.brand.theme.palette.primary);
+  doc.fontSize(12);
+  doc.font('Helvetica-Bold');
+  doc.text(title, 20, flow.y);
+  flow.y += 18;
+}
+
+function textHeight(doc: PDFKit.PDFDocument, text: string, font: string, size: number, width: number): number {
+  doc.font(font).fontSize(size);
+  return doc.heightOfString(text, { width });
+}
+
+function metadataTableHeight(doc: PDFKit.PDFDocument, rows: [string, string][], width: number): number {
+  return rows.reduce((sum, [, value]) => sum + Math.max(18, textHeight(doc, value, 'Helvetica', 9, width - 100) + 8), 0);
+}
+
+function drawMetadataTable(doc: PDFKit.PDFDocument, palette: ThemePalette, rows: [string, string][], x: number, y: number, width: number) {
+  rows.forEach(([label, value], index) => {
+    const height = Math.max(18, textHeight(doc, value, 'Helvetica', 9, width - 100) + 8);
+    doc.fillColor(index % 2 === 0 ? '#FFFFFF' : palette.background);
+    doc.rect(x, y, width, height);
+    doc.fill();
+
+    doc.fillColor(textMuted);
+    doc.font('Helvetica-Bold');
+    doc.fontSize(9);
+    doc.text(label, x + 8, y + 5, { width: 84 });
+    doc.fillColor(palette.text);
+    doc.font('Helvetica');
+    doc.text(value, x + 92, y + 5, { width: width - 100 });
+    y += height;
+  });
+}
+
+// Bleed (artwork edge), trim and safe lines over the thumbnail, with
+// bleed gaps and content outside the safe area shaded
+function drawEdgeOverlays(doc: PDFKit.PDFDocument, palette: ThemePalette, edges: EdgeAnalysis, x: number, y: number, width: number, height: number) {
+  const scale = width / edges.image_width;
+  const rect = (r: Region) => doc.rect(x + r.x * scale, y + r.y * scale, r.width * scale, r.height * scale);
+
+  doc.save();
+  doc.fillColor(palette.accent).fillOpacity(0.35);
+  [...edges.bleed_gaps, ...edges.unsafe_content].forEach(({ region }) => {
+    rect(region);
+    doc.fill();
+  });
+  doc.restore();
+
+  doc.save();
+  doc.lineWidth(1);
+  doc.rect(x, y, width, height).dash(3, { space: 2 }).strokeColor(palette.accent).stroke();
+  rect(edges.trim_rect).undash().strokeColor(palette.text).stroke();
+  rect(edges.safe_rect).dash(3, { space: 2 }).strokeColor(palette.primary).stroke();
+  doc.restore();
+}
+
+function drawLegend(doc: PDFKit.PDFDocument, palette: ThemePalette, x: number, y: number) {
+  const entries: [string, string][] = [
+    [palette.accent, 'Bleed'],
+    [palette.text, 'Trim'],
+    [palette.primary, 'Safe area'],
+  ];
+  doc.fontSize(8);
+  doc.font('Helvetica');
+  entries.forEach(([color, label]) => {
+    doc.fillColor(color);
+    doc.rect(x, y + 2, 10, 4);
+    doc.fill();
+    doc.fillColor(textMuted);
+    doc.text(label, x + 14, y, { lineBreak: false });
+    x += 14 + doc.widthOfString(label) + 12;
+  });
+}
+
+// Thumbnail (when the file was provided) beside the metadata table
+function drawArtwork(flow: Flow, result: CompactResult, artwork: ReportArtwork | null) {
+  const { doc } = flow;
+  const { palette } = flow.brand.theme;
+  const rows = metadataRows(result);
+
+  if (!artwork) {
+    const height = metadataTableHeight(doc, rows, CONTENT_WIDTH);
+    drawHeading(flow, 'File Details', height);
+    drawMetadataTable(doc, palette, rows, 20, flow.y, CONTENT_WIDTH);
+    flow.y += height + 15;
+    return;
+  }
+
+  const scale = Math.min(THUMBNAIL_BOX / artwork.width, THUMBNAIL_BOX / artwork.height);
+  const width = artwork.width * scale;
+  const height = artwork.height * scale;
+  const tableX = 20 + THUMBNAIL_BOX + 20;
+  const tableWidth = CONTENT_WIDTH - THUMBNAIL_BOX - 20;
+  const legendHeight = result.edges ? 16 : 0;
+  const blockHeight = Math.max(height + legendHeight, metadataTableHeight(doc, rows, tableWidth));
+
+  drawHeading(flow, 'Artwork', blockHeight);
+  doc.image(artwork.image, 20, flow.y, { width, height });
+  if (result.edges) {
+    drawEdgeOverlays(doc, palette, result.edges, 20, flow.y, width, height);
+    drawLegend(doc, palette, 20, flow.y + height + 6);
+  }
+  drawMetadataTable(doc, palette, rows, tableX, flow.y, tableWidth);
+  flow.y += blockHeight + 15;
+
+  if (artwork.heatmaps.length === 0) return;
+
+  // Heatmaps side by side, over the artwork
+  const tileScale = Math.min(HEATMAP_BOX / artwork.width, HEATMAP_BOX / artwork.height);
+  const tileWidth = artwork.width * tileScale;
+  const tileHeight = artwork.height * tileScale;
+  drawHeading(flow, 'Issue Heatmaps', tileHeight + 16);
+  artwork.heatmaps.forEach((heatmap, index) => {
+    const x = 20 + index * (HEATMAP_BOX + 15);
+    doc.image(artwork.image, x, flow.y, { width: tileWidth, height: tileHeight });
+    doc.image(heatmap.image, x, flow.y, { width: tileWidth, height: tileHeight });
+    doc.fillColor(textMuted);
+    doc.fontSize(8);
+    doc.font('Helvetica');
+    doc.text(heatmap.label, x, flow.y + tileHeight + 4, { width: HEATMAP_BOX });
+  });
+  flow.y += tileHeight + 30;
+}
+
+// White box holding one line of wrapped text
+function drawTextBox(flow: Flow, text: string, options: { bold?: boolean; color?: string; align?: 'left' | 'center' }) {
+  const { doc } = flow;
+  const font = options.bold ? 'Helvetica-Bold' : 'Helvetica';
+  const size = options.bold ? 10 : 9;
+  const height = Math.max(24, textHeight(doc, text, font, size, CONTENT_WIDTH - 20) + 14);
+  ensureSpace(flow, height);
+
+  doc.fillColor('#FFFFFF');
+  doc.roundedRect(20, flow.y, CONTENT_WIDTH, height, 6);
+  doc.fill();
+
+  doc.fillColor(options.color ?? flow.brand.theme.palette.text);
+  doc.font(font);
+  doc.fontSize(size);
+  doc.text(text, 30, flow.y + 8, { width: CONTENT_WIDTH - 20, align: options.align ?? 'left' });
+  flow.y += height + 6;
+}
+
+// Full report for one asset, starting on a new page
+function drawResult(flow: Flow, result: CompactResult, artwork: ReportArtwork | null = null) {
+  const { doc } = flow;
+  const { palette } = flow.brand.theme;
+  startPage(flow);
+  const top = flow.y;
+
+  // Score, in the theme's color for the tier
+  const scoreColor = tierColor(palette, result.tier);
+  doc.fillColor(scoreColor);
+  doc.fontSize(56);
+  doc.font('Helvetica-Bold');
+  doc.text(`${result.total_score}`, 20, top + 5);
+
+  doc.fillColor(textMuted);
+  doc.fontSize(22);
+  doc.text('/ 100', 75, top + 25);
+
+  // Tier badge
+  doc.fillColor(scoreColor);
+  doc.roundedRect(20, top + 60, 100, 28, 6);
+  doc.fill();
+
+  const textColor = TIER_COLOR_SLOTS[result.tier] === 'highlight' ? '#FFFFFF' : palette.text;
+  doc.fillColor(textColor);
+  doc.fontSize(14);
+  doc.text(result.tier, 20, top + 68, { align: 'center', width: 100 });
+
+  // Summary
+  flow.y = top + 105;
+  const summaryHeight = textHeight(doc, result.summary, 'Helvetica', 11, CONTENT_WIDTH);
+  drawHeading(flow, 'Summary', summaryHeight);
+  doc.fillColor(palette.text);
+  doc.text(result.summary, 20, flow.y, { width: CONTENT_WIDTH });
+  flow.y += summaryHeight + 15;
+
+  drawArtwork(flow, result, artwork);
+
+  // AI Insights
+  const insights = [
+    result.sharpness && `Sharpness: ${result.sharpness}`,
+    result.compressionArtifacts && `Artifacts: ${result.compressionArtifacts}`,
+    result.colorProfile && `Color: ${result.colorProfile}`,
+  ].filter((line): line is string => Boolean(line));
+
+  if (insights.length > 0) {
+    const lineHeights = insights.map((line) => textHeight(doc, line, 'Helvetica', 9, CONTENT_WIDTH - 20) + 3);
+    const height = lineHeights.reduce((sum, h) => sum + h, 0) + 17;
+    drawHeading(flow, 'AI Quality Analysis', height);
+
+    doc.fillColor('#FFFFFF');
+    doc.roundedRect(20, flow.y, CONTENT_WIDTH, height, 6);
+    doc.fill();
+
+    doc.fillColor(palette.text);
+    let lineY = flow.y + 10;
+    insights.forEach((line, i) => {
+      doc.text(line, 30, lineY, { width: CONTENT_WIDTH - 20 });
+      lineY += lineHeights[i];
+    });
+    flow.y += height + 10;
+  }
+
+  // Issue sections
+  issueSections(result).forEach((issue) => {
+    // Grow the card for issues that wrap past one line
+    const height = Math.max(32, 26 + textHeight(doc, issue.content, 'Helvetica', 9, CONTENT_WIDTH - 30));
+    ensureSpace(flow, height);
+    doc.fillColor('#FFFFFF');
+    doc.roundedRect(20, flow.y, CONTENT_WIDTH, height, 6);
+    doc.fill();
+
+    doc.fillColor(palette.text);
+    doc.fontSize(10);
+    doc.font('Helvetica-Bold');
+    doc.text(issue.title, 30, flow.y + 8);
+
+    doc.fillColor(textMuted);
+    doc.font('Helvetica');
+    doc.fontSize(9);
+    doc.text(issue.content, 30, flow.y + 20, { width: CONTENT_WIDTH - 30 });
+
+    flow.y += height + 8;
+  });
+
+  // Sub-scores and their deductions (reports stored before the scoring
+  // rubric have none)
+  if (result.sub_scores) {
+    const subScores = result.sub_scores;
+    const shares = totalShares(subScores);
+    const rowHeight = (text: string) => Math.max(13, textHeight(doc, text, 'Helvetica', 9, 430) + 2);
+    const rows = SCORE_CATEGORIES.map((category) => {
+      const { score, deductions } = subScores[category];
+      const heading = score === null
+        ? `${CATEGORY_LABELS[category]}: not assessed for this file type`
+        : `${CATEGORY_LABELS[category]}: ${Math.round((shares.categories[category] ?? 0) * 100)}% of the total`;
+      return { score, heading, lines: deductions.map((d) => `-${d.points}  ${d.reason}`) };
+    });
+    rows.push({ score: result.ai_score, heading: `AI verdict: ${Math.round(shares.ai * 100)}% of the total`, lines: [] });
+    if (result.score_cap) {
+      rows.push({
+        score: result.total_score,
+        heading: `Capped from ${result.score_cap.uncapped_score} for critical failures`,
+        lines: result.score_cap.reasons,
+      });
+    }
+    drawHeading(flow, 'Score Breakdown', rowHeight(rows[0].heading));
+
+    rows.forEach(({ score, heading, lines }) => {
+      ensureSpace(flow, rowHeight(heading) + (lines[0] ? rowHeight(lines[0]) : 0));
+      doc.fillColor(score === null ? textMuted : palette.text);
+      doc.fontSize(9);
+      doc.font('Helvetica-Bold');
+      doc.text(score === null ? '-' : `${score}`, 25, flow.y, { width: 40 });
+      doc.text(heading, 65, flow.y, { width: 430 });
+      flow.y += rowHeight(heading);
+
+      doc.font('Helvetica');
+      lines.forEach((line) => {
+        const height = rowHeight(line);
+        ensureSpace(flow, height);
+        doc.fillColor(textMuted);
+        doc.text(line, 75, flow.y, { width: 420 });
+        flow.y += height;
+      });
+    });
+    flow.y += 10;
+  }
+
+  // Page scores, with thumbnails when the file was sent along (PDF uploads)
+  if (result.page_scores) {
+    const blocks = result.page_scores.pages.map((page) => {
+      const thumbnail = artwork?.pages?.get(page.page);
+      const x = thumbnail ? 20 + PAGE_THUMBNAIL_BOX + 15 : 20;
+      const width = CONTENT_WIDTH - (x - 20);
+      const lines = [page.summary, ...page.issues.map((issue) => `• ${issue}`)];
+      const lineHeights = lines.map((line) => textHeight(doc, line, 'Helvetica', 9, width) + 2);
+      const textBlock = 14 + lineHeights.reduce((sum, h) => sum + h, 0);
+      return { page, thumbnail, x, width, lines, lineHeights, height: Math.max(textBlock, thumbnail ? PAGE_THUMBNAIL_BOX : 0) + 10 };
+    });
+    const aggregate = result.page_scores.aggregate === 'minimum' ? 'the weakest page' : 'the area-weighted average';
+    const pageCount = result.pdf?.page_count ?? result.page_scores.pages_rendered;
+    const adjusted = result.page_scores.score !== result.total_score
+      ? ` Pages combine to ${result.page_scores.score}; document-wide checks and critical failures set the total.`
+      : '';
+    const note = `${result.page_scores.pages_rendered} of ${pageCount} pages scored; the document score is ${aggregate}.${adjusted}`;
+    drawHeading(flow, 'Pages', 14 + (blocks[0]?.height ?? 0));
+    doc.fillColor(textMuted);
+    doc.fontSize(9);
+    doc.font('Helvetica');
+    doc.text(note, 20, flow.y, { width: CONTENT_WIDTH });
+    flow.y += 14;
+
+    blocks.forEach(({ page, thumbnail, x, width, lines, lineHeights, height }) => {
+      ensureSpace(flow, height);
+      if (thumbnail) doc.image(thumbnail, 20, flow.y, { fit: [PAGE_THUMBNAIL_BOX, PAGE_THUMBNAIL_BOX] });
+
+      doc.fillColor(palette.text);
+      doc.fontSize(10);
+      doc.font('Helvetica-Bold');
+      doc.text(`Page ${page.page}: ${page.score} / 100, ${page.tier}`, x, flow.y);
+
+      doc.fontSize(9);
+      doc.font('Helvetica');
+      let lineY = flow.y + 14;
+      lines.forEach((line, i) => {
+        doc.text(line, x, lineY, { width });
+        lineY += lineHeights[i];
+      });
+      flow.y += height;
+    });
+    flow.y += 5;
+  }
+
+  // Preset checks
+  if (result.preset && result.checks?.length) {
+    const rowHeight = (text: string) => Math.max(13, textHeight(doc, text, 'Helvetica', 9, 430) + 2);
+    const lines = result.checks.map((check) => `${check.label}: ${check.detail}`);
+    drawHeading(flow, `${result.preset.name} Checks`, rowHeight(lines[0]));
+
+    result.checks.forEach((check, i) => {
+      const height = rowHeight(lines[i]);
+      ensureSpace(flow, height);
+      doc.fillColor(check.status === 'pass' ? palette.primary : check.status === 'warn' ? palette.text : palette.accent);
+      doc.fontSize(9);
+      doc.font('Helvetica-Bold');
+      doc.text(check.status.toUpperCase(), 25, flow.y, { width: 40 });
+      doc.fillColor(palette.text);
+      doc.font('Helvetica');
+      doc.text(lines[i], 65, flow.y, { width: 430 });
+      flow.y += height;
+    });
+  }
+
+  // Font verdicts and small text (PDF uploads)
+  if (result.pdf?.fonts) {
+    const rowHeight = (text: string) => Math.max(13, textHeight(doc, text, 'Helvetica', 9, 430) + 2);
+    const lines = result.pdf.fonts.map((font) => {
+      const embedding = font.embedded ? (font.subset ? 'embedded subset' : 'embedded') : 'not embedded';
+      return `${font.name}: ${font.type}, ${embedding}, ${pageList(font.pages)}${font.problem ? `. ${font.problem}` : ''}`;
+    });
+    const smallPages = smallTextPages(result.pdf);
+    const minText = minTextSize(result.pdf);
+    const note = smallPages.length > 0
+      ? `Text below ${MIN_TEXT_PT} pt on ${pageList(smallPages)} (smallest ${minText} pt).`
+      : minText !== null ? `Smallest text ${minText} pt.` : 'No live text.';
+    drawHeading(flow, 'Typography', rowHeight(lines[0] ?? note));
+
+    result.pdf.fonts.forEach((font, i) => {
+      const height = rowHeight(lines[i]);
+      ensureSpace(flow, height);
+      doc.fillColor(font.verdict === 'pass' ? palette.primary : palette.accent);
+      doc.fontSize(9);
+      doc.font('Helvetica-Bold');
+      doc.text(font.verdict.toUpperCase(), 25, flow.y, { width: 40 });
+      doc.fillColor(palette.text);
+      doc.font('Helvetica');
+      doc.text(lines[i], 65, flow.y, { width: 430 });
+      flow.y += height;
+    });
+
+    const height = rowHeight(note);
+    ensureSpace(flow, height);
+    doc.fillColor(smallPages.length > 0 ? palette.accent : palette.text);
+    doc.fontSize(9);
+    doc.font('Helvetica');
+    doc.text(note, 65, flow.y, { width: 430 });
+    flow.y += height;
+  }
+
+  // Print size
+  flow.y += 10;
+  drawTextBox(flow, printSizeText(result), {
+    bold: true,
+    color: palette.primary,
+    align: 'center',
+  });
+
+  // Target print size
+  const target = targetText(result);
+  if (target) {
+    drawTextBox(flow, target, {});
+  }
+
+  // Recommendations
+  if (result.recommendations && result.recommendations.length > 0) {
+    flow.y += 10;
+    const lines = result.recommendations.map((rec) => `→ ${rec}`);
+    const heights = lines.map((line) => textHeight(doc, line, 'Helvetica', 9, 470) + 3);
+    drawHeading(flow, 'Recommendations', heights[0]);
+
+    lines.forEach((line, i) => {
+      ensureSpace(flow, heights[i]);
+      doc.fillColor(palette.text);
+      doc.fontSize(9);
+      doc.font('Helvetica');
+      doc.text(line, 25, flow.y, { width: 470 });
+      flow.y += heights[i];
+    });
+  }
+}
+
+function fromDataUrl(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+}
+
+// Thumbnails of the scored pages of a PDF, with the first page as the
+// artwork. Thumbnails are dropped from stored results, so they are rendered
+// again from the file when missing.
+async function preparePdfArtwork(buffer: Buffer, result: CompactResult): Promise<ReportArtwork | null> {
+  const scores = result.page_scores;
+  if (!scores || scores.pages.length === 0) return null;
+
+  const pages = new Map<number, Buffer>();
+  if (scores.pages.every((page) => page.thumbnail)) {
+    for (const page of scores.pages) pages.set(page.page, fromDataUrl(page.thumbnail!));
+  } else {
+    for await (const rendered of renderPdfPages(buffer, scores.pages_rendered)) {
+      pages.set(rendered.page, fromDataUrl(rendered.thumbnail));
+    }
+  }
+
+  const first = pages.get(scores.pages[0].page);
+  if (!first) return null;
+  const { width = 0, height = 0 } = await sharp(first).metadata();
+  return { image: first, width, height, heatmaps: [], pages };
+}
+
+// Thumbnail and issue heatmaps for an image or SVG upload, or page
+// thumbnails for a scored PDF. Heatmaps are dropped from stored results,
+// so they are rendered again from the file when missing.
+export async function prepareArtwork(buffer: Buffer, result: CompactResult): Promise<ReportArtwork | null> {
+  if (result.pdf) return preparePdfArtwork(buffer, result);
+  if (!result.image && !result.svg) return null;
+
+  // SVG is rasterized at about the thumbnail size, whatever its own size
+  const density = result.svg
+    ? Math.min(2400, Math.max(1, THUMBNAIL_PX / Math.max(result.svg.width_in, result.svg.height_in)))
+    : undefined;
+  const { data, info } = await sharp(buffer, density ? { density } : {})
+    .rotate()
+    .resize(THUMBNAIL_PX, THUMBNAIL_PX, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .toColourspace('srgb')
+    .jpeg({ quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+
+  const heatmaps: ReportArtwork['heatmaps'] = [];
+  if (result.soft_proof && result.soft_proof.out_of_gamut_pct > 0) {
+    const image = result.soft_proof.heatmap_image ?? (await softProof(buffer)).heatmap_image;
+    heatmaps.push({ label: `Out of CMYK gamut: ${result.soft_proof.out_of_gamut_pct}% of the artwork`, image: fromDataUrl(image) });
+  }
+  if (result.ink && result.ink.over_limit_pct > 0) {
+    const image = result.ink.heatmap_image ?? (await analyzeInk(buffer, result.image?.color_space === 'CMYK')).heatmap_image;
+    heatmaps.push({ label: `Ink over ${result.ink.limit_pct}%: ${result.ink.over_limit_pct}% of the artwork`, image: fromDataUrl(image) });
+  }
+
+  return { image: data, width: info.width, height: info.height, heatmaps };
+}
+
+async function loadBrand(theme: Theme): Promise<Brand> {
+  return { theme, logo: await loadLogo(theme) };
+}
+
+export async function buildReport(result: CompactResult, artwork: ReportArtwork | null = null, theme: Theme = DEFAULT_THEME): Promise<Buffer> {
+  const brand = await loadBrand(theme);
+  return renderPdf(brand, (doc) => drawResult({ doc, brand, y: CONTENT_TOP }, result, artwork));
+}
+
+// Summary table columns: x position and width
+const COLUMNS = [
+  { title: 'File', x: 20, width: 165 },
+  { title: 'Score', x: 190, width: 35 },
+  { title: 'Tier', x: 230, width: 95 },
+  { title: 'PPI', x: 330, width: 35 },
+  { title: 'Worst issue', x: 370, width: 222 },
+];
+
+function drawTableHeader(flow: Flow) {
+  const { doc } = flow;
+  doc.fillColor(textMuted);
+  doc.fontSize(9);
+  doc.font('Helvetica-Bold');
+  COLUMNS.forEach((col) => doc.text(col.title, col.x, flow.y, { width: col.width }));
+  flow.y += 16;
+}
+
+// Summary (continued over as many pages as the table needs) followed by
+// the report for each analyzed asset
+export async function buildBatchReport(batch: BatchAnalysis, theme: Theme = DEFAULT_THEME): Promise<Buffer> {
+  const brand = await loadBrand(theme);
+  const { palette } = theme;
+  return renderPdf(brand, (doc) => {
+    const { summary } = batch;
+    const flow: Flow = { doc, brand, y: CONTENT_TOP, title: 'Batch Report' };
+    startPage(flow);
+
+    doc.fillColor(palette.text);
+    doc.fontSize(22);
+    doc.font('Helvetica-Bold');
+    doc.text(`${summary.count} file${summary.count === 1 ? '' : 's'} analyzed`, 20, 75);
+
+    doc.fillColor(textMuted);
+    doc.fontSize(11);
+    doc.font('Helvetica');
+    const average = summary.average_score === null ? 'no scores' : `average score ${summary.average_score} / 100`;
+    const failed = summary.failed > 0 ? ` · ${summary.failed} could not be analyzed` : '';
+    doc.text(`${average}${failed}`, 20, 104);
+
+    // Tier counts
+    let xPos = 20;
+    TIERS.forEach((tier) => {
+      const label = `${tier}: ${summary.tiers[tier]}`;
+      doc.fontSize(9);
+      doc.font('Helvetica-Bold');
+      const width = doc.widthOfString(label) + 16;
+      doc.fillColor('#FFFFFF');
+      doc.roundedRect(xPos, 126, width, 20, 6);
+      doc.fill();
+      doc.fillColor(palette.text);
+      doc.text(label, xPos + 8, 132, { lineBreak: false });
+      xPos += width + 6;
+    });
+
+    flow.y = 162;
+    drawTableHeader(flow);
+    flow.title = 'Batch Report (continued)';
+    flow.onNewPage = () => drawTableHeader(flow);
+
+    batch.items.forEach((item, index) => {
+      ensureSpace(flow, ROW_HEIGHT);
+
+      doc.fillColor(index % 2 === 0 ? '#FFFFFF' : palette.background);
+      doc.rect(15, flow.y - 4, 582, ROW_HEIGHT);
+      doc.fill();
+
+      const cells = item.result
+        ? [
+            item.name,
+            `${item.result.total_score}`,
+            item.result.tier,
+            item.effective_ppi === null ? '—' : `${item.effective_ppi}`,
+            item.worst_issue ?? 'None',
+          ]
+        : [item.name, '—', 'Error', '—', item.error ?? 'Could not be analyzed'];
+
+      doc.fontSize(8);
+      cells.forEach((cell, i) => {
+        const col = COLUMNS[i];
+        doc.fillColor(i === 1 && item.result ? tierColor(palette, item.result.tier) : i === 4 && !item.result ? palette.accent : palette.text);
+        doc.font(i === 1 ? 'Helvetica-Bold' : 'Helvetica');
+        doc.text(cell, col.x, flow.y, { width: col.width, height: ROW_HEIGHT - 6, ellipsis: true });
+      });
+      flow.y += ROW_HEIGHT;
+    });
+
+    if (batch.skipped.length > 0) {
+      flow.onNewPage = undefined;
+      const skipped = `Skipped: ${batch.skipped.join('; ')}`;
+      const height = textHeight(doc, skipped, 'Helvetica', 8, 572);
+      flow.y += 10;
+      ensureSpace(flow, height);
+      doc.fillColor(textMuted);
+      doc.text(skipped, 20, flow.y, { width: 572 });
+    }
+
+    // One report per asset
+    batch.items.forEach((item) => {
+      if (!item.result) return;
+      drawResult({ doc, brand, y: CONTENT_TOP, title: item.name }, item.result);
+    });
+  });
+}
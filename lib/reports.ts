@@ -0,0 +1,114 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { compactResult, CompactResult } from './analysis';
+
+// Types
+export interface StoredReport {
+  id: string;
+  file_name: string;
+  created_at: string;
+  expires_at: string;
+  result: CompactResult;
+}
+
+// Returned once, to whoever ran the analysis
+export interface ReportLink {
+  id: string;
+  expires_at: string;
+  // Required to delete the report; only its hash is stored
+  delete_token: string;
+}
+
+interface ReportFile extends StoredReport {
+  delete_token_sha256: string;
+}
+
+const REPORTS_DIR = process.env.PRINTSCORE_REPORTS_DIR || path.join(process.cwd(), 'data', 'reports');
+const DEFAULT_RETENTION_DAYS = 30;
+const RETENTION_DAYS = Number(process.env.PRINTSCORE_REPORT_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+
+// 128 random bits, URL-safe
+const ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+const reportPath = (id: string) => path.join(REPORTS_DIR, `${id}.json`);
+
+async function readReport(id: string): Promise<ReportFile | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  let report: ReportFile;
+  try {
+    report = JSON.parse(await fs.readFile(reportPath(id), 'utf8'));
+  } catch {
+    return null;
+  }
+  if (Date.parse(report.expires_at) <= Date.now()) {
+    await fs.rm(reportPath(id), { force: true });
+    return null;
+  }
+  return report;
+}
+
+// Remove expired reports. Runs on each save rather than on a schedule.
+async function pruneReports() {
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(REPORTS_DIR);
+  } catch {
+    return;
+  }
+  for (const file of files) {
+    if (file.endsWith('.json')) await readReport(path.basename(file, '.json'));
+  }
+}
+
+// Store a result under a new unguessable id. Images rendered from the
+// artwork are dropped so no copy of the upload is kept.
+export async function saveReport(result: CompactResult, fileName: string): Promise<ReportLink> {
+  await fs.mkdir(REPORTS_DIR, { recursive: true });
+  pruneReports().catch((e) => console.error('Report pruning error:', e));
+
+  const id = randomBytes(16).toString('base64url');
+  const delete_token = randomBytes(24).toString('base64url');
+  const now = Date.now();
+  const { report: _link, ...rest } = result;
+  const report: ReportFile = {
+    id,
+    file_name: fileName,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    result: compactResult(rest),
+    delete_token_sha256: sha256(delete_token),
+  };
+
+  await fs.writeFile(reportPath(id), JSON.stringify(report), { flag: 'wx' });
+  return { id, expires_at: report.expires_at, delete_token };
+}
+
+// Attach a stored copy to the result. Analysis still succeeds when the
+// store is unavailable; the result then has no permalink.
+export async function withReport<T extends CompactResult>(result: T, fileName: string): Promise<T> {
+  try {
+    return { ...result, report: await saveReport(result, fileName) };
+  } catch (e) {
+    console.error('Report save error:', e);
+    return result;
+  }
+}
+
+export async function getReport(id: string): Promise<StoredReport | null> {
+  const report = await readReport(id);
+  if (!report) return null;
+  const { delete_token_sha256: _hash, ...stored } = report;
+  return stored;
+}
+
+export async function deleteReport(id: string, deleteToken: string): Promise<'deleted' | 'not_found' | 'forbidden'> {
+  const report = await readReport(id);
+  if (!report) return 'not_found';
+  const expected = Buffer.from(report.delete_token_sha256, 'hex');
+  const actual = Buffer.from(sha256(deleteToken), 'hex');
+  if (!timingSafeEqual(expected, actual)) return 'forbidden';
+  await fs.rm(reportPath(id), { force: true });
+  return 'deleted';
+}
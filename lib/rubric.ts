@@ -0,0 +1,495 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LOSSLESS_TIFF, UploadFormat } from './formats';
+import type { ImageInspection } from './image/inspect';
+import { inkProblems, InkCoverage } from './image/ink';
+import { metricScores, ImageMetrics, METRIC_WEIGHTS } from './image/metrics';
+import type { SoftProof } from './image/soft-proof';
+import { MIN_TEXT_PT, pageList } from './pdf/fonts';
+import type { PdfInspection, PdfPageInfo } from './pdf/inspect';
+import type { PresetCheck, PrintPreset } from './presets';
+import { hairlines, MIN_STROKE_PT, SvgInspection } from './svg/inspect';
+import { TARGET_PPI, TargetEvaluation } from './target-size';
+import { tierCeiling, tierForScore, Deduction, PageAggregate, SCORE_CATEGORIES, ScoreCategory, SubScores, Tier } from './scoring';
+
+// Types
+export type ScoringWeights = Record<ScoreCategory, number>;
+
+// What the rubric is applied to; fields that don't apply to the upload
+// are null
+export interface ScoringFacts {
+  width_px: number;
+  height_px: number;
+  color_space: string | null;
+  format: UploadFormat | null;
+  image: ImageInspection | null;
+  metrics: ImageMetrics | null;
+  soft_proof: SoftProof | null;
+  ink: InkCoverage | null;
+  pdf: PdfInspection | null;
+  svg: SvgInspection | null;
+  // How much SVG artwork is enlarged to reach the target size
+  svg_scale: number;
+  target: TargetEvaluation | null;
+  preset: PrintPreset | null;
+  checks: PresetCheck[] | null;
+}
+
+// Deductions per category; null when the category is not assessed
+type Deductions = Record<ScoreCategory, Deduction[] | null>;
+
+// Relative weight of each category in the total. Resolution decides most
+// print failures, so it weighs the most.
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  resolution: 30,
+  color: 20,
+  layout: 15,
+  format: 15,
+  sharpness: 10,
+  artifacts: 10,
+};
+
+// Weights are read from a JSON object of the form { "weights": { ... } };
+// categories left out keep their default weight
+const SCORING_PATH = process.env.PRINTSCORE_SCORING_PATH || path.join(process.cwd(), 'config', 'scoring.json');
+
+// Preset rules and the category a failure counts against. Preset penalties
+// are sized as points off the total, so they are scaled up within one
+// category.
+const CHECK_CATEGORIES: Record<string, ScoreCategory> = {
+  trim_size: 'layout',
+  bleed: 'layout',
+  bleed_content: 'layout',
+  safe_zone: 'layout',
+  min_ppi: 'resolution',
+  color_mode: 'color',
+};
+const CHECK_SCALE = 4;
+
+// Formats most print vendors do not accept
+const WEB_FORMATS = ['webp', 'avif', 'heic'];
+
+// Longest edge at 300 PPI (inches) → points off, for images with no
+// target size
+const SIZE_POINTS: [number, number][] = [[10, 0], [6, 5], [4, 15], [2.5, 30], [1, 50], [0, 90]];
+
+// Effective PPI below which artwork prints visibly pixelated whatever the
+// viewing distance
+const CRITICAL_PPI = 40;
+
+// A critical failure keeps the total at this tier or below
+const CRITICAL_TIER: Tier = 'High Risk';
+
+export async function loadScoringWeights(): Promise<ScoringWeights> {
+  let raw: string | null = null;
+  try {
+    raw = await fs.readFile(SCORING_PATH, 'utf8');
+  } catch {
+    // No scoring config; the defaults apply
+  }
+  if (!raw) return DEFAULT_WEIGHTS;
+
+  const weights = { ...DEFAULT_WEIGHTS };
+  try {
+    const config = JSON.parse(raw) as { weights?: Record<string, unknown> };
+    for (const [category, weight] of Object.entries(config.weights ?? {})) {
+      if (SCORE_CATEGORIES.includes(category as ScoreCategory) && typeof weight === 'number' && weight >= 0) {
+        weights[category as ScoreCategory] = weight;
+      } else {
+        console.error(`Ignoring invalid scoring weight ${category}:`, weight);
+      }
+    }
+  } catch (e) {
+    console.error(`Failed to parse ${SCORING_PATH}:`, e);
+  }
+  return weights;
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Resolution the artwork is scored against: the preset's minimum, or
+// 300 PPI
+export function requiredPpi(preset: PrintPreset | null): number {
+  return preset?.min_ppi ?? TARGET_PPI;
+}
+
+// Points off the resolution score for artwork printing at the given PPI,
+// by how far it falls short of the required resolution
+function ppiPoints(ppi: number | null, required: number): number {
+  if (ppi === null || ppi >= required) return 0;
+  if (ppi >= required * 2 / 3) return 15;
+  if (ppi >= required / 2) return 35;
+  if (ppi >= required / 3) return 55;
+  if (ppi >= CRITICAL_PPI) return 75;
+  return 90;
+}
+
+// Lowest-resolution placed image, as a deduction
+function placedImageDeduction(images: { name: string; effective_ppi: number }[], required: number): Deduction[] {
+  if (images.length === 0) return [];
+  const worst = images.reduce((a, b) => (b.effective_ppi < a.effective_ppi ? b : a));
+  const points = ppiPoints(worst.effective_ppi, required);
+  return points > 0
+    ? [{ points, reason: `Image ${worst.name} is ${worst.effective_ppi} PPI at placed size, below ${required} PPI.` }]
+    : [];
+}
+
+// Additional loss when vector artwork is scaled to the target size
+function targetDeduction(target: TargetEvaluation | null, placedPpi: number | null, required: number): Deduction[] {
+  if (!target || target.effective_ppi === null) return [];
+  const points = ppiPoints(target.effective_ppi, required) - ppiPoints(placedPpi, required);
+  return points > 0
+    ? [{ points, reason: `At ${target.width_in} × ${target.height_in} in the artwork prints at ${target.effective_ppi} PPI.` }]
+    : [];
+}
+
+function metricDeductions(metrics: ImageMetrics | null): Pick<Deductions, 'sharpness' | 'artifacts'> {
+  if (!metrics) return { sharpness: null, artifacts: null };
+  const scores = metricScores(metrics);
+
+  // Flat artwork has no detail to judge sharpness by
+  let sharpness: Deduction[] | null = null;
+  if (metrics.sharpness !== null && scores.sharpness !== null) {
+    sharpness = [];
+    const sharpPoints = Math.round(100 - scores.sharpness);
+    const variance = metrics.sharpness.toFixed(0);
+    const reason = metrics.sharpness < 100
+      ? `Soft or blurry; edges lack definition (Laplacian variance ${variance}).`
+      : metrics.sharpness < 300
+        ? `Moderately sharp; fine detail may soften in print (Laplacian variance ${variance}).`
+        : `Fine detail could be crisper (Laplacian variance ${variance}).`;
+    if (sharpPoints > 0) sharpness.push({ points: sharpPoints, reason });
+  }
+
+  // Each artifact takes its share of the quality score's artifact weight,
+  // so an image failing every measure scores 0
+  const artifactWeight = METRIC_WEIGHTS.blockiness + METRIC_WEIGHTS.posterization + METRIC_WEIGHTS.noise + METRIC_WEIGHTS.clipping;
+  const artifactReasons = {
+    blockiness: `JPEG blocking (blockiness ${metrics.blockiness}).`,
+    posterization: `Banding from missing tonal levels (posterization ${metrics.posterization}).`,
+    noise: `Noise (sigma ${metrics.noise_sigma}).`,
+    clipping: `Crushed shadows on ${metrics.clipped_shadows_pct}% of the artwork.`,
+  };
+  const artifacts: Deduction[] = [];
+  for (const key of Object.keys(artifactReasons) as (keyof typeof artifactReasons)[]) {
+    const points = Math.round(((100 - (scores[key] ?? 100)) * METRIC_WEIGHTS[key]) / artifactWeight);
+    if (points > 0) artifacts.push({ points, reason: artifactReasons[key] });
+  }
+
+  return { sharpness, artifacts };
+}
+
+// Failed preset checks, by the category they count against
+function checkDeductions(checks: PresetCheck[] | null, deductions: Deductions) {
+  for (const check of checks ?? []) {
+    const category = CHECK_CATEGORIES[check.rule];
+    if (!category || check.status !== 'fail' || check.penalty <= 0) continue;
+    (deductions[category] ??= []).push({ points: check.penalty * CHECK_SCALE, reason: `${check.label}: ${check.detail}` });
+  }
+}
+
+// PDF rules for the given pages: all of them for the document, or one
+function pdfDeductions(pdf: PdfInspection, pages: PdfPageInfo[], required: number): Omit<Deductions, 'sharpness' | 'artifacts'> {
+  const numbers = pages.map((p) => p.page);
+  const where = (matching: PdfPageInfo[]) => (pages.length === 1 ? '' : ` (${pageList(matching.map((p) => p.page))})`);
+
+  const color: Deduction[] = [];
+  if (!pdf.output_intent) {
+    color.push({ points: 15, reason: 'No output intent; color conversion will depend on the printer\'s defaults.' });
+  }
+
+  const layout: Deduction[] = [];
+  const noBleed = pages.filter((p) => p.bleed_in <= 0);
+  if (noBleed.length > 0) layout.push({ points: 15, reason: `No bleed; artwork cannot extend past the cut line${where(noBleed)}.` });
+  const noTrim = pages.filter((p) => !p.trim_box);
+  if (noTrim.length > 0) layout.push({ points: 5, reason: `No TrimBox; the printer has to assume the trim size${where(noTrim)}.` });
+
+  const format: Deduction[] = [];
+  for (const font of pdf.fonts) {
+    if (font.verdict === 'fail' && font.pages.some((page) => numbers.includes(page))) {
+      format.push({ points: 10, reason: `Font ${font.name}: ${font.problem}.` });
+    }
+  }
+  const smallText = pages.filter((p) => p.small_text > 0);
+  if (smallText.length > 0) {
+    const smallest = Math.min(...smallText.map((p) => p.min_text_pt ?? MIN_TEXT_PT));
+    format.push({ points: 15, reason: `Text down to ${smallest} pt, below the ${MIN_TEXT_PT} pt minimum${where(smallText)}.` });
+  }
+
+  return {
+    resolution: placedImageDeduction(pages.flatMap((p) => p.images), required),
+    color,
+    layout,
+    format,
+  };
+}
+
+function rasterDeductions(facts: ScoringFacts): Deductions {
+  const { width_px, height_px, image, format, target, preset, checks } = facts;
+  const required = requiredPpi(preset);
+
+  let resolution: Deduction[];
+  if (target?.effective_ppi != null) {
+    const points = ppiPoints(target.effective_ppi, required);
+    resolution = points > 0
+      ? [{ points, reason: `${target.effective_ppi} PPI at ${target.width_in} × ${target.height_in} in, below ${required} PPI.` }]
+      : [];
+  } else {
+    // With no target, the size the file prints at 300 PPI, and the size
+    // its own density declares, whichever is worse
+    const longEdgeIn = Math.max(width_px, height_px) / 300;
+    const sizePoints = SIZE_POINTS.find(([inches]) => longEdgeIn >= inches)?.[1] ?? 0;
+    const density = image?.density_dpi ?? null;
+    const densityPoints = ppiPoints(density, required);
+    resolution = [];
+    if (densityPoints > sizePoints) {
+      const size = `${(width_px / density!).toFixed(1)} × ${(height_px / density!).toFixed(1)} in`;
+      resolution.push({ points: densityPoints, reason: `Set to ${density} PPI, so it prints at ${size} unless resized.` });
+    } else if (sizePoints > 0) {
+      resolution.push({ points: sizePoints, reason: `Prints at most ${(width_px / 300).toFixed(1)} × ${(height_px / 300).toFixed(1)} in at 300 PPI.` });
+    }
+  }
+
+  // A preset's color mode check, or an RGB product, decides the color mode
+  const color: Deduction[] = [];
+  const colorModeChecked = checks?.some((c) => c.rule === 'color_mode') || preset?.color_mode === 'RGB';
+  if (facts.color_space !== 'CMYK' && !colorModeChecked) {
+    color.push({ points: 10, reason: `${facts.color_space ?? 'Unknown color space'} artwork; the printer will convert it to CMYK.` });
+  }
+  if (facts.soft_proof && facts.soft_proof.out_of_gamut_pct >= 1) {
+    const pct = facts.soft_proof.out_of_gamut_pct;
+    color.push({ points: Math.min(30, Math.round(pct)), reason: `${pct}% of the artwork is outside the CMYK gamut and will shift in print.` });
+  }
+  for (const problem of facts.ink ? inkProblems(facts.ink) : []) color.push({ points: 15, reason: problem });
+
+  const formatDeductions: Deduction[] = [];
+  if (format && WEB_FORMATS.includes(format.id)) {
+    formatDeductions.push({ points: 15, reason: `${format.label} is not accepted by most print vendors.` });
+  }
+  const compression = image?.compression ?? null;
+  if (format?.id === 'tiff' && compression !== null && !LOSSLESS_TIFF[compression]) {
+    formatDeductions.push({ points: 10, reason: `TIFF with ${compression} compression is lossy or not widely supported.` });
+  }
+  if (image?.has_alpha) formatDeductions.push({ points: 5, reason: 'Transparency must be flattened before printing.' });
+  if (image && image.pages > 1) formatDeductions.push({ points: 5, reason: `${plural(image.pages, 'page or layer')}; only the first prints.` });
+
+  return {
+    resolution,
+    color,
+    // Layout is only known against a preset's trim and safe zone
+    layout: checks ? [] : null,
+    format: formatDeductions,
+    ...metricDeductions(facts.metrics),
+  };
+}
+
+function svgDeductions(svg: SvgInspection, facts: ScoringFacts): Deductions {
+  const { rgb, cmyk, spot } = svg.colors;
+
+  const color: Deduction[] = [];
+  if (rgb > 0 && cmyk === 0 && spot.length === 0 && facts.preset?.color_mode !== 'RGB') {
+    color.push({ points: 15, reason: 'RGB colors only; they will shift when converted to CMYK.' });
+  }
+  if (spot.length > 0) color.push({ points: 5, reason: `Spot colors ${spot.join(', ')} print as separate inks.` });
+
+  const layout: Deduction[] = [];
+  if (!svg.view_box || !svg.physical_size) {
+    layout.push({ points: 10, reason: 'No viewBox or physical size, so the artwork may not print at its intended size.' });
+  }
+  const thinStrokes = hairlines(svg, facts.svg_scale);
+  if (thinStrokes > 0) {
+    layout.push({ points: 15, reason: `${plural(thinStrokes, 'stroke')} thinner than ${MIN_STROKE_PT} pt at print size.` });
+  }
+
+  const format: Deduction[] = [{ points: 5, reason: 'SVG rather than PDF; most print vendors want a PDF.' }];
+  if (svg.linked_images.length > 0) {
+    format.push({ points: 20, reason: `${plural(svg.linked_images.length, 'linked image')} not included in the file.` });
+  }
+  if (svg.text_elements > 0 && !svg.fonts_embedded) {
+    format.push({ points: 10, reason: 'Live text without embedded fonts or outlines.' });
+  }
+
+  return {
+    resolution: [
+      ...placedImageDeduction(svg.images, requiredPpi(facts.preset)),
+      ...targetDeduction(facts.target, svg.min_image_ppi, requiredPpi(facts.preset)),
+    ],
+    color,
+    layout,
+    format,
+    sharpness: null,
+    artifacts: null,
+  };
+}
+
+function toSubScores(deductions: Deductions, weights: ScoringWeights): SubScores {
+  const subScores = {} as SubScores;
+  for (const category of SCORE_CATEGORIES) {
+    const list = deductions[category];
+    const points = list?.reduce((sum, d) => sum + d.points, 0) ?? 0;
+    subScores[category] = {
+      score: list ? Math.max(0, Math.round(100 - points)) : null,
+      weight: weights[category],
+      deductions: list ?? [],
+    };
+  }
+  return subScores;
+}
+
+// Sub-scores of a whole upload. PDFs whose pages were scored are combined
+// with combinePageScores instead.
+export function scoreArtwork(facts: ScoringFacts, weights: ScoringWeights): SubScores {
+  const { pdf, svg, checks } = facts;
+  const required = requiredPpi(facts.preset);
+  let deductions: Deductions;
+
+  if (pdf) {
+    deductions = {
+      ...pdfDeductions(pdf, pdf.pages, required),
+      sharpness: null,
+      artifacts: null,
+    };
+    deductions.resolution!.push(...targetDeduction(facts.target, pdf.min_image_ppi, required));
+  } else if (svg) {
+    deductions = svgDeductions(svg, facts);
+  } else if (facts.image) {
+    deductions = rasterDeductions(facts);
+  } else {
+    // Nothing but the pixel size is known
+    deductions = { resolution: null, color: null, layout: null, format: null, sharpness: null, artifacts: null };
+    if (facts.width_px > 0) deductions.resolution = rasterDeductions(facts).resolution;
+  }
+
+  checkDeductions(checks, deductions);
+  return toSubScores(deductions, weights);
+}
+
+// Failures that ruin the print however well the rest of the file scores:
+// artwork below CRITICAL_PPI, artwork too small to print an inch, fonts
+// the printer has to substitute and images missing from an SVG
+export function criticalFailures(facts: ScoringFacts): string[] {
+  const { width_px, height_px, image, pdf, svg, target } = facts;
+  const failures: string[] = [];
+
+  const placedPpi = pdf?.min_image_ppi ?? svg?.min_image_ppi ?? null;
+  if (target?.effective_ppi != null && target.effective_ppi < CRITICAL_PPI) {
+    failures.push(`Prints at ${target.effective_ppi} PPI at ${target.width_in} × ${target.height_in} in.`);
+  } else if (placedPpi !== null && placedPpi < CRITICAL_PPI) {
+    failures.push(`Placed images print at ${placedPpi} PPI.`);
+  } else if (image && !target) {
+    if (Math.max(width_px, height_px) < 300) {
+      failures.push(`${width_px} × ${height_px} px is less than an inch at 300 PPI.`);
+    } else if (image.density_dpi !== null && image.density_dpi < CRITICAL_PPI) {
+      failures.push(`Set to ${image.density_dpi} PPI.`);
+    }
+  }
+
+  const missing = pdf?.fonts.filter((font) => !font.embedded) ?? [];
+  if (missing.length > 0) failures.push(`${plural(missing.length, 'font')} not embedded (${missing.map((f) => f.name).join(', ')}).`);
+  if (svg && svg.linked_images.length > 0) failures.push(`${plural(svg.linked_images.length, 'linked image')} missing from the file.`);
+
+  return failures;
+}
+
+// A total with critical failures is capped at the top of the weakest
+// category's tier, and of CRITICAL_TIER at most
+export function capTotal(total: number, subScores: SubScores, failures: string[]): number {
+  if (failures.length === 0) return total;
+  const weakest = Math.min(...SCORE_CATEGORIES.map((category) => subScores[category].score ?? 100));
+  return Math.min(total, tierCeiling(tierForScore(weakest)), tierCeiling(CRITICAL_TIER));
+}
+
+// Sub-scores of one rendered PDF page. Sharpness and artifacts are only
+// measured on pages with placed images; vector content prints at the
+// press's resolution.
+export function scorePdfPage(
+  pdf: PdfInspection,
+  page: PdfPageInfo,
+  metrics: ImageMetrics | null,
+  weights: ScoringWeights,
+  required: number,
+): SubScores {
+  const measured = page.images.length > 0 ? metrics : null;
+  return toSubScores({ ...pdfDeductions(pdf, [page], required), ...metricDeductions(measured) }, weights);
+}
+
+// Combine the pages' sub-scores and vision verdicts: the weakest page's
+// as a whole, or the mean weighted by page area, category by category,
+// whose deductions are averaged the same way
+export function combinePageScores(
+  pages: { page: number; score: number; sub_scores: SubScores; ai_score: number; weight: number }[],
+  aggregate: PageAggregate,
+  weights: ScoringWeights,
+): { sub_scores: SubScores; ai_score: number } {
+  const combined = {} as SubScores;
+
+  if (aggregate === 'minimum') {
+    const worst = pages.reduce((a, b) => (b.score < a.score ? b : a));
+    for (const category of SCORE_CATEGORIES) {
+      const sub = worst.sub_scores[category];
+      combined[category] = {
+        score: sub.score,
+        weight: weights[category],
+        deductions: sub.deductions.map((d) => ({ ...d, reason: `Page ${worst.page}: ${d.reason}` })),
+      };
+    }
+    return { sub_scores: combined, ai_score: worst.ai_score };
+  }
+
+  const shares = (among: typeof pages) => {
+    const totalWeight = among.reduce((sum, p) => sum + p.weight, 0);
+    return new Map(among.map((p) => [p, totalWeight > 0 ? p.weight / totalWeight : 1 / among.length]));
+  };
+
+  for (const category of SCORE_CATEGORIES) {
+    const assessed = pages.filter((p) => p.sub_scores[category].score !== null);
+    if (assessed.length === 0) {
+      combined[category] = { score: null, weight: weights[category], deductions: [] };
+      continue;
+    }
+
+    const share = shares(assessed);
+    const byReason = new Map<string, { points: number; pages: number[] }>();
+    for (const p of assessed) {
+      for (const d of p.sub_scores[category].deductions) {
+        const entry = byReason.get(d.reason) ?? { points: 0, pages: [] };
+        entry.points += d.points * share.get(p)!;
+        entry.pages.push(p.page);
+        byReason.set(d.reason, entry);
+      }
+    }
+    combined[category] = {
+      score: Math.round(assessed.reduce((sum, p) => sum + p.sub_scores[category].score! * share.get(p)!, 0)),
+      weight: weights[category],
+      deductions: Array.from(byReason, ([reason, { points, pages: on }]) => ({
+        points: Math.round(points * 10) / 10,
+        reason: on.length === assessed.length ? reason : `${reason} (${pageList(on)})`,
+      })),
+    };
+  }
+
+  const share = shares(pages);
+  return { sub_scores: combined, ai_score: Math.round(pages.reduce((sum, p) => sum + p.ai_score * share.get(p)!, 0)) };
+}
+
+// Target size and preset deductions, which apply to the document as a
+// whole, added to its combined page sub-scores
+export function applyDocumentDeductions(subScores: SubScores, facts: ScoringFacts): SubScores {
+  const document = { resolution: [], color: [], layout: [], format: [], sharpness: [], artifacts: [] } as Record<ScoreCategory, Deduction[]>;
+  if (facts.pdf) document.resolution.push(...targetDeduction(facts.target, facts.pdf.min_image_ppi, requiredPpi(facts.preset)));
+  checkDeductions(facts.checks, document);
+
+  const result = {} as SubScores;
+  for (const category of SCORE_CATEGORIES) {
+    const extra = document[category];
+    const sub = subScores[category];
+    result[category] = extra.length === 0 || sub.score === null
+      ? sub
+      : {
+          ...sub,
+          score: Math.max(0, sub.score - extra.reduce((sum, d) => sum + d.points, 0)),
+          deductions: [...sub.deductions, ...extra],
+        };
+  }
+  return result;
+}
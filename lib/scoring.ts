@@ -0,0 +1,115 @@
+// Score tiers, best first
+export const TIERS = ['Print-Ready', 'Great', 'Needs Optimization', 'High Risk', 'Print Failure Likely'] as const;
+
+export type Tier = (typeof TIERS)[number];
+
+// Lowest score in each tier
+const TIER_FLOORS: Record<Tier, number> = {
+  'Print-Ready': 90,
+  Great: 75,
+  'Needs Optimization': 60,
+  'High Risk': 40,
+  'Print Failure Likely': 0,
+};
+
+export function tierForScore(score: number): Tier {
+  return TIERS.find((tier) => score >= TIER_FLOORS[tier]) ?? 'Print Failure Likely';
+}
+
+// Highest score in a tier
+export function tierCeiling(tier: Tier): number {
+  const better = TIERS[TIERS.indexOf(tier) - 1];
+  return better ? TIER_FLOORS[better] - 1 : 100;
+}
+
+// Palette color each tier is shown in; null is a neutral gray
+export const TIER_COLOR_SLOTS: Record<Tier, 'primary' | 'highlight' | 'accent' | null> = {
+  'Print-Ready': 'primary',
+  Great: 'primary',
+  'Needs Optimization': 'highlight',
+  'High Risk': 'accent',
+  'Print Failure Likely': null,
+};
+
+// Tiers sharing a palette color with a better tier are shown as a lighter
+// tint of it: the share of the color mixed with white
+export const TIER_TINTS: Partial<Record<Tier, number>> = {
+  Great: 0.55,
+};
+
+// Categories the total score is made of, in the order they are shown
+export const SCORE_CATEGORIES = ['resolution', 'color', 'layout', 'format', 'sharpness', 'artifacts'] as const;
+
+export type ScoreCategory = (typeof SCORE_CATEGORIES)[number];
+
+export interface Deduction {
+  points: number;
+  reason: string;
+}
+
+export interface SubScore {
+  // 0-100, or null when the category can't be assessed for the file, in
+  // which case it takes no part in the total
+  score: number | null;
+  // Relative weight in the total, from the scoring config
+  weight: number;
+  deductions: Deduction[];
+}
+
+export type SubScores = Record<ScoreCategory, SubScore>;
+
+// Weighted mean of the assessed categories; null when none is assessed
+export function weightedTotal(subScores: SubScores): number | null {
+  let sum = 0;
+  let weights = 0;
+  for (const category of SCORE_CATEGORIES) {
+    const { score, weight } = subScores[category];
+    if (score === null || weight <= 0) continue;
+    sum += score * weight;
+    weights += weight;
+  }
+  return weights > 0 ? Math.round(sum / weights) : null;
+}
+
+// A total capped for critical failures: the total it would have been,
+// and the failures
+export interface ScoreCap {
+  uncapped_score: number;
+  reasons: string[];
+}
+
+// Share of the vision provider's verdict in a score; the rest is the
+// rubric's weighted total
+export const AI_WEIGHT = 0.3;
+
+// Each assessed category's share of the blended total, and the vision
+// verdict's, as fractions
+export function totalShares(subScores: SubScores): { categories: Partial<Record<ScoreCategory, number>>; ai: number } {
+  const assessed = SCORE_CATEGORIES.filter((c) => subScores[c].score !== null && subScores[c].weight > 0);
+  const assessedWeight = assessed.reduce((sum, c) => sum + subScores[c].weight, 0);
+  if (assessedWeight <= 0) return { categories: {}, ai: 1 };
+
+  const categories: Partial<Record<ScoreCategory, number>> = {};
+  for (const c of assessed) categories[c] = (subScores[c].weight / assessedWeight) * (1 - AI_WEIGHT);
+  return { categories, ai: AI_WEIGHT };
+}
+
+// Rubric total blended with the vision verdict, or the verdict alone when
+// no category is assessed
+export function blendedTotal(subScores: SubScores, aiScore: number): number {
+  const rubric = weightedTotal(subScores);
+  return rubric === null ? aiScore : Math.round(rubric * (1 - AI_WEIGHT) + aiScore * AI_WEIGHT);
+}
+
+// How the scores of a PDF's pages combine into the document score:
+// 'minimum' (a document prints only as well as its weakest page) or
+// 'weighted_average' (pages weighted by their area)
+export const PAGE_AGGREGATES = ['minimum', 'weighted_average'] as const;
+
+export type PageAggregate = (typeof PAGE_AGGREGATES)[number];
+
+const isPageAggregate = (value: unknown): value is PageAggregate => PAGE_AGGREGATES.includes(value as PageAggregate);
+
+export const PAGE_AGGREGATE: PageAggregate = isPageAggregate(process.env.PRINTSCORE_PDF_PAGE_SCORE)
+  ? process.env.PRINTSCORE_PDF_PAGE_SCORE
+  : 'minimum';
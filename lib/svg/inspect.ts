@@ -0,0 +1,412 @@
+import sharp from 'sharp';
+import { gunzipSync } from 'zlib';
+import { MAX_FILE_BYTES } from '../formats';
+import type { TargetEvaluation } from '../target-size';
+import { parseSvg, SvgElement } from './parse';
+
+// Types
+export interface SvgImagePlacement {
+  name: string;
+  width_px: number;
+  height_px: number;
+  placed_width_in: number;
+  placed_height_in: number;
+  effective_ppi: number;
+}
+
+export interface SvgStrokeWidth {
+  // Width at the artwork's own size
+  width_pt: number;
+  count: number;
+}
+
+export interface SvgColors {
+  // Fills, strokes and gradient stops by how their color is given
+  rgb: number;
+  cmyk: number;
+  // Named spot colors (icc-color names like "PANTONE 185 C")
+  spot: string[];
+}
+
+export interface SvgInspection {
+  width_in: number;
+  height_in: number;
+  // Width and height are given in physical units (in, cm, mm, pt, pc)
+  // rather than pixels, which are assumed to be 96 per inch
+  physical_size: boolean;
+  view_box: number[] | null;
+  images: SvgImagePlacement[];
+  // Images referenced by URL or path; they are missing when the file is
+  // sent on its own
+  linked_images: string[];
+  min_image_ppi: number | null;
+  // Live <text> elements, which need their fonts wherever the file is opened
+  text_elements: number;
+  fonts: string[];
+  // The style sheet embeds font data with @font-face
+  fonts_embedded: boolean;
+  strokes: SvgStrokeWidth[];
+  colors: SvgColors;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+// Inherited presentation properties, as written in the file
+interface Style {
+  fill: string;
+  stroke: string;
+  'stroke-width': string;
+  'font-family': string;
+}
+
+interface Rule {
+  selector: { tag: string | null; id: string | null; classes: string[] };
+  declarations: Record<string, string>;
+}
+
+// Thinnest stroke most print processes hold reliably
+export const MIN_STROKE_PT = 0.25;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const CSS_PX_PER_INCH = 96;
+const POINTS_PER_INCH = 72;
+// Default size of an SVG with neither width, height nor viewBox
+const DEFAULT_SIZE_PX = [300, 150];
+const UNITS_PER_INCH: Record<string, number> = { in: 1, cm: 2.54, mm: 25.4, pt: 72, pc: 6, px: CSS_PX_PER_INCH, '': CSS_PX_PER_INCH };
+const PHYSICAL_UNITS = new Set(['in', 'cm', 'mm', 'pt', 'pc']);
+const SHAPES = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text']);
+// Never painted directly; symbols and defs are, through <use>
+const NOT_RENDERED = new Set(['clipPath', 'mask', 'metadata', 'title', 'desc', 'script', 'style', 'foreignObject']);
+const STYLE_PROPERTIES = ['fill', 'stroke', 'stroke-width', 'font-family', 'stop-color', 'display', 'vector-effect'] as const;
+const SPOT_NAME = /pantone|pms|spot/i;
+
+// Concatenate m onto ctm (SVG column-vector convention: ctm × m)
+function multiply(ctm: Matrix, m: Matrix): Matrix {
+  return [
+    ctm[0] * m[0] + ctm[2] * m[1],
+    ctm[1] * m[0] + ctm[3] * m[1],
+    ctm[0] * m[2] + ctm[2] * m[3],
+    ctm[1] * m[2] + ctm[3] * m[3],
+    ctm[0] * m[4] + ctm[2] * m[5] + ctm[4],
+    ctm[1] * m[4] + ctm[3] * m[5] + ctm[5],
+  ];
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const numbers = (value: string) => value.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+
+function parseTransform(value: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of (value ?? '').matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const n = numbers(args);
+    if (n.some((v) => !Number.isFinite(v))) continue;
+    const rad = (deg: number) => (deg * Math.PI) / 180;
+    let m: Matrix;
+    switch (name) {
+      case 'matrix':
+        if (n.length < 6) continue;
+        m = n.slice(0, 6) as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+        break;
+      case 'scale':
+        m = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const [cos, sin] = [Math.cos(rad(n[0] ?? 0)), Math.sin(rad(n[0] ?? 0))];
+        const [cx, cy] = [n[1] ?? 0, n[2] ?? 0];
+        m = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(rad(n[0] ?? 0)), 1, 0, 0];
+        break;
+      default:
+        m = [1, Math.tan(rad(n[0] ?? 0)), 0, 1, 0, 0];
+    }
+    matrix = multiply(matrix, m);
+  }
+  return matrix;
+}
+
+// A length as { value, unit }; null for percentages and anything unparsable
+function parseLength(value: string | undefined): { value: number; unit: string } | null {
+  const match = value?.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(px|pt|pc|in|cm|mm)?$/i);
+  if (!match) return null;
+  return { value: parseFloat(match[1]), unit: (match[2] ?? '').toLowerCase() };
+}
+
+// A length in user units, where one user unit is one CSS pixel
+function userUnits(value: string | undefined): number | null {
+  const length = parseLength(value);
+  return length ? (length.value / UNITS_PER_INCH[length.unit]) * CSS_PX_PER_INCH : null;
+}
+
+function parseDeclarations(block: string): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  for (const declaration of block.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    declarations[property] = declaration.slice(colon + 1).replace(/!important/i, '').trim();
+  }
+  return declarations;
+}
+
+// Rules from every <style> element, limited to simple tag, class and id
+// selectors. Rules apply in document order without specificity, which is
+// how design tools write them. Also reports whether @font-face embeds data.
+function parseStyleSheets(root: SvgElement): { rules: Rule[]; fonts_embedded: boolean } {
+  const rules: Rule[] = [];
+  let fonts_embedded = false;
+
+  const visit = (element: SvgElement) => {
+    if (element.name === 'style') {
+      let css = element.text.replace(/\/\*[\s\S]*?\*\//g, '');
+      css = css.replace(/@font-face\s*\{([^}]*)\}/gi, (_, body: string) => {
+        if (/url\(\s*['"]?data:/i.test(body)) fonts_embedded = true;
+        return '';
+      });
+      // Other at-rules (@media, @import) don't apply to print
+      css = css.replace(/@[^{;]*;/g, '').replace(/@[^{]*\{(?:[^{}]*\{[^}]*\})*[^}]*\}/g, '');
+
+      for (const [, selectors, block] of css.matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+        const declarations = parseDeclarations(block);
+        for (const text of selectors.split(',')) {
+          const match = text.trim().match(/^([A-Za-z][\w-]*|\*)?((?:[.#][\w-]+)*)$/);
+          if (!match || !text.trim()) continue;
+          const parts = match[2].match(/[.#][\w-]+/g) ?? [];
+          rules.push({
+            selector: {
+              tag: match[1] && match[1] !== '*' ? match[1] : null,
+              id: parts.find((p) => p[0] === '#')?.slice(1) ?? null,
+              classes: parts.filter((p) => p[0] === '.').map((p) => p.slice(1)),
+            },
+            declarations,
+          });
+        }
+      }
+    }
+    element.children.forEach(visit);
+  };
+  visit(root);
+  return { rules, fonts_embedded };
+}
+
+function matches(rule: Rule, element: SvgElement): boolean {
+  const { tag, id, classes } = rule.selector;
+  if (tag && tag !== element.name) return false;
+  if (id && id !== element.attributes.id) return false;
+  const own = (element.attributes.class ?? '').split(/\s+/);
+  return classes.every((c) => own.includes(c));
+}
+
+// Presentation attributes, then style sheet rules, then the style attribute
+function ownStyle(element: SvgElement, rules: Rule[]): Record<string, string> {
+  const style: Record<string, string> = {};
+  for (const property of STYLE_PROPERTIES) {
+    if (element.attributes[property] !== undefined) style[property] = element.attributes[property];
+  }
+  for (const rule of rules) {
+    if (matches(rule, element)) Object.assign(style, rule.declarations);
+  }
+  if (element.attributes.style) Object.assign(style, parseDeclarations(element.attributes.style));
+  return style;
+}
+
+function decodeDataUri(uri: string): { type: string; data: Buffer } | null {
+  const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/);
+  if (!match) return null;
+  const base64 = /;base64/i.test(match[2]);
+  const data = base64 ? Buffer.from(match[3].replace(/\s+/g, ''), 'base64') : Buffer.from(decodeURIComponent(match[3]));
+  return { type: match[1].toLowerCase(), data };
+}
+
+function firstFamily(value: string): string {
+  return value.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+}
+
+// Record a fill, stroke or stop color by the way it is specified
+function recordColor(colors: SvgColors, paint: string | undefined) {
+  const value = paint?.trim() ?? '';
+  if (!value || value === 'none' || value === 'transparent' || value === 'inherit' || /^url\([^)]*\)$/.test(value)) return;
+
+  const icc = value.match(/icc-color\(\s*([^,)]+)/i);
+  if (icc && SPOT_NAME.test(icc[1])) {
+    const name = icc[1].trim().replace(/^['"]|['"]$/g, '');
+    if (!colors.spot.includes(name)) colors.spot.push(name);
+  } else if (icc || /device-cmyk\(/i.test(value)) {
+    colors.cmyk++;
+  } else {
+    colors.rgb++;
+  }
+}
+
+// Root size in inches, and the size of one root user unit in inches
+function rootSize(svg: SvgElement) {
+  const width = parseLength(svg.attributes.width);
+  const height = parseLength(svg.attributes.height);
+  const box = numbers(svg.attributes.viewBox ?? '');
+  const view_box = box.length === 4 && box.every(Number.isFinite) && box[2] > 0 && box[3] > 0 ? box : null;
+
+  const inches = (length: { value: number; unit: string } | null) => (length ? length.value / UNITS_PER_INCH[length.unit] : null);
+  // A missing width or height follows the viewBox aspect ratio
+  const aspect = view_box ? view_box[3] / view_box[2] : null;
+  let width_in = inches(width) ?? (aspect && inches(height) ? inches(height)! / aspect : null);
+  let height_in = inches(height) ?? (aspect && width_in ? width_in * aspect : null);
+  width_in ??= (view_box?.[2] ?? DEFAULT_SIZE_PX[0]) / CSS_PX_PER_INCH;
+  height_in ??= (view_box?.[3] ?? DEFAULT_SIZE_PX[1]) / CSS_PX_PER_INCH;
+
+  // The viewBox is scaled uniformly to fit the viewport (preserveAspectRatio meet)
+  const unit_in = view_box ? Math.min(width_in / view_box[2], height_in / view_box[3]) : 1 / CSS_PX_PER_INCH;
+  const physical_size = !!width && !!height && PHYSICAL_UNITS.has(width.unit) && PHYSICAL_UNITS.has(height.unit);
+
+  return { width_in, height_in, unit_in, view_box, physical_size };
+}
+
+export async function inspectSvg(buffer: Buffer): Promise<SvgInspection> {
+  // .svgz files are gzip-compressed
+  const bytes = buffer[0] === 0x1f && buffer[1] === 0x8b ? gunzipSync(buffer, { maxOutputLength: MAX_FILE_BYTES }) : buffer;
+  const svg = parseSvg(bytes.toString('utf8'));
+  const { width_in, height_in, unit_in, view_box, physical_size } = rootSize(svg);
+  const { rules, fonts_embedded } = parseStyleSheets(svg);
+
+  const embedded: { element: SvgElement; ctm: Matrix; uri: string }[] = [];
+  const linked_images: string[] = [];
+  const fonts = new Set<string>();
+  const strokes = new Map<number, number>();
+  const colors: SvgColors = { rgb: 0, cmyk: 0, spot: [] };
+  let text_elements = 0;
+
+  // Walk the tree tracking the CTM (in root user units) and inherited
+  // style. <use> references are not followed.
+  const walk = (element: SvgElement, ctm: Matrix, inherited: Style) => {
+    if (NOT_RENDERED.has(element.name)) return;
+    const own = ownStyle(element, rules);
+    if (own.display === 'none') return;
+
+    const style: Style = {
+      fill: own.fill ?? inherited.fill,
+      stroke: own.stroke ?? inherited.stroke,
+      'stroke-width': own['stroke-width'] ?? inherited['stroke-width'],
+      'font-family': own['font-family'] ?? inherited['font-family'],
+    };
+    const matrix = element === svg ? ctm : multiply(ctm, parseTransform(element.attributes.transform));
+
+    if (element.name === 'image') {
+      const href = element.attributes.href ?? element.attributes['xlink:href'] ?? '';
+      if (href.startsWith('data:')) embedded.push({ element, ctm: matrix, uri: href });
+      else if (href && !linked_images.includes(href)) linked_images.push(href);
+    } else if (element.name === 'stop') {
+      recordColor(colors, own['stop-color'] ?? 'black');
+    } else if (SHAPES.has(element.name)) {
+      recordColor(colors, style.fill);
+      if (element.name === 'text') {
+        text_elements++;
+        if (style['font-family']) fonts.add(firstFamily(style['font-family']));
+      }
+
+      const width = userUnits(style['stroke-width']) ?? 1;
+      if (style.stroke && style.stroke !== 'none' && width > 0) {
+        recordColor(colors, style.stroke);
+        // Non-scaling strokes are drawn in root pixels whatever the transform
+        const scale = own['vector-effect'] === 'non-scaling-stroke' ? 1 : Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+        const width_pt = round(width * scale * unit_in * POINTS_PER_INCH);
+        strokes.set(width_pt, (strokes.get(width_pt) ?? 0) + 1);
+      }
+    }
+
+    if (element.name !== 'text') {
+      for (const child of element.children) walk(child, matrix, style);
+    }
+  };
+  walk(svg, IDENTITY, { fill: 'black', stroke: 'none', 'stroke-width': '1', 'font-family': '' });
+
+  const images: SvgImagePlacement[] = [];
+  for (const { element, ctm, uri } of embedded) {
+    const placed = await placement(element, ctm, uri, unit_in, images.length + 1);
+    if (placed) images.push(placed);
+  }
+
+  return {
+    width_in: round(width_in, 3),
+    height_in: round(height_in, 3),
+    physical_size,
+    view_box,
+    images,
+    linked_images,
+    min_image_ppi: images.length ? Math.min(...images.map((img) => img.effective_ppi)) : null,
+    text_elements,
+    fonts: Array.from(fonts),
+    fonts_embedded,
+    strokes: Array.from(strokes, ([width_pt, count]) => ({ width_pt, count })).sort((a, b) => a.width_pt - b.width_pt),
+    colors,
+  };
+}
+
+async function placement(element: SvgElement, ctm: Matrix, uri: string, unitIn: number, index: number): Promise<SvgImagePlacement | null> {
+  const data = decodeDataUri(uri);
+  // Embedded SVG is more vector artwork, not pixels
+  if (!data || data.type === 'image/svg+xml') return null;
+
+  let widthPx: number;
+  let heightPx: number;
+  try {
+    const meta = await sharp(data.data).metadata();
+    widthPx = meta.width ?? 0;
+    heightPx = meta.height ?? 0;
+  } catch (e) {
+    console.error('Embedded SVG image error:', e);
+    return null;
+  }
+
+  // Width and height default to the image's own size in pixels
+  const boxW = userUnits(element.attributes.width) ?? widthPx;
+  const boxH = userUnits(element.attributes.height) ?? heightPx;
+  const placedBoxW = boxW * Math.hypot(ctm[0], ctm[1]) * unitIn;
+  const placedBoxH = boxH * Math.hypot(ctm[2], ctm[3]) * unitIn;
+  if (!widthPx || !heightPx || placedBoxW <= 0 || placedBoxH <= 0) return null;
+
+  // The image keeps its aspect ratio inside the box (meet) unless told to
+  // cover it (slice) or stretch (none)
+  const aspect = (element.attributes.preserveAspectRatio ?? '').trim();
+  const meet = !aspect.startsWith('none') && !aspect.endsWith('slice');
+  const ppiW = widthPx / placedBoxW;
+  const ppiH = heightPx / placedBoxH;
+  const ppi = meet ? Math.max(ppiW, ppiH) : Math.min(ppiW, ppiH);
+
+  return {
+    name: `${data.type.replace('image/', '').toUpperCase() || 'Image'} ${index}`,
+    width_px: widthPx,
+    height_px: heightPx,
+    placed_width_in: round(meet ? widthPx / ppi : placedBoxW),
+    placed_height_in: round(meet ? heightPx / ppi : placedBoxH),
+    effective_ppi: Math.round(ppi),
+  };
+}
+
+// How much the artwork is enlarged to print at the target size
+export function svgPrintScale(svg: SvgInspection, target: TargetEvaluation | null | undefined): number {
+  if (!target) return 1;
+  const tw = target.rotated ? target.height_in : target.width_in;
+  const th = target.rotated ? target.width_in : target.height_in;
+  const sx = tw / svg.width_in;
+  const sy = th / svg.height_in;
+  return target.fit === 'crop' ? Math.max(sx, sy) : Math.min(sx, sy);
+}
+
+// Strokes thinner than MIN_STROKE_PT when printed at the given scale
+export function hairlines(svg: SvgInspection, scale = 1): number {
+  return svg.strokes.filter((s) => s.width_pt * scale < MIN_STROKE_PT).reduce((n, s) => n + s.count, 0);
+}
+
+// Stroke weights at print size, or null when nothing is stroked
+export function describeStrokes(svg: SvgInspection, scale = 1): string | null {
+  if (svg.strokes.length === 0) return null;
+  const thinnest = round(svg.strokes[0].width_pt * scale);
+  const count = hairlines(svg, scale);
+  if (count === 0) return `Thinnest stroke ${thinnest} pt at print size.`;
+  return `${count} stroke${count === 1 ? '' : 's'} thinner than ${MIN_STROKE_PT} pt at print size (thinnest ${thinnest} pt) may break up or disappear.`;
+}
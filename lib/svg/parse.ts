@@ -0,0 +1,105 @@
+// Minimal XML parser for SVG preflight. It builds an element tree with
+// attributes and character data, and skips comments, processing
+// instructions and the DOCTYPE. Namespaces are not resolved: prefixes other
+// than svg: are kept in element names, so foreign elements never match.
+
+export interface SvgElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: SvgElement[];
+  // Character data directly inside the element (style sheets, text content)
+  text: string;
+}
+
+// Deeper documents are rejected rather than risking the stack when walked
+export const MAX_DEPTH = 256;
+
+const TAG = /<([A-Za-z_][\w:.-]*)((?:\s+[A-Za-z_:][\w:.-]*\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([A-Za-z_:][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const CLOSE = /<\/([A-Za-z_][\w:.-]*)\s*>/y;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const localName = (name: string) => (name.startsWith('svg:') ? name.slice(4) : name);
+
+// Parse an SVG document and return its root <svg> element
+export function parseSvg(source: string): SvgElement {
+  const root: SvgElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: SvgElement[] = [root];
+  let i = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, i);
+    if (end === -1) throw new Error(`Unterminated markup, expected ${terminator}`);
+    i = end + terminator.length;
+  };
+
+  while (i < source.length) {
+    const lt = source.indexOf('<', i);
+    const current = stack[stack.length - 1];
+    if (lt === -1) {
+      current.text += decodeEntities(source.slice(i));
+      break;
+    }
+    if (lt > i) current.text += decodeEntities(source.slice(i, lt));
+    i = lt;
+
+    if (source.startsWith('<!--', i)) {
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', i)) {
+      const end = source.indexOf(']]>', i);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      current.text += source.slice(i + 9, end);
+      i = end + 3;
+    } else if (source.startsWith('<?', i)) {
+      skipPast('?>');
+    } else if (source.startsWith('<!', i)) {
+      // DOCTYPE, possibly with an internal subset of entity declarations
+      const bracket = source.indexOf('[', i);
+      const close = source.indexOf('>', i);
+      if (bracket !== -1 && bracket < close) {
+        i = bracket;
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (source.startsWith('</', i)) {
+      CLOSE.lastIndex = i;
+      const match = CLOSE.exec(source);
+      if (!match) throw new Error(`Malformed closing tag at offset ${i}`);
+      i = CLOSE.lastIndex;
+      const name = localName(match[1]);
+      // Tolerate unclosed children by closing them too
+      let open = stack.length - 1;
+      while (open > 0 && stack[open].name !== name) open--;
+      if (open > 0) stack.length = open;
+    } else {
+      TAG.lastIndex = i;
+      const match = TAG.exec(source);
+      if (!match) throw new Error(`Malformed tag at offset ${i}`);
+      i = TAG.lastIndex;
+
+      const attributes: Record<string, string> = {};
+      for (const [, name, double, single] of match[2].matchAll(ATTRIBUTE)) {
+        attributes[name] = decodeEntities(double ?? single);
+      }
+      const element: SvgElement = { name: localName(match[1]), attributes, children: [], text: '' };
+      if (stack.length > MAX_DEPTH) throw new Error(`Elements nested more than ${MAX_DEPTH} deep`);
+      current.children.push(element);
+      if (!match[3]) stack.push(element);
+    }
+  }
+
+  const svg = root.children.find((e) => e.name === 'svg');
+  if (!svg) throw new Error('No <svg> root element');
+  return svg;
+}
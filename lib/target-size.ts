@@ -0,0 +1,98 @@
+// Types
+export type FitMode = 'crop' | 'fit';
+
+export interface TargetSize {
+  width_in: number;
+  height_in: number;
+  fit: FitMode;
+}
+
+export interface TargetEvaluation extends TargetSize {
+  // Target was swapped to match the artwork's orientation
+  rotated: boolean;
+  // null when the artwork is resolution-independent (vector-only PDF)
+  effective_ppi: number | null;
+  required_upscale: number;
+  aspect_mismatch_pct: number;
+  // crop: share of the artwork cut away; fit: share of the target left blank
+  cropped_pct: number;
+  blank_pct: number;
+}
+
+export const TARGET_PPI = 300;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Read target_width_in / target_height_in / fit from a form submission.
+// Returns null when no target was requested.
+export function parseTargetSize(formData: FormData): TargetSize | null {
+  const width = parseFloat((formData.get('target_width_in') as string) || '');
+  const height = parseFloat((formData.get('target_height_in') as string) || '');
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) return null;
+
+  const fit = formData.get('fit') === 'fit' ? 'fit' : 'crop';
+  return { width_in: width, height_in: height, fit };
+}
+
+// Evaluate how artwork of the given pixel size reproduces at a physical
+// target size. Vector-only artwork is flagged resolutionIndependent.
+export function evaluateTargetSize(
+  widthPx: number,
+  heightPx: number,
+  target: TargetSize,
+  resolutionIndependent = false,
+): TargetEvaluation {
+  // Match orientation: a landscape image against an 18×24 target means 24×18
+  const imageLandscape = widthPx > heightPx;
+  const targetLandscape = target.width_in > target.height_in;
+  const rotated = widthPx !== heightPx && target.width_in !== target.height_in && imageLandscape !== targetLandscape;
+  const tw = rotated ? target.height_in : target.width_in;
+  const th = rotated ? target.width_in : target.height_in;
+
+  if (!widthPx || !heightPx) {
+    return {
+      ...target, rotated, effective_ppi: 0, required_upscale: 0,
+      aspect_mismatch_pct: 0, cropped_pct: 0, blank_pct: 0,
+    };
+  }
+
+  // Inches per pixel when the artwork covers (crop) or fits inside (fit) the target
+  const scale = target.fit === 'crop' ? Math.max(tw / widthPx, th / heightPx) : Math.min(tw / widthPx, th / heightPx);
+  const printedArea = widthPx * heightPx * scale * scale;
+  const targetArea = tw * th;
+  const ppi = 1 / scale;
+
+  const imageAspect = widthPx / heightPx;
+  const targetAspect = tw / th;
+
+  return {
+    ...target,
+    rotated,
+    effective_ppi: resolutionIndependent ? null : Math.round(ppi),
+    required_upscale: resolutionIndependent ? 1 : round(Math.max(1, TARGET_PPI / ppi)),
+    aspect_mismatch_pct: round(Math.abs(imageAspect / targetAspect - 1) * 100, 1),
+    cropped_pct: target.fit === 'crop' ? round((1 - targetArea / printedArea) * 100, 1) : 0,
+    blank_pct: target.fit === 'fit' ? round((1 - printedArea / targetArea) * 100, 1) : 0,
+  };
+}
+
+export function describeTarget(evaluation: TargetEvaluation): string {
+  const size = `${evaluation.width_in} × ${evaluation.height_in} in (${evaluation.fit})`;
+  const parts: string[] = [];
+
+  if (evaluation.effective_ppi === null) {
+    parts.push(`At ${size}: vector artwork, no resolution limit.`);
+  } else if (evaluation.required_upscale > 1) {
+    parts.push(`At ${size}: ${evaluation.effective_ppi} PPI effective, needs ${evaluation.required_upscale.toFixed(1)}× upscale to reach ${TARGET_PPI} PPI.`);
+  } else {
+    parts.push(`At ${size}: ${evaluation.effective_ppi} PPI effective, meets ${TARGET_PPI} PPI.`);
+  }
+
+  if (evaluation.cropped_pct > 0.5) {
+    parts.push(`Aspect ratio differs by ${evaluation.aspect_mismatch_pct}%; ${evaluation.cropped_pct}% of the artwork will be cropped.`);
+  } else if (evaluation.blank_pct > 0.5) {
+    parts.push(`Aspect ratio differs by ${evaluation.aspect_mismatch_pct}%; ${evaluation.blank_pct}% of the print area will be blank.`);
+  }
+
+  return parts.join(' ');
+}
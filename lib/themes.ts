@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TIER_COLOR_SLOTS, TIER_TINTS, Tier } from './scoring';
+
+// Types
+export interface ThemePalette {
+  // Buttons, links and good scores
+  primary: string;
+  // Problems and the upsell
+  accent: string;
+  // Warnings
+  highlight: string;
+  text: string;
+  background: string;
+}
+
+export interface Theme {
+  id: string;
+  product_name: string;
+  // Path under public/ or an absolute URL. PDF reports can only embed a
+  // PNG or JPEG under public/; other logos fall back to the product name.
+  logo: string | null;
+  // Host names, or subdomain labels, that select this theme
+  hosts: string[];
+  palette: ThemePalette;
+  footer_text: string;
+  cta: { label: string; url: string } | null;
+  contact: { email?: string; phone?: string; website?: string } | null;
+}
+
+export const DEFAULT_THEME: Theme = {
+  id: 'printscore',
+  product_name: 'PrintScore™',
+  logo: null,
+  hosts: [],
+  palette: {
+    primary: '#14D8D4',
+    accent: '#FF008C',
+    highlight: '#FFE600',
+    text: '#1F1F1F',
+    background: '#F7F7F7',
+  },
+  footer_text: 'Files analyzed and immediately deleted.',
+  cta: { label: 'Fix My File — $15', url: 'https://shopnasgfx.com/fix-my-file' },
+  contact: null,
+};
+
+// Tenant themes live in a JSON array; config/themes.example.json shows
+// the format. Palettes are merged over the default one; everything else
+// not given is left out.
+const THEMES_PATH = process.env.PRINTSCORE_THEMES_PATH || path.join(process.cwd(), 'config', 'themes.json');
+
+// Scores in the lowest tier are shown in a neutral gray on every theme
+const NEUTRAL_COLOR = '#6B7280';
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+const LOGO_TYPES = ['.png', '.jpg', '.jpeg'];
+
+function isTheme(value: unknown): value is Partial<Theme> & Pick<Theme, 'id' | 'product_name'> {
+  const t = value as Theme;
+  return (
+    typeof t === 'object' && t !== null &&
+    typeof t.id === 'string' && typeof t.product_name === 'string' &&
+    (t.logo === undefined || t.logo === null || typeof t.logo === 'string') &&
+    (t.hosts === undefined || (Array.isArray(t.hosts) && t.hosts.every((h) => typeof h === 'string'))) &&
+    (t.palette === undefined || Object.values(t.palette).every((c) => typeof c === 'string' && HEX_COLOR.test(c))) &&
+    (t.cta === undefined || t.cta === null || (typeof t.cta.label === 'string' && typeof t.cta.url === 'string'))
+  );
+}
+
+export async function loadThemes(): Promise<Theme[]> {
+  const themes = new Map([[DEFAULT_THEME.id, DEFAULT_THEME]]);
+
+  let raw: string | null = null;
+  try {
+    raw = await fs.readFile(THEMES_PATH, 'utf8');
+  } catch {
+    // No tenant themes configured
+  }
+
+  if (raw) {
+    try {
+      const custom: unknown = JSON.parse(raw);
+      for (const entry of Array.isArray(custom) ? custom : []) {
+        if (isTheme(entry)) {
+          themes.set(entry.id, {
+            id: entry.id,
+            product_name: entry.product_name,
+            logo: entry.logo ?? null,
+            hosts: (entry.hosts ?? []).map((h) => h.toLowerCase()),
+            palette: { ...DEFAULT_THEME.palette, ...entry.palette },
+            footer_text: entry.footer_text ?? DEFAULT_THEME.footer_text,
+            cta: entry.cta ?? null,
+            contact: entry.contact ?? null,
+          });
+        } else {
+          console.error('Ignoring invalid theme:', entry);
+        }
+      }
+    } catch (e) {
+      console.error(`Failed to parse ${THEMES_PATH}:`, e);
+    }
+  }
+
+  return Array.from(themes.values());
+}
+
+// The theme asked for by id (query parameter or form field) wins, then the
+// one whose hosts include the request's host name or its first label
+export async function resolveTheme(request: { host?: string | null; theme?: string | null }): Promise<Theme> {
+  const themes = await loadThemes();
+
+  if (request.theme) {
+    const requested = themes.find((t) => t.id === request.theme);
+    if (requested) return requested;
+  }
+
+  const host = request.host?.split(':')[0].toLowerCase();
+  if (host) {
+    const subdomain = host.split('.')[0];
+    const matched = themes.find((t) => t.hosts.includes(host) || t.hosts.includes(subdomain));
+    if (matched) return matched;
+  }
+
+  return DEFAULT_THEME;
+}
+
+export function tierColor(palette: ThemePalette, tier: Tier): string {
+  const slot = TIER_COLOR_SLOTS[tier];
+  if (!slot) return NEUTRAL_COLOR;
+  const tint = TIER_TINTS[tier];
+  if (tint === undefined) return palette[slot];
+
+  // Mix with white, channel by channel
+  const hex = palette[slot];
+  return `#${[1, 3, 5]
+    .map((i) => Math.round(255 - (255 - parseInt(hex.slice(i, i + 2), 16)) * tint).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`;
+}
+
+// Logo file for PDF reports, or null when the theme has none that pdfkit
+// can embed
+export async function loadLogo(theme: Theme): Promise<Buffer | null> {
+  const { logo } = theme;
+  if (!logo?.startsWith('/') || !LOGO_TYPES.includes(path.extname(logo).toLowerCase())) return null;
+
+  const publicDir = path.join(process.cwd(), 'public');
+  const file = path.join(publicDir, logo);
+  if (!file.startsWith(publicDir + path.sep)) return null;
+  try {
+    return await fs.readFile(file);
+  } catch (e) {
+    console.error(`Theme logo ${logo} could not be read:`, e);
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { computeImageMetrics, ImageMetrics } from '../image/metrics';
+import { tierForScore } from '../scoring';
+import type { AIAnalysis, VisionProvider, VisionRequest } from './provider';
+
+// Share of the local score taken from the pixel metrics; the rest comes
+// from the print size the pixel count supports
+const QUALITY_WEIGHT = 0.6;
+
+// Longest edge at 300 PPI (inches) → resolution score
+const SIZE_SCORES: [number, number][] = [[10, 95], [6, 85], [4, 70], [2.5, 50], [0, 30]];
+
+const FORMAT_NAMES: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/tiff': 'TIFF',
+  'image/webp': 'WebP',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'image/svg+xml': 'SVG',
+  'image/gif': 'GIF',
+};
+
+function describeSharpness(metrics: ImageMetrics): string {
+  if (metrics.sharpness === null) return 'Flat color with little fine detail; sharpness not assessed.';
+  const variance = metrics.sharpness.toFixed(0);
+  if (metrics.sharpness >= 300) return `Crisp, well-defined detail (Laplacian variance ${variance}).`;
+  if (metrics.sharpness >= 100) return `Moderately sharp; fine detail may soften in print (Laplacian variance ${variance}).`;
+  return `Soft or blurry; edges lack definition (Laplacian variance ${variance}).`;
+}
+
+function describeArtifacts(metrics: ImageMetrics): string {
+  const notes: string[] = [];
+  if (metrics.blockiness > 1.3) notes.push('visible 8×8 JPEG blocking');
+  else if (metrics.blockiness > 1.1) notes.push('mild JPEG blocking');
+  if (metrics.posterization > 0.2) notes.push('banding from missing tonal levels');
+  if (metrics.noise_sigma > 6) notes.push('noticeable noise');
+  return notes.length === 0 ? 'No significant compression artifacts, banding or noise.' : `Detected ${notes.join(', ')}.`;
+}
+
+// Deterministic stand-in for a vision model, built from the pixel metrics
+// and file facts. It cannot judge composition or content.
+export const localProvider: VisionProvider = {
+  name: 'local',
+  version: 1,
+  async analyze({ buffer, mimeType, width, height, image, metrics }: VisionRequest): Promise<AIAnalysis> {
+    const m = metrics ?? (await computeImageMetrics(buffer));
+    const megapixels = (width * height) / 1000000;
+    const longEdgeIn = Math.max(width, height) / 300;
+    const sizeScore = SIZE_SCORES.find(([inches]) => longEdgeIn >= inches)?.[1] ?? 30;
+    const score = Math.round(m.quality_score * QUALITY_WEIGHT + sizeScore * (1 - QUALITY_WEIGHT));
+    const printSize = `${(width / 300).toFixed(1)} × ${(height / 300).toFixed(1)} inches`;
+    const format = FORMAT_NAMES[mimeType] ?? mimeType.replace('image/', '').toUpperCase();
+    const colorSpace = image?.color_space ?? 'Unknown color space';
+
+    const recommendations: string[] = [];
+    if (m.sharpness !== null && m.sharpness < 100) recommendations.push('Use a sharper original; blur cannot be recovered by upscaling.');
+    if (m.blockiness > 1.1) recommendations.push('Export from the original at maximum JPEG quality, or as PNG/TIFF.');
+    if (m.posterization > 0.2) recommendations.push('Re-export at 16-bit or from the original to remove banding.');
+    if (longEdgeIn < 6) recommendations.push(`At ${megapixels.toFixed(1)} MP the image only prints to ${printSize} at 300 DPI; supply a larger file.`);
+    if (colorSpace !== 'CMYK') recommendations.push('Convert to CMYK with your printer\'s profile and check saturated colors.');
+    if (image?.has_alpha) recommendations.push('Flatten transparency onto the intended background before printing.');
+
+    const strengths = m.quality_score >= 75 ? 'Clean pixels' : m.quality_score >= 50 ? 'Some visible quality loss' : 'Significant quality loss';
+    const summary = `${strengths} at ${megapixels.toFixed(1)} MP, printable to ${printSize} at 300 DPI. Measured locally; composition and content were not reviewed.`;
+
+    return {
+      score,
+      tier: tierForScore(score),
+      summary,
+      resolutionIssue: `${width} × ${height}px (${megapixels.toFixed(1)} MP). Max print: ${printSize} at 300 DPI.`,
+      colorIssue: colorSpace === 'CMYK'
+        ? 'CMYK artwork, ready for press color.'
+        : `${colorSpace} artwork; it will be converted to CMYK for print.`,
+      layoutIssue: 'Composition and margins are not assessed by the local analyzer.',
+      formatIssue: `${format}, ${image ? `${image.bit_depth}-bit` : 'unknown bit depth'}${image?.has_alpha ? ', with transparency' : ''}.`,
+      printSizeMax: printSize,
+      sharpness: describeSharpness(m),
+      compressionArtifacts: describeArtifacts(m),
+      colorProfile: image
+        ? `${image.color_space}${image.icc_profile ? ` (${image.icc_profile})` : ''}`
+        : 'Unknown',
+      recommendations,
+    };
+  },
+};
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import sharp from 'sharp';
+import { createOpenAIProvider } from './openai';
+import { VisionResponseError } from './schema';
+
+const VALID = {
+  score: 77,
+  tier: 'Great',
+  summary: 'Clean artwork.',
+  resolutionIssue: 'Fine at 4 × 6 in.',
+  colorIssue: 'sRGB.',
+  layoutIssue: 'Centered.',
+  formatIssue: 'PNG.',
+  printSizeMax: '4 × 6 inches',
+  sharpness: 'Sharp.',
+  compressionArtifacts: 'None.',
+  colorProfile: 'sRGB',
+  recommendations: [],
+};
+
+// OpenAI-compatible server that answers chat completions from a queue and
+// records the messages it was sent
+let server: Server;
+let baseURL: string;
+const replies: string[] = [];
+const requests: { role: string; content: unknown }[][] = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push(JSON.parse(body).messages);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'stub',
+        object: 'chat.completion',
+        created: 0,
+        model: 'stub-model',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: replies.shift() ?? '' } }],
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(() => server.close());
+
+async function analyze() {
+  const provider = createOpenAIProvider({ name: 'stub', model: 'stub-model', apiKey: 'test', baseURL, jsonMode: 'json_object' });
+  const buffer = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#808080' } }).png().toBuffer();
+  return provider.analyze({ buffer, mimeType: 'image/png', width: 8, height: 8, image: null, target: null, metrics: null });
+}
+
+test('an invalid response is repaired by a second request that names the errors', async () => {
+  requests.length = 0;
+  replies.push(JSON.stringify({ ...VALID, score: 'high' }), JSON.stringify(VALID));
+
+  const analysis = await analyze();
+
+  assert.equal(analysis.score, 77);
+  assert.equal(requests.length, 2);
+  const repair = requests[1];
+  assert.equal(repair.length, 3);
+  assert.equal(repair[1].role, 'assistant');
+  assert.match(String(repair[2].content), /That response is invalid: score must be a number/);
+});
+
+test('a response still invalid after the repair round fails with the errors', async () => {
+  requests.length = 0;
+  replies.push('not json', 'still not json');
+
+  await assert.rejects(analyze(), (error: unknown) => {
+    assert.ok(error instanceof VisionResponseError);
+    assert.deepEqual(error.errors, ['response is not valid JSON']);
+    assert.equal(error.raw, 'still not json');
+    return true;
+  });
+  assert.equal(requests.length, 2);
+});
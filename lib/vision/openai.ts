@@ -0,0 +1,145 @@
+import OpenAI from 'openai';
+import sharp from 'sharp';
+import type { VisionProvider } from './provider';
+import { AI_ANALYSIS_SCHEMA, validateAIAnalysis, VisionResponseError } from './schema';
+
+// Image types the vision model accepts as-is
+const VISION_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+// First request plus one repair round
+const MAX_ATTEMPTS = 2;
+// Bump when the prompt or response schema changes
+const PROMPT_VERSION = 1;
+
+export interface OpenAIProviderOptions {
+  // Label used in logs and reported with the result
+  name: string;
+  model: string;
+  apiKey: string;
+  // Any OpenAI-compatible server (vLLM, Ollama, LM Studio, ...)
+  baseURL?: string;
+  // 'json_schema' constrains output to the analysis schema; servers without
+  // structured output support usually still honor 'json_object'
+  jsonMode: 'json_schema' | 'json_object';
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): VisionProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  const responseFormat: OpenAI.Chat.ChatCompletionCreateParams['response_format'] = options.jsonMode === 'json_schema'
+    ? { type: 'json_schema', json_schema: { name: 'print_analysis', strict: true, schema: AI_ANALYSIS_SCHEMA } }
+    : { type: 'json_object' };
+
+  return {
+    name: `${options.name}:${options.model}`,
+    version: PROMPT_VERSION,
+    async analyze({ buffer, mimeType, width, height, image, target, signal }) {
+      // The vision model only reads common web formats in RGB. TIFF, AVIF,
+      // HEIC and SVG are transcoded; transparency is shown on white.
+      let visionBuffer = buffer;
+      let visionType = mimeType;
+      if (!VISION_TYPES.includes(mimeType) || image?.color_space === 'CMYK' || (image?.pages ?? 1) > 1) {
+        visionBuffer = await sharp(buffer).rotate().flatten({ background: '#FFFFFF' }).toColourspace('srgb').jpeg({ quality: 90 }).toBuffer();
+        visionType = 'image/jpeg';
+      }
+
+      const base64Image = visionBuffer.toString('base64');
+      const dataUrl = `data:${visionType};base64,${base64Image}`;
+
+      const megapixels = (width * height) / 1000000;
+      const printSizeAt300 = `${(width / 300).toFixed(1)} × ${(height / 300).toFixed(1)} inches`;
+      const colorLines = image
+        ? `\n- Color space: ${image.color_space}${image.icc_profile ? ` (ICC profile "${image.icc_profile}")` : ' (no embedded ICC profile)'}` +
+          `\n- Bit depth: ${image.bit_depth}-bit, ${image.channels} channels${image.has_alpha ? ', has alpha/transparency' : ''}` +
+          `\n- Embedded density: ${image.density_dpi ? `${image.density_dpi} DPI` : 'none'}`
+        : '';
+      const targetLine = target
+        ? `\n- Customer's target print size: ${target.width_in} × ${target.height_in} inches (${target.fit}), ${target.effective_ppi} PPI effective`
+        : '';
+
+      const prompt = `You are a professional print quality analyst. Analyze this image for PRINT COMPATIBILITY.
+
+IMAGE METADATA:
+- Dimensions: ${width} × ${height} pixels (${megapixels.toFixed(1)} MP)
+- Max print size at 300 DPI: ${printSizeAt300}${colorLines}${targetLine}
+
+The color space, ICC profile, bit depth and density above are read from the file. Base colorIssue and colorProfile on them rather than guessing the color mode.
+
+Analyze the actual image quality, not just the metadata. Look for:
+
+1. **Sharpness/Clarity**: Is the image actually sharp? Any blurriness, softness, or focus issues?
+2. **Compression Artifacts**: JPEG artifacts, banding, blockiness, noise?
+3. **Color Quality**: Accurate colors? Any color banding, posterization, or gamut issues?
+4. **Detail Level**: Are fine details preserved or lost?
+5. **Print-Specific Issues**: Moiré patterns, halftone issues, anything that would look bad in print?
+6. **Content Appropriateness**: Is this a sketch/draft vs. final artwork? Is it AI-generated with typical artifacts?
+
+SCORING GUIDE:
+- 90-100: Print-Ready (sharp, clean, professional quality)
+- 75-89: Great (minor issues, still good for most prints)
+- 60-74: Needs Optimization (noticeable issues, recommend fixes)
+- 40-59: High Risk (significant problems, may print poorly)
+- 0-39: Print Failure Likely (severe issues, will not print well)
+
+IMPORTANT: If the image is clearly a rough sketch, draft, low-quality screenshot, or placeholder - score it ACCORDINGLY (likely 20-50 range). Do not give high scores to rough work.
+
+Respond in this EXACT JSON format (no markdown, just pure JSON). The score must be a number from 0 to 100:
+{
+  "score": <number 0-100>,
+  "tier": "<Print-Ready | Great | Needs Optimization | High Risk | Print Failure Likely>",
+  "summary": "<1-2 sentence honest assessment>",
+  "resolutionIssue": "<specific resolution/size feedback>",
+  "colorIssue": "<specific color/profile feedback>",
+  "layoutIssue": "<specific composition/margin feedback>",
+  "formatIssue": "<specific format/quality feedback>",
+  "printSizeMax": "<recommended max print size>",
+  "sharpness": "<sharpness assessment>",
+  "compressionArtifacts": "<artifact assessment>",
+  "colorProfile": "<color quality assessment>",
+  "recommendations": ["<specific actionable recommendation 1>", "<recommendation 2>"]
+}`;
+
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            {
+              type: 'image_url',
+              image_url: { url: dataUrl, detail: 'high' },
+            },
+          ],
+        },
+      ];
+
+      // One repair round: show the model its output and what was wrong
+      let content = '';
+      let errors: string[] = [];
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const response = await client.chat.completions.create({
+          model: options.model,
+          messages,
+          max_tokens: 1000,
+          temperature: 0.3,
+          response_format: responseFormat,
+        }, { signal });
+
+        content = response.choices[0]?.message?.content || '';
+        console.log(`${options.name} response:`, content.substring(0, 200));
+
+        const result = validateAIAnalysis(content);
+        if (result.ok) return result.analysis;
+
+        errors = result.errors;
+        console.error(`${options.name} response failed validation (attempt ${attempt}):`, errors);
+        messages.push(
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content: `That response is invalid: ${errors.join('; ')}. Reply again with only the corrected JSON object.`,
+          },
+        );
+      }
+
+      throw new VisionResponseError(options.name, errors, content);
+    },
+  };
+}
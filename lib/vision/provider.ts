@@ -0,0 +1,103 @@
+import type { ImageInspection } from '../image/inspect';
+import type { ImageMetrics } from '../image/metrics';
+import type { TargetEvaluation } from '../target-size';
+import type { Tier } from '../scoring';
+import { createOpenAIProvider } from './openai';
+import { localProvider } from './local';
+
+// Types
+export interface AIAnalysis {
+  score: number;
+  tier: Tier;
+  summary: string;
+  resolutionIssue: string;
+  colorIssue: string;
+  layoutIssue: string;
+  formatIssue: string;
+  printSizeMax: string;
+  sharpness: string;
+  compressionArtifacts: string;
+  colorProfile: string;
+  recommendations: string[];
+}
+
+export interface VisionRequest {
+  buffer: Buffer;
+  mimeType: string;
+  // Displayed size after EXIF orientation
+  width: number;
+  height: number;
+  image: ImageInspection | null;
+  target: TargetEvaluation | null;
+  metrics: ImageMetrics | null;
+  // Aborts the model call when the analysis is cancelled
+  signal?: AbortSignal;
+}
+
+export interface VisionProvider {
+  // Reported with the result, e.g. 'openai:gpt-4o' or 'local'
+  name: string;
+  // Changes whenever the prompt or heuristics do, so cached analyses from
+  // an older version are not reused
+  version: number;
+  analyze(request: VisionRequest): Promise<AIAnalysis>;
+}
+
+export interface ResolvedProvider {
+  provider: VisionProvider;
+  // Why the configured provider could not be used, if it couldn't
+  fallback_reason?: string;
+}
+
+// Which provider to use: 'openai', 'openai-compatible' or 'local'. Defaults
+// to OpenAI when a key is configured and the local analyzer otherwise.
+const PROVIDER = process.env.PRINTSCORE_VISION_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+const MODEL = process.env.PRINTSCORE_VISION_MODEL;
+const BASE_URL = process.env.PRINTSCORE_VISION_BASE_URL;
+
+let resolved: ResolvedProvider | null = null;
+
+function createProvider(): ResolvedProvider {
+  switch (PROVIDER) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        return { provider: localProvider, fallback_reason: 'OPENAI_API_KEY is not set' };
+      }
+      return {
+        provider: createOpenAIProvider({
+          name: 'openai',
+          model: MODEL || 'gpt-4o',
+          apiKey: process.env.OPENAI_API_KEY,
+          jsonMode: 'json_schema',
+        }),
+      };
+    case 'openai-compatible':
+      if (!BASE_URL || !MODEL) {
+        return { provider: localProvider, fallback_reason: 'PRINTSCORE_VISION_BASE_URL and PRINTSCORE_VISION_MODEL must be set' };
+      }
+      return {
+        provider: createOpenAIProvider({
+          name: 'openai-compatible',
+          model: MODEL,
+          // Local servers usually ignore the key, but the client requires one
+          apiKey: process.env.PRINTSCORE_VISION_API_KEY || 'not-needed',
+          baseURL: BASE_URL,
+          jsonMode: 'json_object',
+        }),
+      };
+    case 'local':
+      return { provider: localProvider };
+    default:
+      return { provider: localProvider, fallback_reason: `Unknown vision provider "${PROVIDER}"` };
+  }
+}
+
+export function resolveVisionProvider(): ResolvedProvider {
+  if (!resolved) {
+    resolved = createProvider();
+    if (resolved.fallback_reason) {
+      console.error(`Vision provider unavailable (${resolved.fallback_reason}); using the local analyzer.`);
+    }
+  }
+  return resolved;
+}
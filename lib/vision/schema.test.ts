@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { validateAIAnalysis } from './schema';
+
+const VALID = {
+  score: 81.6,
+  tier: 'Great',
+  summary: 'Sharp photo with clean tones.',
+  resolutionIssue: 'Enough pixels for 8 × 10 in.',
+  colorIssue: 'sRGB; converts to CMYK with little shift.',
+  layoutIssue: 'Subject is well inside the margins.',
+  formatIssue: 'JPEG at high quality.',
+  printSizeMax: '8 × 10 inches',
+  sharpness: 'Crisp edges.',
+  compressionArtifacts: 'None visible.',
+  colorProfile: 'sRGB IEC61966-2.1',
+  recommendations: ['Convert to CMYK before sending.'],
+};
+
+test('a valid response is accepted with its score rounded', () => {
+  const result = validateAIAnalysis(JSON.stringify(VALID));
+  assert.ok(result.ok);
+  assert.equal(result.analysis.score, 82);
+  assert.deepEqual(result.analysis.recommendations, VALID.recommendations);
+});
+
+test('the tier is derived from the score, not taken from the model', () => {
+  const result = validateAIAnalysis(JSON.stringify({ ...VALID, score: 35, tier: 'Print-Ready' }));
+  assert.ok(result.ok);
+  assert.equal(result.analysis.tier, 'Print Failure Likely');
+});
+
+test('a markdown fence or preamble around the object is tolerated', () => {
+  const result = validateAIAnalysis(`Here is the analysis:\n\`\`\`json\n${JSON.stringify(VALID)}\n\`\`\``);
+  assert.ok(result.ok);
+});
+
+test('text that is not a JSON object is rejected', () => {
+  assert.deepEqual(validateAIAnalysis('I cannot analyze this image.'), { ok: false, errors: ['response is not valid JSON'] });
+  assert.deepEqual(validateAIAnalysis('[1, 2]'), { ok: false, errors: ['response is not a JSON object'] });
+  assert.deepEqual(validateAIAnalysis('"text"'), { ok: false, errors: ['response is not a JSON object'] });
+});
+
+test('every invalid field is reported', () => {
+  const result = validateAIAnalysis(JSON.stringify({ ...VALID, score: 140, tier: 'Excellent', summary: '  ', recommendations: 'none' }));
+  assert.ok(!result.ok);
+  assert.deepEqual(result.errors, [
+    'score must be between 0 and 100',
+    'tier must be one of: Print-Ready, Great, Needs Optimization, High Risk, Print Failure Likely',
+    'summary must be a non-empty string',
+    'recommendations must be an array of strings',
+  ]);
+});
+
+test('a missing or non-numeric score is rejected', () => {
+  const { score: _score, ...missing } = VALID;
+  for (const value of [missing, { ...VALID, score: '90' }, { ...VALID, score: null }]) {
+    const result = validateAIAnalysis(JSON.stringify(value));
+    assert.ok(!result.ok);
+    assert.deepEqual(result.errors, ['score must be a number']);
+  }
+});
@@ -0,0 +1,92 @@
+import { TIERS, tierForScore } from '../scoring';
+import type { AIAnalysis } from './provider';
+
+const TEXT_FIELDS = [
+  'summary',
+  'resolutionIssue',
+  'colorIssue',
+  'layoutIssue',
+  'formatIssue',
+  'printSizeMax',
+  'sharpness',
+  'compressionArtifacts',
+  'colorProfile',
+] as const;
+
+// JSON Schema for structured output mode. Mirrors validateAIAnalysis.
+export const AI_ANALYSIS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['score', 'tier', ...TEXT_FIELDS, 'recommendations'],
+  properties: {
+    score: { type: 'number', minimum: 0, maximum: 100 },
+    tier: { type: 'string', enum: [...TIERS] },
+    ...Object.fromEntries(TEXT_FIELDS.map((field) => [field, { type: 'string' }])),
+    recommendations: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// The model's output failed validation, including after a repair round
+export class VisionResponseError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly errors: string[],
+    readonly raw: string,
+  ) {
+    super(`${provider} returned an invalid analysis: ${errors.join('; ')}`);
+    this.name = 'VisionResponseError';
+  }
+}
+
+export type ValidationResult =
+  | { ok: true; analysis: AIAnalysis }
+  | { ok: false; errors: string[] };
+
+// Parse and check a model response. The tier is always re-derived from the
+// score so the two can never disagree.
+export function validateAIAnalysis(content: string): ValidationResult {
+  let value: unknown;
+  try {
+    // Tolerate a markdown fence or preamble around the object
+    const json = content.match(/\{[\s\S]*\}/)?.[0] ?? content;
+    value = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: ['response is not valid JSON'] };
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: ['response is not a JSON object'] };
+  }
+
+  const v = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof v.score !== 'number' || !Number.isFinite(v.score)) {
+    errors.push('score must be a number');
+  } else if (v.score < 0 || v.score > 100) {
+    errors.push('score must be between 0 and 100');
+  }
+  if (typeof v.tier !== 'string' || !(TIERS as readonly string[]).includes(v.tier)) {
+    errors.push(`tier must be one of: ${TIERS.join(', ')}`);
+  }
+  for (const field of TEXT_FIELDS) {
+    if (typeof v[field] !== 'string' || !(v[field] as string).trim()) {
+      errors.push(`${field} must be a non-empty string`);
+    }
+  }
+  if (!Array.isArray(v.recommendations) || !v.recommendations.every((r) => typeof r === 'string')) {
+    errors.push('recommendations must be an array of strings');
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const score = Math.round(v.score as number);
+  return {
+    ok: true,
+    analysis: {
+      score,
+      tier: tierForScore(score),
+      ...(Object.fromEntries(TEXT_FIELDS.map((field) => [field, v[field]])) as Record<(typeof TEXT_FIELDS)[number], string>),
+      recommendations: v.recommendations as string[],
+    },
+  };
+}
@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Vercel-ready, no static export needed
+  // pdfkit and pdf.js read font data from their own package directories at
+  // runtime; the canvas binding is a native module
+  serverExternalPackages: ['pdfkit', 'pdfjs-dist', '@napi-rs/canvas'],
 }
 
 module.exports = nextConfig
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+// Manage v1 API keys. Only a SHA-256 hash of each key is written to the
+// keys file; the key itself is printed once, when it is created.
+//
+//   npm run api-keys -- create <id> [--name "Order system"] [--rate-limit 60] [--daily-quota 1000]
+//   npm run api-keys -- list
+//   npm run api-keys -- disable <id> | enable <id> | delete <id>
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const KEYS_PATH = process.env.PRINTSCORE_API_KEYS_PATH || path.join(process.cwd(), 'config', 'api-keys.json');
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+async function readKeys() {
+  try {
+    return JSON.parse(await fs.readFile(KEYS_PATH, 'utf8'));
+  } catch (e) {
+    if (e.code === 'ENOENT') return [];
+    fail(`Could not read ${KEYS_PATH}: ${e.message}`);
+  }
+}
+
+async function writeKeys(keys) {
+  await fs.mkdir(path.dirname(KEYS_PATH), { recursive: true });
+  await fs.writeFile(KEYS_PATH, JSON.stringify(keys, null, 2) + '\n', { mode: 0o600 });
+}
+
+function option(args, name) {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function positiveInt(args, name) {
+  const value = option(args, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) fail(`--${name} must be a positive integer`);
+  return n;
+}
+
+const [command, id, ...args] = process.argv.slice(2);
+const keys = await readKeys();
+const existing = keys.find((k) => k.id === id);
+
+switch (command) {
+  case 'create': {
+    if (!id || !ID_PATTERN.test(id)) fail('Usage: create <id>, where id is lowercase letters, digits, - and _');
+    if (existing) fail(`Key ${id} already exists`);
+
+    const key = 'psk_' + randomBytes(32).toString('base64url');
+    const entry = {
+      id,
+      name: option(args, 'name') ?? id,
+      key_sha256: createHash('sha256').update(key).digest('hex'),
+      rate_limit_per_minute: positiveInt(args, 'rate-limit'),
+      daily_quota: positiveInt(args, 'daily-quota'),
+      disabled: false,
+      created_at: new Date().toISOString(),
+    };
+    await writeKeys([...keys, entry]);
+    console.log(`Created key ${id}. Store it now; it cannot be shown again:\n\n  ${key}\n`);
+    break;
+  }
+
+  case 'list':
+    for (const k of keys) {
+      const limits = `${k.rate_limit_per_minute ?? 'default'}/min, ${k.daily_quota ?? 'default'}/day`;
+      console.log(`${k.id}\t${k.name ?? ''}\t${limits}${k.disabled ? '\tdisabled' : ''}`);
+    }
+    break;
+
+  case 'disable':
+  case 'enable':
+    if (!existing) fail(`No key ${id}`);
+    existing.disabled = command === 'disable';
+    await writeKeys(keys);
+    console.log(`${command === 'disable' ? 'Disabled' : 'Enabled'} key ${id}`);
+    break;
+
+  case 'delete':
+    if (!existing) fail(`No key ${id}`);
+    await writeKeys(keys.filter((k) => k !== existing));
+    console.log(`Deleted key ${id}`);
+    break;
+
+  default:
+    fail('Usage: api-keys create <id> [--name <name>] [--rate-limit <n>] [--daily-quota <n>] | list | disable <id> | enable <id> | delete <id>');
+}
@@ -16,6 +16,14 @@ module.exports = {
         'accent-lime': '#C7F464',
         'accent-amber': '#F5A623',
         'accent-pink': '#FF008C',
+        // Tenant theme palette, set as RGB channels by themeStyle()
+        brand: {
+          primary: 'rgb(var(--brand-primary) / <alpha-value>)',
+          accent: 'rgb(var(--brand-accent) / <alpha-value>)',
+          highlight: 'rgb(var(--brand-highlight) / <alpha-value>)',
+          text: 'rgb(var(--brand-text) / <alpha-value>)',
+          background: 'rgb(var(--brand-background) / <alpha-value>)',
+        },
       },
       fontFamily: {
         sans: ['Space Grotesk', 'Inter', 'system-ui', 'sans-serif'],